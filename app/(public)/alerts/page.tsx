@@ -0,0 +1,50 @@
+import { Metadata } from 'next';
+import { Card, CardContent } from '@/components/ui/card';
+import JobAlertsList from '@/components/Public/JobAlertsList';
+import PageContainer from '@/components/Shared/PageContainer';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+
+export const metadata: Metadata = {
+  title: 'Job Alerts',
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+export default async function JobAlertsPage() {
+  const session = await auth();
+
+  if (session?.user.role !== 'jobseeker') {
+    return (
+      <PageContainer className="max-w-3xl">
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">
+            Job alerts are available to job seeker accounts.
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  const { savedSearches, categories } = getRepository();
+  const [searches, categoryList] = await Promise.all([
+    savedSearches.listForUser(session.user.id),
+    categories.list(),
+  ]);
+
+  return (
+    <PageContainer className="max-w-3xl">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Job Alerts</h1>
+          <p className="mt-2 text-gray-600">
+            Saved searches email you new jobs as they&apos;re posted. Save a search from the jobs page.
+          </p>
+        </div>
+
+        <JobAlertsList initialSearches={searches} categories={categoryList} />
+      </div>
+    </PageContainer>
+  );
+}
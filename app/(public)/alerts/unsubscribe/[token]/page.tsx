@@ -0,0 +1,37 @@
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import PageContainer from '@/components/Shared/PageContainer';
+import UnsubscribeConfirm from '@/components/Public/UnsubscribeConfirm';
+import { verifyUnsubscribeToken } from '@/lib/job-alerts';
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe',
+  robots: { index: false, follow: false },
+};
+
+export default function UnsubscribePage({ params }: { params: { token: string } }) {
+  if (!verifyUnsubscribeToken(params.token)) {
+    redirect('/alerts/unsubscribed?invalid=1');
+  }
+
+  return (
+    <PageContainer className="max-w-2xl">
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-gray-600">
+            Stop emailing me new jobs for this saved search? The search will be deleted.
+          </p>
+          <div className="flex justify-center gap-2">
+            <UnsubscribeConfirm token={params.token} />
+            <Link href="/alerts">
+              <Button variant="outline">Manage job alerts</Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import PageContainer from '@/components/Shared/PageContainer';
+
+export const metadata: Metadata = {
+  title: 'Unsubscribed',
+  robots: { index: false, follow: false },
+};
+
+export default function UnsubscribedPage({
+  searchParams,
+}: {
+  searchParams: { invalid?: string };
+}) {
+  return (
+    <PageContainer className="max-w-2xl">
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-gray-600">
+            {searchParams.invalid
+              ? 'This unsubscribe link is not valid. You can manage your alerts after signing in.'
+              : "You've been unsubscribed. You won't get any more emails for that search."}
+          </p>
+          <Link href="/alerts">
+            <Button variant="outline">Manage job alerts</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </PageContainer>
+  );
+}
@@ -5,7 +5,7 @@ import CompanyJobs from '@/components/Public/CompanyJobs';
 import PageContainer from '@/components/Shared/PageContainer';
 import { getCompanyBySlug, getJobsByCompany } from '@/lib/sanity-utils';
 import { urlFor } from '@/lib/sanity';
-import { client } from '@/lib/sanity.client';
+import { getRepository } from '@/lib/data';
 
 interface CompanyDetailPageProps {
   params: {
@@ -14,14 +14,10 @@ interface CompanyDetailPageProps {
 }
 
 export async function generateStaticParams() {
-  const companies = await client.fetch(`
-    *[_type == "company"] {
-      "slug": slug.current
-    }
-  `);
+  const slugs = await getRepository().companies.listSlugs();
 
-  return companies.map((company: any) => ({
-    slug: company.slug,
+  return slugs.map((slug) => ({
+    slug,
   }));
 }
 
@@ -0,0 +1,58 @@
+import { Metadata } from 'next';
+import { Card, CardContent } from '@/components/ui/card';
+import InterviewScheduler from '@/components/Public/InterviewScheduler';
+import PageContainer from '@/components/Shared/PageContainer';
+import { getRepository } from '@/lib/data';
+import {
+  getApplicationBySchedulingToken,
+  getOpenSlots,
+  isActiveInterview,
+} from '@/lib/interviews';
+
+// Links are personal; keep them out of search results
+export const metadata: Metadata = {
+  title: 'Schedule Your Interview',
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+export default async function InterviewSchedulingPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const application = await getApplicationBySchedulingToken(params.token);
+
+  if (!application) {
+    return (
+      <PageContainer className="max-w-2xl">
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">
+            This scheduling link is no longer valid. Please contact the employer for a new one.
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  const slots = await getRepository().interviews.listForJob(application.job._id);
+
+  return (
+    <PageContainer className="max-w-2xl">
+      <InterviewScheduler
+        token={params.token}
+        applicantName={application.applicantInfo.name}
+        jobTitle={application.job.title}
+        companyName={application.job.company.name}
+        interview={isActiveInterview(application.interview) ? application.interview : undefined}
+        slots={getOpenSlots(slots).map(({ _id, startsAt, endsAt, location }) => ({
+          _id,
+          startsAt,
+          endsAt,
+          location,
+        }))}
+      />
+    </PageContainer>
+  );
+}
@@ -6,10 +6,11 @@ import JobDetailSkeleton from '@/components/Public/JobDetailSkeleton';
 import RelatedJobs from '@/components/Public/RelatedJobs';
 import ApplicationCard from '@/components/Public/ApplicationCard';
 import JobStructuredData from '@/components/Public/JobStructuredData';
+import JobViewTracker from '@/components/Public/JobViewTracker';
 import PageContainer from '@/components/Shared/PageContainer';
 import { getJobBySlug, getRelatedJobs } from '@/lib/sanity-utils';
-import { client } from '@/lib/sanity';
 import { urlFor } from '@/lib/sanity';
+import { getRepository } from '@/lib/data';
 import { Job } from '@/types';
 
 interface JobDetailPageProps {
@@ -21,14 +22,10 @@ interface JobDetailPageProps {
 // Generate static params for all jobs
 export async function generateStaticParams() {
   try {
-    const jobs = await client.fetch(`
-      *[_type == "jobPosting" && status == "published"] {
-        "slug": slug.current
-      }
-    `);
+    const slugs = await getRepository().jobs.listPublishedSlugs();
 
-    return jobs.map((job: any) => ({
-      slug: job.slug,
+    return slugs.map((slug) => ({
+      slug,
     }));
   } catch (error) {
     console.error('Error generating static params:', error);
@@ -97,6 +94,7 @@ export default async function JobDetailPage({ params }: JobDetailPageProps) {
   return (
     <>
       <JobStructuredData job={job} />
+      <JobViewTracker jobId={job._id} />
       <PageContainer>
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Main Content */}
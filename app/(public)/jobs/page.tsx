@@ -4,7 +4,6 @@ import JobListingContent from '@/components/Public/JobListingContent';
 import JobListingSkeleton from '@/components/Public/JobListingSkeleton';
 import PageContainer from '@/components/Shared/PageContainer';
 import { getJobs, getCategories } from '@/lib/sanity-utils';
-import { mockJobs, mockCategories } from '@/components/Public/mock-data';
 
 export const metadata: Metadata = {
   title: 'Browse Jobs',
@@ -36,25 +35,10 @@ export default async function JobsPage({ searchParams }: JobsPageProps) {
     search: searchParams.search || '',
   };
 
-  // Fetch data - handle errors gracefully for development
-  let jobsData: { jobs: any[]; total: number; pages: number };
-  let categories: any[];
-  
-  try {
-    [jobsData, categories] = await Promise.all([
-      getJobs({ page, ...filters }),
-      getCategories(),
-    ]);
-  } catch (error) {
-    console.error('Error fetching jobs:', error);
-    // Fallback to mock data during development
-    jobsData = {
-      jobs: mockJobs,
-      total: mockJobs.length,
-      pages: 1
-    };
-    categories = mockCategories;
-  }
+  const [jobsData, categories] = await Promise.all([
+    getJobs({ page, ...filters }),
+    getCategories(),
+  ]);
 
   return (
     <PageContainer>
@@ -13,7 +13,9 @@ import {
   User, 
   LogIn,
   Search,
-  MapPin
+  MapPin,
+  Bell,
+  Bookmark
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -82,12 +84,26 @@ export default function PublicLayout({
                       </Button>
                     </Link>
                   ) : (
-                    <Link href="/profile">
-                      <Button variant="outline">
-                        <User className="mr-2 h-4 w-4" />
-                        My Applications
-                      </Button>
-                    </Link>
+                    <>
+                      <Link href="/saved">
+                        <Button variant="ghost">
+                          <Bookmark className="mr-2 h-4 w-4" />
+                          Saved Jobs
+                        </Button>
+                      </Link>
+                      <Link href="/alerts">
+                        <Button variant="ghost">
+                          <Bell className="mr-2 h-4 w-4" />
+                          Job Alerts
+                        </Button>
+                      </Link>
+                      <Link href="/profile">
+                        <Button variant="outline">
+                          <User className="mr-2 h-4 w-4" />
+                          My Applications
+                        </Button>
+                      </Link>
+                    </>
                   )}
                 </>
               ) : (
@@ -149,15 +165,35 @@ export default function PublicLayout({
                               </Button>
                             </Link>
                           ) : (
-                            <Link
-                              href="/profile"
-                              onClick={() => setMobileMenuOpen(false)}
-                            >
-                              <Button className="w-full" variant="outline">
-                                <User className="mr-2 h-4 w-4" />
-                                My Applications
-                              </Button>
-                            </Link>
+                            <div className="space-y-2">
+                              <Link
+                                href="/saved"
+                                onClick={() => setMobileMenuOpen(false)}
+                              >
+                                <Button className="w-full" variant="ghost">
+                                  <Bookmark className="mr-2 h-4 w-4" />
+                                  Saved Jobs
+                                </Button>
+                              </Link>
+                              <Link
+                                href="/alerts"
+                                onClick={() => setMobileMenuOpen(false)}
+                              >
+                                <Button className="w-full" variant="ghost">
+                                  <Bell className="mr-2 h-4 w-4" />
+                                  Job Alerts
+                                </Button>
+                              </Link>
+                              <Link
+                                href="/profile"
+                                onClick={() => setMobileMenuOpen(false)}
+                              >
+                                <Button className="w-full" variant="outline">
+                                  <User className="mr-2 h-4 w-4" />
+                                  My Applications
+                                </Button>
+                              </Link>
+                            </div>
                           )}
                         </>
                       ) : (
@@ -213,6 +249,16 @@ export default function PublicLayout({
                     Companies
                   </Link>
                 </li>
+                <li>
+                  <Link href="/saved" className="text-gray-300 hover:text-white">
+                    Saved Jobs
+                  </Link>
+                </li>
+                <li>
+                  <Link href="/alerts" className="text-gray-300 hover:text-white">
+                    Job Alerts
+                  </Link>
+                </li>
                 <li>
                   <Link href="/resources/resume-tips" className="text-gray-300 hover:text-white">
                     Resume Tips
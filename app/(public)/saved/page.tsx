@@ -0,0 +1,46 @@
+import { Metadata } from 'next';
+import { Card, CardContent } from '@/components/ui/card';
+import SavedJobsList from '@/components/Public/SavedJobsList';
+import PageContainer from '@/components/Shared/PageContainer';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+
+export const metadata: Metadata = {
+  title: 'My Saved Jobs',
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+export default async function SavedJobsPage() {
+  const session = await auth();
+
+  if (session?.user.role !== 'jobseeker') {
+    return (
+      <PageContainer className="max-w-4xl">
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">
+            Saving jobs is available to job seeker accounts.
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  const savedJobs = await getRepository().savedJobs.listForUser(session.user.id);
+
+  return (
+    <PageContainer className="max-w-4xl">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Saved Jobs</h1>
+          <p className="mt-2 text-gray-600">
+            Jobs you bookmarked. We&apos;ll email you before a saved job&apos;s application deadline.
+          </p>
+        </div>
+
+        <SavedJobsList initialSavedJobs={savedJobs} />
+      </div>
+    </PageContainer>
+  );
+}
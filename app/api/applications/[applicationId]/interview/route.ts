@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { cancelInterview, sendSchedulingInvite } from '@/lib/interviews';
+
+// Email the applicant a new scheduling link, replacing the previous one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const application = await getRepository().applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    if (application.status !== 'interviewing') {
+      return NextResponse.json(
+        { error: 'Move the application to Interviewing before sending a scheduling link' },
+        { status: 400 }
+      );
+    }
+
+    const result = await sendSchedulingInvite(application);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to send scheduling link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error sending scheduling link:', error);
+    return NextResponse.json(
+      { error: 'Failed to send scheduling link' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel the booked interview; the applicant is sent a link to pick another time
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const { applications } = getRepository();
+    const application = await applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelInterview(application, 'employer');
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'There is no interview to cancel' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await applications.getForCompany(application._id, session.user.companyId)
+    );
+  } catch (error) {
+    console.error('Error cancelling interview:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel interview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { getResumeDownloadUrl } from '@/lib/resumes';
+
+// Send the employer on to a short-lived link to the applicant's resume
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const application = await getRepository().applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!application?.applicantInfo.resume) {
+      return NextResponse.json(
+        { error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    const url = getResumeDownloadUrl({
+      applicationId: application._id,
+      companyId: session.user.companyId,
+      viewer: toRevisionActor(session.user),
+    });
+
+    return NextResponse.redirect(new URL(url, request.url));
+  } catch (error) {
+    console.error('Error creating resume link:', error);
+    return NextResponse.json(
+      { error: 'Failed to open resume' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { updateApplication } from '@/lib/mutations';
+import { applicationUpdateSchema } from '@/lib/validations/application';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const application = await getRepository().applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(application);
+  } catch (error) {
+    console.error('Error fetching application:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch application' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const values = applicationUpdateSchema.parse(await request.json());
+
+    // Verify ownership
+    const { applications } = getRepository();
+    const existing = await applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    await updateApplication(existing._id, values);
+
+    const application = await applications.getForCompany(
+      existing._id,
+      session.user.companyId
+    );
+
+    return NextResponse.json(application);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid application update' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating application:', error);
+    return NextResponse.json(
+      { error: 'Failed to update application' },
+      { status: 500 }
+    );
+  }
+}
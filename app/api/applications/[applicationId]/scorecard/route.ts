@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { saveScorecard } from '@/lib/mutations';
+import { buildScorecard } from '@/lib/scorecards';
+import { scorecardSchema } from '@/lib/validations/application';
+
+// Submit or replace the signed-in reviewer's scorecard
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const values = scorecardSchema.parse(await request.json());
+
+    // Verify ownership
+    const { applications } = getRepository();
+    const application = await applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const scorecard = buildScorecard(
+      application.job.scorecardCriteria || [],
+      values,
+      toRevisionActor(session.user)
+    );
+
+    if (typeof scorecard === 'string') {
+      return NextResponse.json(
+        { error: scorecard },
+        { status: 400 }
+      );
+    }
+
+    await saveScorecard(application._id, scorecard);
+
+    return NextResponse.json(
+      await applications.getForCompany(application._id, session.user.companyId)
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid scorecard' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving scorecard:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scorecard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { sendStatusChangedEmail } from '@/lib/application-emails';
+import { applicationStatusConfig } from '@/lib/application-status';
+import { sendSchedulingInvite } from '@/lib/interviews';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { updateApplicationStatus } from '@/lib/mutations';
+import { applicationStatusSchema } from '@/lib/validations/application';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { status, expectedStatus, override } = applicationStatusSchema.parse(
+      await request.json()
+    );
+
+    // Verify ownership
+    const { applications } = getRepository();
+    const existing = await applications.getForCompany(
+      params.applicationId,
+      session.user.companyId
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await updateApplicationStatus(
+      existing._id,
+      status,
+      expectedStatus,
+      toRevisionActor(session.user),
+      { override }
+    );
+
+    if (result === 'not-allowed') {
+      const [from, to] = [expectedStatus, status].map((value) => applicationStatusConfig[value].label);
+      return NextResponse.json(
+        { error: `Moving an application from ${from} to ${to} needs an override` },
+        { status: 400 }
+      );
+    }
+
+    const application = await applications.getForCompany(
+      existing._id,
+      session.user.companyId
+    );
+
+    // Dropped back where it was: nothing to save or tell the applicant
+    if (result === 'unchanged') {
+      return NextResponse.json(application);
+    }
+
+    // Send back the current state so the board can show where the card really is
+    if (result === 'conflict') {
+      return NextResponse.json(
+        { error: 'This application was moved by someone else', application },
+        { status: 409 }
+      );
+    }
+
+    // Applicants moved to interviewing pick their own time, and the
+    // scheduling link tells them about the move
+    if (application && status === 'interviewing') {
+      const invite = await sendSchedulingInvite(application);
+      if (!invite.success) {
+        console.error('Scheduling link email failed:', invite.error);
+      }
+    } else if (application) {
+      await sendStatusChangedEmail(application, status);
+    }
+
+    return NextResponse.json(application);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating application status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update application status' },
+      { status: 500 }
+    );
+  }
+}
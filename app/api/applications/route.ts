@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { sendApplicationSubmittedEmails } from '@/lib/application-emails';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { createApplication } from '@/lib/mutations';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import {
+  applicationListQuerySchema,
+  applicationSubmissionSchema
+} from '@/lib/validations/application';
+
+// People take longer than this to fill in even a prefilled form
+const MIN_FILL_TIME_MS = 3000;
+
+// Applications per IP address and per applicant email
+const checkIpLimit = createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 });
+const checkEmailLimit = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+
+function tooManyRequests(retryAfter: number) {
+  return NextResponse.json(
+    { error: 'Too many applications. Please try again later.' },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Empty params mean "no filter"
+    const params = Object.fromEntries(
+      Array.from(request.nextUrl.searchParams).filter(([, value]) => value !== '')
+    );
+    const query = applicationListQuerySchema.parse(params);
+
+    const { applications, total } = await getRepository().applications.listForCompany(
+      session.user.companyId,
+      query
+    );
+
+    return NextResponse.json({
+      applications,
+      total,
+      page: query.page,
+      pageSize: query.pageSize
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid query' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching applications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch applications' },
+      { status: 500 }
+    );
+  }
+}
+
+// Submit an application from a public job page
+export async function POST(request: NextRequest) {
+  try {
+    const ipRetryAfter = checkIpLimit(getClientIp(request.headers));
+    if (ipRetryAfter) return tooManyRequests(ipRetryAfter);
+
+    const { website, startedAt, jobId, answers, ...data } = applicationSubmissionSchema.parse(
+      await request.json()
+    );
+
+    // Only bots fill in the hidden field; they're told it worked so they
+    // don't adapt
+    if (website) {
+      return NextResponse.json({ success: true }, { status: 201 });
+    }
+
+    if (!startedAt || Date.now() - startedAt < MIN_FILL_TIME_MS) {
+      return NextResponse.json(
+        { error: 'Please take a moment to check your application, then submit again' },
+        { status: 400 }
+      );
+    }
+
+    const emailRetryAfter = checkEmailLimit(data.applicantInfo.email);
+    if (emailRetryAfter) return tooManyRequests(emailRetryAfter);
+
+    const { applications, jobs } = getRepository();
+    const job = await jobs.getById(jobId);
+
+    if (!job || job.status !== 'published') {
+      return NextResponse.json(
+        { error: 'This job is no longer accepting applications' },
+        { status: 404 }
+      );
+    }
+
+    const hasApplied = await applications.hasApplied(
+      jobId,
+      data.applicantInfo.email,
+      data.applicantInfo.phone
+    );
+
+    if (hasApplied) {
+      return NextResponse.json(
+        { error: 'You have already applied to this job' },
+        { status: 409 }
+      );
+    }
+
+    const result = await createApplication(job, data, answers);
+    if (typeof result === 'string') {
+      return NextResponse.json(
+        { error: result },
+        { status: 400 }
+      );
+    }
+
+    // Read back with the job and company filled in for the emails
+    const application = await applications.getForCompany(result._id, job.company._ref);
+    if (application) {
+      await sendApplicationSubmittedEmails(application);
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid application' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error submitting application:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit application. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
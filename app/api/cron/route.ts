@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { env } from '@/lib/env';
+import { runScheduledTasks } from '@/lib/scheduled-tasks';
+
+// Invoked by Vercel Cron (see vercel.json), which sends the CRON_SECRET as a bearer token
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!env.cron.secret || authHeader !== `Bearer ${env.cron.secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const report = await runScheduledTasks();
+
+    if (report.published.updated.length > 0 || report.expired.updated.length > 0) {
+      revalidateTag('jobs');
+    }
+
+    console.info('Scheduled tasks complete', report);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error running scheduled tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
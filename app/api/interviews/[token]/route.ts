@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getRepository } from '@/lib/data';
+import {
+  bookInterview,
+  cancelInterview,
+  getApplicationBySchedulingToken,
+} from '@/lib/interviews';
+import { bookInterviewSchema } from '@/lib/validations/interview';
+
+// Applicants have no account; the scheduling token in the link is their access
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const application = await getApplicationBySchedulingToken(params.token);
+    if (!application) {
+      return NextResponse.json(
+        { error: 'This scheduling link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    const { slotId } = bookInterviewSchema.parse(await request.json());
+
+    const result = await bookInterview(application, slotId);
+    if (result === 'unavailable') {
+      return NextResponse.json(
+        { error: 'That time is no longer available' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await getRepository().applications.getForCompany(
+      application._id,
+      application.job.company._id
+    );
+
+    return NextResponse.json({ interview: updated?.interview });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid booking' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error booking interview:', error);
+    return NextResponse.json(
+      { error: 'Failed to book interview' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const application = await getApplicationBySchedulingToken(params.token);
+    if (!application) {
+      return NextResponse.json(
+        { error: 'This scheduling link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelInterview(application, 'applicant');
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'There is no interview to cancel' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling interview:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel interview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { duplicateJob } from '@/lib/mutations';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Body is optional; default to a plain duplicate
+    const { mode = 'duplicate' } = await request.json().catch(() => ({}));
+
+    if (mode !== 'duplicate' && mode !== 'repost') {
+      return NextResponse.json(
+        { error: 'Invalid mode' },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership
+    const job = await getRepository().jobs.getForCompany(
+      params.jobId,
+      session.user.companyId
+    );
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (mode === 'repost' && job.status !== 'filled' && job.status !== 'expired') {
+      return NextResponse.json(
+        { error: 'Only filled or expired jobs can be reposted' },
+        { status: 400 }
+      );
+    }
+
+    const newJob = await duplicateJob(job, mode);
+
+    return NextResponse.json(newJob, { status: 201 });
+  } catch (error) {
+    console.error('Error duplicating job:', error);
+    return NextResponse.json(
+      { error: 'Failed to duplicate job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { cancelInterview } from '@/lib/interviews';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string; slotId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const { jobs, applications, interviews } = getRepository();
+    const job = await jobs.getForCompany(params.jobId, session.user.companyId);
+    const slot = await interviews.get(params.slotId);
+
+    if (!job || !slot || slot.jobId !== job._id) {
+      return NextResponse.json(
+        { error: 'Interview slot not found' },
+        { status: 404 }
+      );
+    }
+
+    // Let the applicant know and send them a link to pick another time
+    if (slot.applicationId) {
+      const application = await applications.getForCompany(
+        slot.applicationId,
+        session.user.companyId
+      );
+      if (application) await cancelInterview(application, 'employer');
+    }
+
+    await interviews.delete(slot._id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting interview slot:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete interview slot' },
+      { status: 500 }
+    );
+  }
+}
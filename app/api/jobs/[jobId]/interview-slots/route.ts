@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { addMinutes } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { interviewSlotSchema } from '@/lib/validations/interview';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const { jobs, applications, interviews } = getRepository();
+    const job = await jobs.getForCompany(params.jobId, session.user.companyId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const slots = await interviews.listForJob(params.jobId);
+
+    // Name who booked each taken slot
+    const withApplicants = await Promise.all(
+      slots.map(async (slot) => {
+        if (!slot.applicationId) return slot;
+        const application = await applications.getForCompany(
+          slot.applicationId,
+          session.user.companyId!
+        );
+        return { ...slot, applicantName: application?.applicantInfo.name };
+      })
+    );
+
+    return NextResponse.json(withApplicants);
+  } catch (error) {
+    console.error('Error fetching interview slots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch interview slots' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { startsAt, durationMinutes, location } = interviewSlotSchema.parse(
+      await request.json()
+    );
+
+    if (new Date(startsAt) <= new Date()) {
+      return NextResponse.json(
+        { error: 'Interview slots must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership
+    const { jobs, interviews } = getRepository();
+    const job = await jobs.getForCompany(params.jobId, session.user.companyId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const slot = await interviews.create({
+      jobId: job._id,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: addMinutes(new Date(startsAt), durationMinutes).toISOString(),
+      location: location || undefined,
+    });
+
+    return NextResponse.json(slot, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid interview slot' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating interview slot:', error);
+    return NextResponse.json(
+      { error: 'Failed to create interview slot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { isPastDeadline } from '@/lib/job-lifecycle';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { renewJob } from '@/lib/mutations';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const job = await getRepository().jobs.getForCompany(
+      params.jobId,
+      session.user.companyId
+    );
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'published' && job.status !== 'expired') {
+      return NextResponse.json(
+        { error: 'Only published or expired jobs can be renewed' },
+        { status: 400 }
+      );
+    }
+
+    // The cron would expire it again straight away
+    if (isPastDeadline(job)) {
+      return NextResponse.json(
+        { error: 'The application deadline has passed. Update it before renewing.' },
+        { status: 400 }
+      );
+    }
+
+    const renewedJob = await renewJob(job, toRevisionActor(session.user));
+
+    return NextResponse.json(renewedJob);
+  } catch (error) {
+    console.error('Error renewing job:', error);
+    return NextResponse.json(
+      { error: 'Failed to renew job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { restoreJobRevision } from '@/lib/mutations';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string; revisionId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const job = await getRepository().jobs.getForCompany(
+      params.jobId,
+      session.user.companyId
+    );
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const restoredJob = await restoreJobRevision(
+      job,
+      params.revisionId,
+      toRevisionActor(session.user)
+    );
+
+    if (!restoredJob) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(restoredJob);
+  } catch (error) {
+    console.error('Error restoring job revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore job revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify ownership
+    const { jobs, revisions } = getRepository();
+    const job = await jobs.getForCompany(params.jobId, session.user.companyId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await revisions.listForJob(params.jobId);
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching job revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch job revisions' },
+      { status: 500 }
+    );
+  }
+}
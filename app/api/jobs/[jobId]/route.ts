@@ -1,24 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authConfig } from '@/lib/auth.config';
-import { client } from '@/lib/sanity.client';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { getPublishFields } from '@/lib/job-lifecycle';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { toScreeningQuestions, updateJobWithRevision } from '@/lib/mutations';
+import { jobUpdateSchema } from '@/lib/validations/job';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { jobId: string } }
 ) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    const job = await client.fetch(
-      `*[_type == "jobPosting" && _id == $jobId && company._ref == $companyId][0]`,
-      { jobId: params.jobId, companyId: session.user.companyId }
+    const job = await getRepository().jobs.getForCompany(
+      params.jobId,
+      session.user.companyId
     );
 
     if (!job) {
@@ -43,8 +47,8 @@ export async function PUT(
   { params }: { params: { jobId: string } }
 ) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -52,11 +56,13 @@ export async function PUT(
     }
 
     const body = await request.json();
+    const { screeningQuestions, ...validatedData } = jobUpdateSchema.parse(body);
 
     // Verify ownership
-    const existingJob = await client.fetch(
-      `*[_type == "jobPosting" && _id == $jobId && company._ref == $companyId][0]`,
-      { jobId: params.jobId, companyId: session.user.companyId }
+    const { jobs } = getRepository();
+    const existingJob = await jobs.getForCompany(
+      params.jobId,
+      session.user.companyId
     );
 
     if (!existingJob) {
@@ -66,18 +72,30 @@ export async function PUT(
       );
     }
 
-    const updatedJob = await client
-      .patch(params.jobId)
-      .set({
-        ...body,
-        publishedAt: body.status === 'published' && !existingJob.publishedAt 
-          ? new Date().toISOString() 
-          : existingJob.publishedAt
-      })
-      .commit();
+    // Going live sets publishedAt and a default expiry
+    const isPublishing = validatedData.status === 'published' && existingJob.status !== 'published';
+
+    const updatedJob = await updateJobWithRevision(
+      existingJob,
+      {
+        ...validatedData,
+        ...(screeningQuestions && {
+          screeningQuestions: toScreeningQuestions(screeningQuestions)
+        }),
+        ...(isPublishing && getPublishFields(existingJob))
+      },
+      toRevisionActor(session.user)
+    );
 
     return NextResponse.json(updatedJob);
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid job details' },
+        { status: 400 }
+      );
+    }
+
     console.error('Error updating job:', error);
     return NextResponse.json(
       { error: 'Failed to update job' },
@@ -91,8 +109,8 @@ export async function DELETE(
   { params }: { params: { jobId: string } }
 ) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -100,10 +118,8 @@ export async function DELETE(
     }
 
     // Verify ownership
-    const job = await client.fetch(
-      `*[_type == "jobPosting" && _id == $jobId && company._ref == $companyId][0]`,
-      { jobId: params.jobId, companyId: session.user.companyId }
-    );
+    const { jobs } = getRepository();
+    const job = await jobs.getForCompany(params.jobId, session.user.companyId);
 
     if (!job) {
       return NextResponse.json(
@@ -112,7 +128,7 @@ export async function DELETE(
       );
     }
 
-    await client.delete(params.jobId);
+    await jobs.delete(params.jobId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { updateScorecardCriteria } from '@/lib/mutations';
+import { scorecardCriteriaSchema } from '@/lib/validations/job';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const values = scorecardCriteriaSchema.parse(await request.json());
+
+    // Verify ownership
+    const job = await getRepository().jobs.getForCompany(params.jobId, session.user.companyId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateScorecardCriteria(job._id, values);
+
+    return NextResponse.json({ criteria: updated.scorecardCriteria || [] });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid scorecard criteria' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating scorecard criteria:', error);
+    return NextResponse.json(
+      { error: 'Failed to update scorecard criteria' },
+      { status: 500 }
+    );
+  }
+}
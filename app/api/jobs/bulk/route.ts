@@ -1,72 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authConfig } from '@/lib/auth.config';
-import { client } from '@/lib/sanity.client';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { runBulkAction } from '@/lib/job-bulk';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  getMissingRequiredFields,
+  readImportFile,
+  type ImportColumnMapping
+} from '@/lib/job-import';
+import { toRevisionActor } from '@/lib/job-revisions';
+import { importJobs } from '@/lib/mutations';
+import { bulkJobActionSchema } from '@/lib/validations/job';
+
+// Most jobs one bulk action can target
+const MAX_BULK_JOBS = 500;
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    const { action, jobIds } = await request.json();
+    const body = await request.json();
+
+    // Import creates new drafts from a CSV instead of acting on existing jobs
+    if (body?.action === 'import') {
+      return handleImport(body, session.user.companyId);
+    }
+
+    const { jobIds } = body ?? {};
+    const parsed = bulkJobActionSchema.safeParse(body);
 
-    if (!action || !jobIds || !Array.isArray(jobIds)) {
+    if (!parsed.success || !Array.isArray(jobIds) || jobIds.length === 0) {
       return NextResponse.json(
-        { error: 'Invalid request' },
+        { error: parsed.success ? 'Invalid request' : parsed.error.issues[0].message },
         { status: 400 }
       );
     }
 
-    // Verify ownership of all jobs
-    const jobs = await client.fetch(
-      `*[_type == "jobPosting" && _id in $jobIds && company._ref == $companyId]._id`,
-      { jobIds, companyId: session.user.companyId }
-    );
-
-    if (jobs.length !== jobIds.length) {
+    if (jobIds.length > MAX_BULK_JOBS) {
       return NextResponse.json(
-        { error: 'One or more jobs not found or unauthorized' },
-        { status: 403 }
+        { error: `Select at most ${MAX_BULK_JOBS} jobs at a time` },
+        { status: 400 }
       );
     }
 
-    switch (action) {
-      case 'delete':
-        await Promise.all(jobIds.map(id => client.delete(id)));
-        break;
-      
-      case 'expire':
-        await Promise.all(
-          jobIds.map(id => 
-            client.patch(id).set({ status: 'expired' }).commit()
-          )
-        );
-        break;
-      
-      case 'publish':
-        await Promise.all(
-          jobIds.map(id => 
-            client.patch(id).set({ 
-              status: 'published',
-              publishedAt: new Date().toISOString()
-            }).commit()
-          )
-        );
-        break;
-      
-      default:
+    const action = parsed.data;
+
+    if (action.action === 'setCategory') {
+      const categories = await getRepository().categories.list();
+      if (!categories.some(category => category._id === action.categoryId)) {
         return NextResponse.json(
-          { error: 'Invalid action' },
+          { error: 'Category not found' },
           { status: 400 }
         );
+      }
     }
 
-    return NextResponse.json({ success: true, count: jobIds.length });
+    const result = await runBulkAction(
+      action,
+      jobIds.map(String),
+      session.user.companyId,
+      toRevisionActor(session.user)
+    );
+
+    return NextResponse.json(result);
   } catch (error) {
     console.error('Error performing bulk operation:', error);
     return NextResponse.json(
@@ -74,4 +77,43 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+async function handleImport(
+  { csv, mapping, dryRun = true }: { csv?: string; mapping?: ImportColumnMapping; dryRun?: boolean },
+  companyId: string
+) {
+  if (typeof csv !== 'string' || !mapping || typeof mapping !== 'object') {
+    return NextResponse.json(
+      { error: 'A CSV file and column mapping are required' },
+      { status: 400 }
+    );
+  }
+
+  const missing = getMissingRequiredFields(mapping);
+  if (missing.length > 0) {
+    return NextResponse.json(
+      { error: `Map a column for: ${missing.map(field => IMPORT_FIELDS[field].label).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const { rows } = readImportFile(csv);
+  if (rows.length === 0) {
+    return NextResponse.json(
+      { error: 'The file has no job rows' },
+      { status: 400 }
+    );
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Import at most ${MAX_IMPORT_ROWS} jobs at a time` },
+      { status: 400 }
+    );
+  }
+
+  const report = await importJobs(csv, mapping, companyId, { dryRun: dryRun !== false });
+
+  return NextResponse.json(report);
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import {
+  createJobExportStream,
+  getExportFileName,
+  isExportFormat
+} from '@/lib/job-export';
+import { jobListFiltersSchema } from '@/lib/validations/job';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const format = searchParams.get('format') || 'csv';
+    const ids = searchParams.get('ids');
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    // Same filters as the jobs table; empty params mean "no filter"
+    const filters = jobListFiltersSchema.safeParse(
+      Object.fromEntries(Array.from(searchParams).filter(([, value]) => value !== ''))
+    );
+
+    if (!filters.success) {
+      return NextResponse.json(
+        { error: filters.error.errors[0]?.message || 'Invalid filters' },
+        { status: 400 }
+      );
+    }
+
+    // Selected jobs take precedence; other companies' IDs simply match nothing
+    const { sort, direction, ...filter } = filters.data;
+    const stream = createJobExportStream(
+      session.user.companyId,
+      format,
+      ids ? { jobIds: ids.split(',').filter(Boolean) } : filter
+    );
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getExportFileName(format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to export jobs' },
+      { status: 500 }
+    );
+  }
+}
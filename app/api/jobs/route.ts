@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authConfig } from '@/lib/auth.config';
-import { client } from '@/lib/sanity.client';
-import { jobFormSchema } from '@/lib/validations/job';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { jobFormSchema, jobListQuerySchema } from '@/lib/validations/job';
+import { getPublishFields } from '@/lib/job-lifecycle';
+import { toScreeningQuestions } from '@/lib/mutations';
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -17,24 +19,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = jobFormSchema.parse(body);
 
-    const job = await client.create({
-      _type: 'jobPosting',
-      ...validatedData,
-      company: {
-        _type: 'reference',
-        _ref: session.user.companyId
+    const job = await getRepository().jobs.create(
+      {
+        ...validatedData,
+        screeningQuestions: toScreeningQuestions(validatedData.screeningQuestions),
+        ...(validatedData.status === 'published' && getPublishFields())
       },
-      slug: {
-        _type: 'slug',
-        current: validatedData.title
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, '-')
-          .replace(/(^-|-$)/g, '')
-      },
-      publishedAt: validatedData.status === 'published' ? new Date().toISOString() : null,
-      viewCount: 0,
-      applicationCount: 0
-    });
+      session.user.companyId
+    );
 
     return NextResponse.json(job);
   } catch (error) {
@@ -48,30 +40,39 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authConfig);
-    if (!session || session.user.role !== 'employer') {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    const jobs = await client.fetch(
-      `*[_type == "jobPosting" && company._ref == $companyId] | order(publishedAt desc) {
-        _id,
-        title,
-        status,
-        viewCount,
-        applicationCount,
-        publishedAt,
-        applicationDeadline,
-        "slug": slug.current
-      }`,
-      { companyId: session.user.companyId }
+    // Empty params mean "no filter"
+    const params = Object.fromEntries(
+      Array.from(request.nextUrl.searchParams).filter(([, value]) => value !== '')
+    );
+    const query = jobListQuerySchema.parse(params);
+
+    const { jobs, total } = await getRepository().jobs.listForCompany(
+      session.user.companyId,
+      query
     );
 
-    return NextResponse.json(jobs);
+    return NextResponse.json({
+      jobs,
+      total,
+      page: query.page,
+      pageSize: query.pageSize
+    });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid query' },
+        { status: 400 }
+      );
+    }
+
     console.error('Error fetching jobs:', error);
     return NextResponse.json(
       { error: 'Failed to fetch jobs' },
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { recordResumeDownload, verifyResumeDownloadToken } from '@/lib/resumes';
+
+// Stream a resume through a signed link. The link only works for the
+// signed-in employer it was issued to, and every download is logged
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const grant = verifyResumeDownloadToken(params.token);
+    if (!grant || grant.viewer.id !== session.user.id || grant.companyId !== session.user.companyId) {
+      return NextResponse.json(
+        { error: 'This resume link has expired' },
+        { status: 403 }
+      );
+    }
+
+    const { applications, resumes } = getRepository();
+    const application = await applications.getForCompany(grant.applicationId, grant.companyId);
+    const resume = application?.applicantInfo.resume;
+    const file = resume ? await resumes.download(resume.assetId) : null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordResumeDownload(grant);
+
+    // PDFs open in the browser; Word documents are saved
+    const disposition = file.mimeType === 'application/pdf' ? 'inline' : 'attachment';
+
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `${disposition}; filename="${file.filename.replace(/"/g, '')}"`,
+        'Content-Length': String(file.data.length),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading resume:', error);
+    return NextResponse.json(
+      { error: 'Failed to download resume' },
+      { status: 500 }
+    );
+  }
+}
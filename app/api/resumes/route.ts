@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/data';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { extractResumeText, parseResumeDetails } from '@/lib/resume-text';
+import { prepareResume } from '@/lib/resumes';
+import { MAX_RESUME_BYTES } from '@/lib/validations/resume';
+import type { UploadedResume } from '@/types';
+
+// Room for the multipart boundaries and the other form fields
+const MAX_REQUEST_BYTES = MAX_RESUME_BYTES + 64 * 1024;
+
+// Uploads are anonymous; leave room for applicants swapping a file a few times
+const checkIpLimit = createRateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 });
+
+// Store an applicant's resume ahead of submitting the application, which
+// then references the returned file. The text read from it comes back too,
+// for prefilling the form and saving with the application
+export async function POST(request: NextRequest) {
+  try {
+    const retryAfter = checkIpLimit(getClientIp(request.headers));
+    if (retryAfter) {
+      return NextResponse.json(
+        { error: 'Too many uploads. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    // Refuse oversized uploads before reading the body. Without a length
+    // (a chunked body) the size can't be known up front, so refuse those too
+    const contentLength = request.headers.get('content-length');
+    if (!contentLength) {
+      return NextResponse.json(
+        { error: 'Content-Length is required' },
+        { status: 411 }
+      );
+    }
+    if (Number(contentLength) > MAX_REQUEST_BYTES) {
+      return NextResponse.json(
+        { error: 'Resume must be less than 5MB' },
+        { status: 413 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'No resume file provided' },
+        { status: 400 }
+      );
+    }
+
+    const result = prepareResume(Buffer.from(await file.arrayBuffer()), file.name);
+    if (typeof result === 'string') {
+      return NextResponse.json(
+        { error: result },
+        { status: 400 }
+      );
+    }
+
+    const text = extractResumeText(result.data);
+    const uploaded: UploadedResume = {
+      file: await getRepository().resumes.upload(result),
+      text,
+      details: parseResumeDetails(text),
+    };
+
+    return NextResponse.json(uploaded, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading resume:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload resume' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { env } from '@/lib/env';
+import {
+  SIGNATURE_HEADER,
+  getRevalidationTargets,
+  isValidSignature,
+  type SanityWebhookPayload,
+} from '@/lib/revalidation';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Signature covers the raw body, so read it before parsing
+    const body = await request.text();
+    const signature = request.headers.get(SIGNATURE_HEADER);
+
+    if (!isValidSignature(body, signature, env.sanity.webhookSecret)) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const payload: SanityWebhookPayload = JSON.parse(body);
+
+    if (!payload?._type) {
+      return NextResponse.json(
+        { error: 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    const { tags, paths } = getRevalidationTargets(payload);
+
+    tags.forEach((tag) => revalidateTag(tag));
+    paths.forEach((path) => revalidatePath(path));
+
+    console.info('Revalidated', {
+      documentId: payload._id,
+      type: payload._type,
+      tags,
+      paths,
+    });
+
+    return NextResponse.json({
+      revalidated: true,
+      documentId: payload._id,
+      type: payload._type,
+      tags,
+      paths,
+      now: Date.now(),
+    });
+  } catch (error) {
+    // Malformed JSON from JSON.parse above
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error revalidating:', error);
+    return NextResponse.json(
+      { error: 'Failed to revalidate' },
+      { status: 500 }
+    );
+  }
+}
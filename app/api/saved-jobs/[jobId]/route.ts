@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const removed = await getRepository().savedJobs.remove(params.jobId, session.user.id);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Saved job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing saved job:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove saved job' },
+      { status: 500 }
+    );
+  }
+}
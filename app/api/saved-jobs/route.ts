@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { saveJobSchema } from '@/lib/validations/job';
+
+// IDs of the jobs the signed-in job seeker has saved, to mark save buttons
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const jobIds = await getRepository().savedJobs.listJobIdsForUser(session.user.id);
+
+    return NextResponse.json({ jobIds });
+  } catch (error) {
+    console.error('Error fetching saved jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { jobId } = saveJobSchema.parse(body);
+
+    const { jobs, savedJobs } = getRepository();
+    const job = await jobs.getById(jobId);
+    if (!job || job.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    await savedJobs.save(jobId, session.user.id);
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid job' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving job:', error);
+    return NextResponse.json(
+      { error: 'Failed to save job' },
+      { status: 500 }
+    );
+  }
+}
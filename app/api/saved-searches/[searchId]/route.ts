@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { savedSearchUpdateSchema } from '@/lib/validations/job';
+
+// Change how often a saved search sends alerts
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = savedSearchUpdateSchema.parse(body);
+
+    const updated = await getRepository().savedSearches.update(
+      params.searchId,
+      session.user.id,
+      validatedData
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Search not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid frequency' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to update saved search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await getRepository().savedSearches.delete(params.searchId, session.user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Search not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved search' },
+      { status: 500 }
+    );
+  }
+}
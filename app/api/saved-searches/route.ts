@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { MAX_SAVED_SEARCHES } from '@/lib/saved-searches';
+import { savedSearchSchema } from '@/lib/validations/job';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searches = await getRepository().savedSearches.listForUser(session.user.id);
+
+    return NextResponse.json(searches);
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved searches' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'jobseeker') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = savedSearchSchema.parse(body);
+
+    const { savedSearches } = getRepository();
+    const existing = await savedSearches.listForUser(session.user.id);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to add another.` },
+        { status: 400 }
+      );
+    }
+
+    const search = await savedSearches.create(validatedData, session.user.id);
+
+    return NextResponse.json(search, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid search' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving search:', error);
+    return NextResponse.json(
+      { error: 'Failed to save search' },
+      { status: 500 }
+    );
+  }
+}
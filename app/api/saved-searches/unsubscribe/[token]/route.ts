@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/data';
+import { verifyUnsubscribeToken } from '@/lib/job-alerts';
+
+// Delete the saved search behind a signed link. Already-deleted searches
+// count as unsubscribed, so following a link twice is harmless
+async function unsubscribe(token: string) {
+  const grant = verifyUnsubscribeToken(token);
+  if (!grant) return false;
+
+  await getRepository().savedSearches.delete(grant.searchId, grant.userId);
+  return true;
+}
+
+// The link in the email body. Mail scanners and prefetchers follow links, so
+// this only leads to a page where the reader confirms
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  return NextResponse.redirect(new URL(`/alerts/unsubscribe/${params.token}`, request.url), 303);
+}
+
+// Confirmed on the unsubscribe page, or sent by mail clients as one-click
+// unsubscribe from the List-Unsubscribe header
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const unsubscribed = await unsubscribe(params.token);
+
+    if (!unsubscribed) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing from job alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    );
+  }
+}
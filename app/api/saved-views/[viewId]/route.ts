@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { viewId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await getRepository().savedViews.delete(params.viewId, session.user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'View not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved view' },
+      { status: 500 }
+    );
+  }
+}
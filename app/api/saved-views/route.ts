@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import { savedJobViewSchema } from '@/lib/validations/job';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const views = await getRepository().savedViews.listForUser(session.user.id);
+
+    return NextResponse.json(views);
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session || session.user.role !== 'employer' || !session.user.companyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = savedJobViewSchema.parse(body);
+
+    const view = await getRepository().savedViews.create(validatedData, session.user.id);
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid view' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving view:', error);
+    return NextResponse.json(
+      { error: 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
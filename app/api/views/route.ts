@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/data';
+import {
+  RECENT_VIEWS_COOKIE,
+  VIEW_WINDOW_MS,
+  hasRecentView,
+  isBot,
+  parseRecentViews,
+  serializeRecentViews,
+  toViewDate,
+} from '@/lib/views';
+
+// Beacon sent once per job detail page load
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId } = await request.json();
+
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    // Skip crawlers and speculative prefetches
+    const isPrefetch =
+      request.headers.get('purpose') === 'prefetch' ||
+      request.headers.get('sec-purpose')?.startsWith('prefetch');
+
+    if (isBot(request.headers.get('user-agent')) || isPrefetch) {
+      return NextResponse.json({ counted: false });
+    }
+
+    const now = Date.now();
+    const recentViews = parseRecentViews(request.cookies.get(RECENT_VIEWS_COOKIE)?.value, now);
+
+    if (hasRecentView(recentViews, jobId)) {
+      return NextResponse.json({ counted: false });
+    }
+
+    const { jobs, views } = getRepository();
+    const job = await jobs.getById(jobId);
+
+    if (!job || job.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    await views.record(jobId, toViewDate(new Date(now)));
+
+    const response = NextResponse.json({ counted: true });
+    response.cookies.set(
+      RECENT_VIEWS_COOKIE,
+      serializeRecentViews({ ...recentViews, [jobId]: now }),
+      {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/api/views',
+        maxAge: VIEW_WINDOW_MS / 1000,
+      }
+    );
+
+    return response;
+  } catch (error) {
+    console.error('Error recording job view:', error);
+    return NextResponse.json(
+      { error: 'Failed to record view' },
+      { status: 500 }
+    );
+  }
+}
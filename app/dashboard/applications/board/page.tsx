@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { auth } from '@/lib/auth';
+import { getJobFilterOptions } from '@/lib/dashboard-utils';
+import ApplicationsBoard from '@/components/Dashboard/ApplicationsBoard';
+
+export const metadata: Metadata = {
+  title: 'Hiring Pipeline | Dashboard',
+  description: 'Move applicants through your hiring stages',
+};
+
+export default async function ApplicationsBoardPage({
+  searchParams
+}: {
+  searchParams: { job?: string }
+}) {
+  const session = await auth();
+  const jobs = session?.user.companyId ? await getJobFilterOptions(session.user.companyId) : [];
+
+  return (
+    <div className="p-6">
+      <ApplicationsBoard jobs={jobs} initialJobId={searchParams.job} />
+    </div>
+  );
+}
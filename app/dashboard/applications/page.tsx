@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { auth } from '@/lib/auth';
+import { getJobFilterOptions } from '@/lib/dashboard-utils';
+import ApplicationsInbox from '@/components/Dashboard/ApplicationsInbox';
+
+export const metadata: Metadata = {
+  title: 'Applications | Dashboard',
+  description: 'Review applications to your job postings',
+};
+
+export default async function ApplicationsPage({
+  searchParams
+}: {
+  searchParams: { job?: string }
+}) {
+  const session = await auth();
+  const jobs = session?.user.companyId ? await getJobFilterOptions(session.user.companyId) : [];
+
+  return (
+    <div className="p-6">
+      <ApplicationsInbox jobs={jobs} initialJobId={searchParams.job} />
+    </div>
+  );
+}
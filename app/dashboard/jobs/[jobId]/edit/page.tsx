@@ -1,7 +1,11 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { getRepository, type JobDocument } from '@/lib/data';
 import { getCategories } from '@/lib/sanity-utils';
+import type { JobFormValues } from '@/lib/validations/job';
 import JobForm from '@/components/Dashboard/JobForm';
+import JobRevisionHistory from '@/components/Dashboard/JobRevisionHistory';
 
 export const metadata: Metadata = {
   title: 'Edit Job | Dashboard',
@@ -9,13 +13,39 @@ export const metadata: Metadata = {
 };
 
 async function getJob(jobId: string) {
-  const response = await fetch(
-    `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${jobId}`,
-    { cache: 'no-store' }
-  );
-  
-  if (!response.ok) return null;
-  return response.json();
+  const session = await auth();
+  if (!session?.user.companyId) return null;
+
+  return getRepository().jobs.getForCompany(jobId, session.user.companyId);
+}
+
+// Stored postings keep references and rich text; the form works with plain values
+function toFormValues(job: JobDocument): Partial<JobFormValues> {
+  return {
+    title: job.title,
+    description: typeof job.description === 'string' ? job.description : '',
+    requirements: job.requirements,
+    location: job.location,
+    salaryMin: job.salaryMin,
+    salaryMax: job.salaryMax,
+    salaryType: job.salaryType,
+    jobType: job.jobType,
+    experienceLevel: job.experienceLevel,
+    category: job.category?._ref || '',
+    benefits: job.benefits || [],
+    applicationDeadline: job.applicationDeadline,
+    isUrgent: job.isUrgent,
+    featured: job.featured,
+    // Filled and expired jobs keep their status through `currentStatus`; the
+    // form only sends a status for them once the employer picks one
+    status: job.status === 'published' || job.status === 'scheduled' ? job.status : 'draft',
+    publishAt: job.publishAt,
+    screeningQuestions: (job.screeningQuestions || []).map((question) => ({
+      ...question,
+      options: question.options || [],
+    })),
+    autoRejectKnockouts: job.autoRejectKnockouts ?? false,
+  };
 }
 
 export default async function EditJobPage({ 
@@ -32,15 +62,23 @@ export default async function EditJobPage({
     notFound();
   }
 
+  const revisions = await getRepository().revisions.listForJob(job._id);
+
   return (
     <div className="p-6">
       <div className="max-w-4xl mx-auto">
         <h1 className="text-3xl font-bold mb-6">Edit Job</h1>
+        {/* Remount after a restore so the form picks up the restored values */}
         <JobForm 
-          initialData={job} 
+          key={revisions[0]?._id}
+          initialData={toFormValues(job)}
           jobId={params.jobId}
-          categories={categories} 
+          categories={categories}
+          currentStatus={job.status}
         />
+        <div className="mt-8">
+          <JobRevisionHistory jobId={job._id} revisions={revisions} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,39 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
+import ScorecardCriteriaEditor from '@/components/Dashboard/ScorecardCriteriaEditor';
+
+export const metadata: Metadata = {
+  title: 'Scorecard | Dashboard',
+  description: 'Set what reviewers score applicants on',
+};
+
+async function getJob(jobId: string) {
+  const session = await auth();
+  if (!session?.user.companyId) return null;
+
+  return getRepository().jobs.getForCompany(jobId, session.user.companyId);
+}
+
+export default async function ScorecardPage({
+  params
+}: {
+  params: { jobId: string }
+}) {
+  const job = await getJob(params.jobId);
+
+  if (!job) {
+    notFound();
+  }
+
+  return (
+    <div className="p-6">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2">Scorecard</h1>
+        <p className="text-gray-600 mb-6">{job.title}</p>
+        <ScorecardCriteriaEditor jobId={job._id} initialCriteria={job.scorecardCriteria || []} />
+      </div>
+    </div>
+  );
+}
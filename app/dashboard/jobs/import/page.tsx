@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+import JobImport from '@/components/Dashboard/JobImport';
+
+export const metadata: Metadata = {
+  title: 'Import Jobs | Dashboard',
+  description: 'Create job postings from a CSV file',
+};
+
+export default function ImportJobsPage() {
+  return (
+    <div className="p-6">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold mb-6">Import Jobs</h1>
+        <JobImport />
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { Metadata } from 'next';
+import { auth } from '@/lib/auth';
+import { getRepository } from '@/lib/data';
 import { getCategories } from '@/lib/sanity-utils';
 import JobForm from '@/components/Dashboard/JobForm';
 
@@ -7,14 +9,24 @@ export const metadata: Metadata = {
   description: 'Create a new job posting',
 };
 
+async function getTemplates() {
+  const session = await auth();
+  if (!session?.user.companyId) return [];
+
+  return getRepository().templates.listForCompany(session.user.companyId);
+}
+
 export default async function NewJobPage() {
-  const categories = await getCategories();
+  const [categories, templates] = await Promise.all([
+    getCategories(),
+    getTemplates()
+  ]);
 
   return (
     <div className="p-6">
       <div className="max-w-4xl mx-auto">
         <h1 className="text-3xl font-bold mb-6">Post New Job</h1>
-        <JobForm categories={categories} />
+        <JobForm categories={categories} templates={templates} />
       </div>
     </div>
   );
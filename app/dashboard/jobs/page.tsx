@@ -1,4 +1,5 @@
 import { Metadata } from 'next';
+import { getCategories } from '@/lib/sanity-utils';
 import JobsDataTable from '@/components/Dashboard/JobsDataTable';
 
 export const metadata: Metadata = {
@@ -6,10 +7,12 @@ export const metadata: Metadata = {
   description: 'Manage your job postings',
 };
 
-export default function JobsPage() {
+export default async function JobsPage() {
+  const categories = await getCategories();
+
   return (
     <div className="p-6">
-      <JobsDataTable />
+      <JobsDataTable categories={categories} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { redirect } from 'next/navigation';
-import { getServerSession } from 'next-auth';
-import { authConfig } from '@/lib/auth.config';
+import { auth } from '@/lib/auth';
 import { 
   getDashboardStats, 
   getRecentActivity, 
@@ -10,7 +9,7 @@ import {
 import DashboardContent from '@/components/Dashboard/DashboardContent';
 
 export default async function DashboardPage() {
-  const session = await getServerSession(authConfig);
+  const session = await auth();
   
   if (!session || session.user.role !== 'employer') {
     redirect('/auth/signin');
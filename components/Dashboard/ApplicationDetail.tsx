@@ -0,0 +1,409 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, FileText, Linkedin, Mail, MapPin, Phone, Send, Star } from 'lucide-react';
+import { format, formatDistanceStrict } from 'date-fns';
+import type { JobApplication } from '@/types';
+import type { ApplicationUpdateValues } from '@/lib/validations/application';
+import {
+  applicationStatusConfig,
+  canTransition,
+  getStageSpans,
+  getTimeToHire,
+  type ApplicationStatus,
+} from '@/lib/application-status';
+import ApplicationScorecards from './ApplicationScorecards';
+
+interface ApplicationDetailProps {
+  application: JobApplication;
+  onChange: (application: JobApplication) => void;
+}
+
+// "3 days", "5 hours"
+function formatDuration(milliseconds: number) {
+  return formatDistanceStrict(0, milliseconds);
+}
+
+export default function ApplicationDetail({ application, onChange }: ApplicationDetailProps) {
+  const [notes, setNotes] = useState(application.employerNotes || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { applicantInfo } = application;
+  // Uploaded resumes are only handed out through a signed, logged link
+  const resumeHref = applicantInfo.resume
+    ? `/api/applications/${application._id}/resume`
+    : applicantInfo.resumeUrl;
+  const resumeDownloads = application.resumeDownloads || [];
+  const lastDownload = resumeDownloads[resumeDownloads.length - 1];
+  const terms = [...(applicantInfo.skills || []), ...(applicantInfo.certifications || [])];
+  const stages = getStageSpans(application);
+  const timeToHire = getTimeToHire(application);
+  const activeInterview = application.interview?.cancelledAt ? undefined : application.interview;
+
+  const save = async (values: ApplicationUpdateValues) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/applications/${application._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to update application');
+        return;
+      }
+
+      onChange(data);
+    } catch (error) {
+      console.error('Error updating application:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeStatus = async (status: ApplicationStatus) => {
+    const override = !canTransition(application.status, status);
+    if (override) {
+      const confirmed = confirm(
+        `Moving from ${applicationStatusConfig[application.status].label} to ` +
+        `${applicationStatusConfig[status].label} isn't a usual step. Move anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/applications/${application._id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, expectedStatus: application.status, override }),
+      });
+
+      const data = await response.json();
+      if (response.status === 409) {
+        alert(`${data.error}. It is now ${applicationStatusConfig[data.application.status as ApplicationStatus].label}.`);
+        onChange(data.application);
+        return;
+      }
+      if (!response.ok) {
+        alert(data.error || 'Failed to update status');
+        return;
+      }
+
+      onChange(data);
+    } catch (error) {
+      console.error('Error updating application status:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sendSchedulingLink = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/applications/${application._id}/interview`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to send scheduling link');
+        return;
+      }
+
+      alert(`Scheduling link sent to ${applicantInfo.email}`);
+    } catch (error) {
+      console.error('Error sending scheduling link:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cancelInterview = async () => {
+    if (!confirm('Cancel this interview? The applicant will be sent a link to pick another time.')) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/applications/${application._id}/interview`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to cancel interview');
+        return;
+      }
+
+      onChange(data);
+    } catch (error) {
+      console.error('Error cancelling interview:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{applicantInfo.name}</CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              Applied for{' '}
+              <Link href={`/dashboard/jobs/${application.job._id}/edit`} className="hover:underline">
+                {application.job.title}
+              </Link>{' '}
+              on {format(new Date(application.appliedDate), 'MMM d, yyyy h:mm a')}
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {application.knockedOut && <Badge variant="destructive">Knocked out</Badge>}
+            <Badge variant={applicationStatusConfig[application.status].variant}>
+              {applicationStatusConfig[application.status].label}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 text-sm">
+          <a href={`mailto:${applicantInfo.email}`} className="flex items-center gap-2 hover:underline">
+            <Mail className="h-4 w-4 text-gray-400" />
+            {applicantInfo.email}
+          </a>
+          <a href={`tel:${applicantInfo.phone}`} className="flex items-center gap-2 hover:underline">
+            <Phone className="h-4 w-4 text-gray-400" />
+            {applicantInfo.phone}
+          </a>
+          {applicantInfo.linkedIn && (
+            <a
+              href={applicantInfo.linkedIn}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 hover:underline"
+            >
+              <Linkedin className="h-4 w-4 text-gray-400" />
+              LinkedIn profile
+            </a>
+          )}
+          {resumeHref ? (
+            <a
+              href={resumeHref}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-blue-600 hover:underline"
+            >
+              <FileText className="h-4 w-4" />
+              {applicantInfo.resume ? `View resume (${applicantInfo.resume.filename})` : 'View resume'}
+            </a>
+          ) : (
+            <p className="flex items-center gap-2 text-gray-500">
+              <FileText className="h-4 w-4" />
+              No resume attached
+            </p>
+          )}
+          {lastDownload && (
+            <p className="text-xs text-gray-500 pl-6">
+              Opened {resumeDownloads.length} time{resumeDownloads.length === 1 ? '' : 's'}, last by{' '}
+              {lastDownload.viewer.name || lastDownload.viewer.email || 'a teammate'} on{' '}
+              {format(new Date(lastDownload.downloadedAt), 'MMM d, yyyy h:mm a')}
+            </p>
+          )}
+        </div>
+
+        {terms.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Skills & Certifications</h3>
+            <div className="flex flex-wrap gap-2">
+              {terms.map(term => (
+                <Badge key={term} variant="secondary">
+                  {term}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {application.screeningAnswers && application.screeningAnswers.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Screening</h3>
+            <dl className="space-y-2 text-sm">
+              {application.screeningAnswers.map(answer => (
+                <div key={answer._key}>
+                  <dt className="text-gray-600">{answer.prompt}</dt>
+                  <dd className={answer.passed ? 'text-gray-900' : 'text-red-600 font-medium'}>
+                    {answer.answer === 'yes' ? 'Yes' : answer.answer === 'no' ? 'No' : answer.answer}
+                    {!answer.passed && ' (knockout)'}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Cover Message</h3>
+          <p className="text-sm text-gray-700 whitespace-pre-line">
+            {application.coverMessage || 'No cover message.'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select
+              value={application.status}
+              onValueChange={(status) => changeStatus(status as ApplicationStatus)}
+              disabled={isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(applicationStatusConfig) as ApplicationStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {applicationStatusConfig[status].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Rating</Label>
+            <div className="flex items-center gap-1 h-10">
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                  disabled={isSaving}
+                  // Clicking the current rating again clears it
+                  onClick={() => save({ rating: application.rating === value ? null : value })}
+                >
+                  <Star
+                    className={`h-5 w-5 ${
+                      application.rating && value <= application.rating
+                        ? 'fill-yellow-400 text-yellow-400'
+                        : 'text-gray-300'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <ApplicationScorecards application={application} onChange={onChange} />
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Interview</h3>
+          {activeInterview ? (
+            <div className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm">
+              <div className="space-y-1">
+                <p className="flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4 text-gray-400" />
+                  {format(new Date(activeInterview.startsAt), 'EEE, MMM d, yyyy h:mm a')} -{' '}
+                  {format(new Date(activeInterview.endsAt), 'h:mm a')}
+                </p>
+                {activeInterview.location && (
+                  <p className="flex items-center gap-2 text-gray-600">
+                    <MapPin className="h-4 w-4 text-gray-400" />
+                    {activeInterview.location}
+                  </p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" disabled={isSaving} onClick={cancelInterview}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2 text-sm text-gray-600">
+              {application.interview?.cancelledAt ? (
+                <p>
+                  Interview on {format(new Date(application.interview.startsAt), 'MMM d, yyyy h:mm a')} was
+                  cancelled.
+                </p>
+              ) : application.interviewDate ? (
+                <p>{format(new Date(application.interviewDate), 'MMM d, yyyy h:mm a')}</p>
+              ) : (
+                <p>No interview booked.</p>
+              )}
+              {application.status === 'interviewing' ? (
+                <Button variant="outline" size="sm" disabled={isSaving} onClick={sendSchedulingLink}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send Scheduling Link
+                </Button>
+              ) : (
+                <p className="text-gray-500">
+                  Moving the applicant to Interviewing emails them a link to book a time.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="employer-notes">Notes</Label>
+          <Textarea
+            id="employer-notes"
+            rows={5}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Only visible to your team"
+          />
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              disabled={isSaving || notes === (application.employerNotes || '')}
+              onClick={() => save({ employerNotes: notes })}
+            >
+              Save Notes
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium">Timeline</h3>
+            {timeToHire !== null && (
+              <span className="text-sm text-gray-600">
+                Hired {formatDuration(timeToHire)} after applying
+              </span>
+            )}
+          </div>
+          {stages.length === 0 ? (
+            <p className="text-sm text-gray-500">No stage changes recorded.</p>
+          ) : (
+            <ol className="space-y-3 border-l pl-4">
+              {stages.map((stage, index) => (
+                <li key={index} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={applicationStatusConfig[stage.status].variant}>
+                      {applicationStatusConfig[stage.status].label}
+                    </Badge>
+                    <span className="text-gray-600">
+                      {stage.leftAt ? formatDuration(stage.duration) : `${formatDuration(stage.duration)} so far`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {stage.change.from ? 'Moved' : 'Applied'}{' '}
+                    {format(new Date(stage.enteredAt), 'MMM d, yyyy h:mm a')}
+                    {stage.change.from && ` by ${stage.change.by.name || stage.change.by.email || 'a teammate'}`}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
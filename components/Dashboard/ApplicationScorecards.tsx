@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { format } from 'date-fns';
+import type { JobApplication, Scorecard, ScorecardCriterion, ScorecardScore } from '@/types';
+import type { ScorecardValues } from '@/lib/validations/application';
+import { NO_SCORE, YES_SCORE, getScorecardKey, getScorecardScore } from '@/lib/scorecards';
+
+interface ApplicationScorecardsProps {
+  application: JobApplication;
+  onChange: (application: JobApplication) => void;
+}
+
+function formatScore(score: ScorecardScore, criteria: ScorecardCriterion[]) {
+  const criterion = criteria.find(item => item._key === score.criterionKey);
+  if (criterion?.kind === 'yesNo') return score.score === YES_SCORE ? 'Yes' : 'No';
+  return `${score.score}/5`;
+}
+
+// The signed-in reviewer's own scorecard, prefilled with what they last submitted
+function ScorecardForm({
+  application,
+  own,
+  onChange,
+}: ApplicationScorecardsProps & { own?: Scorecard }) {
+  const criteria = application.job.scorecardCriteria || [];
+  const [scores, setScores] = useState<Record<string, number>>(
+    Object.fromEntries((own?.scores || []).map(score => [score.criterionKey, score.score]))
+  );
+  const [comment, setComment] = useState(own?.comment || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isComplete = criteria.every(criterion => scores[criterion._key] !== undefined);
+
+  const submit = async () => {
+    setIsSaving(true);
+    try {
+      const values: ScorecardValues = {
+        scores: criteria.map(criterion => ({
+          criterionKey: criterion._key,
+          score: scores[criterion._key],
+        })),
+        comment: comment || undefined,
+      };
+
+      const response = await fetch(`/api/applications/${application._id}/scorecard`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to save scorecard');
+        return;
+      }
+
+      onChange(data);
+    } catch (error) {
+      console.error('Error saving scorecard:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const scoreButton = (criterion: ScorecardCriterion, value: number, label: string) => (
+    <Button
+      key={value}
+      type="button"
+      size="sm"
+      variant={scores[criterion._key] === value ? 'default' : 'outline'}
+      className="h-8 px-3"
+      disabled={isSaving}
+      onClick={() => setScores(current => ({ ...current, [criterion._key]: value }))}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {criteria.map(criterion => (
+        <div key={criterion._key} className="flex items-center justify-between gap-4">
+          <span className="text-sm">{criterion.label}</span>
+          <div className="flex gap-1">
+            {criterion.kind === 'yesNo'
+              ? [scoreButton(criterion, YES_SCORE, 'Yes'), scoreButton(criterion, NO_SCORE, 'No')]
+              : [1, 2, 3, 4, 5].map(value => scoreButton(criterion, value, String(value)))}
+          </div>
+        </div>
+      ))}
+      <div className="space-y-1">
+        <Label htmlFor="scorecard-comment">Comment</Label>
+        <Textarea
+          id="scorecard-comment"
+          rows={3}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="What stood out?"
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button variant="outline" disabled={isSaving || !isComplete} onClick={submit}>
+          {own ? 'Update Scorecard' : 'Submit Scorecard'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function ApplicationScorecards({ application, onChange }: ApplicationScorecardsProps) {
+  const { data: session } = useSession();
+  const criteria = application.job.scorecardCriteria || [];
+  const scorecards = application.scorecards || [];
+  const own = session ? scorecards.find(item => item._key === getScorecardKey(session.user.id)) : undefined;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Scorecards</h3>
+        {application.scorecardAverage !== undefined && (
+          <span className="text-sm text-gray-600">
+            Average {application.scorecardAverage.toFixed(1)} from {scorecards.length}{' '}
+            reviewer{scorecards.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {criteria.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          <Link
+            href={`/dashboard/jobs/${application.job._id}/scorecard`}
+            className="text-blue-600 hover:underline"
+          >
+            Add scorecard criteria
+          </Link>{' '}
+          to this job to score applicants.
+        </p>
+      ) : (
+        // Remount when the saved scorecard changes so the form starts from it
+        <ScorecardForm
+          key={own?.submittedAt || 'new'}
+          application={application}
+          own={own}
+          onChange={onChange}
+        />
+      )}
+
+      {scorecards.length > 0 && (
+        <ul className="mt-3 space-y-3">
+          {scorecards.map(scorecard => (
+            <li key={scorecard._key} className="text-sm border-l pl-4">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {scorecard.reviewer.name || scorecard.reviewer.email || 'A teammate'}
+                </span>
+                <span className="text-gray-600">{getScorecardScore(scorecard).toFixed(1)}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {scorecard.scores.map(score => `${score.label}: ${formatScore(score, criteria)}`).join(' · ')}
+              </p>
+              {scorecard.comment && (
+                <p className="text-gray-700 mt-1 whitespace-pre-line">{scorecard.comment}</p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {format(new Date(scorecard.submittedAt), 'MMM d, yyyy h:mm a')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ export default function ApplicationTrends({ data }: ApplicationTrendsProps) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Application Trends (30 Days)</CardTitle>
+          <CardTitle>Views & Applications (30 Days)</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="h-[300px] flex items-center justify-center text-gray-500">
@@ -44,7 +44,7 @@ export default function ApplicationTrends({ data }: ApplicationTrendsProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Application Trends (30 Days)</CardTitle>
+        <CardTitle>Views & Applications (30 Days)</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="h-[300px]">
@@ -56,7 +56,8 @@ export default function ApplicationTrends({ data }: ApplicationTrendsProps) {
                 className="text-xs"
                 tickFormatter={tickFormatter}
               />
-              <YAxis className="text-xs" />
+              <YAxis yAxisId="applications" className="text-xs" allowDecimals={false} />
+              <YAxis yAxisId="views" orientation="right" className="text-xs" allowDecimals={false} />
               <Tooltip 
                 contentStyle={{ 
                   backgroundColor: 'white',
@@ -64,9 +65,19 @@ export default function ApplicationTrends({ data }: ApplicationTrendsProps) {
                   borderRadius: '6px'
                 }}
                 labelFormatter={(value) => `Date: ${value}`}
-                formatter={(value) => [value, 'Applications']}
+                formatter={(value, name) => [value, name]}
               />
               <Line 
+                yAxisId="views"
+                type="monotone" 
+                dataKey="views" 
+                stroke="#10b981" 
+                strokeWidth={2}
+                dot={false}
+                name="Views"
+              />
+              <Line 
+                yAxisId="applications"
                 type="monotone" 
                 dataKey="count" 
                 stroke="#3b82f6" 
@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { List, Loader2, MoreHorizontal, Star } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { JobApplication } from '@/types';
+import {
+  applicationStatusConfig,
+  canTransition,
+  type ApplicationStatus,
+} from '@/lib/application-status';
+
+interface ApplicationsBoardProps {
+  jobs: Array<{ _id: string; title: string }>;
+  initialJobId?: string;
+}
+
+type Board = Record<ApplicationStatus, { applications: JobApplication[]; total: number }>;
+
+const STATUSES = Object.keys(applicationStatusConfig) as ApplicationStatus[];
+
+// Cards loaded per column; the header still shows the full count
+const COLUMN_LIMIT = 100;
+
+// Select value for "all jobs"
+const ALL_JOBS = 'all';
+
+// Applications from before history was kept count from when they applied
+function stageEnteredAt(application: JobApplication) {
+  return application.statusHistory?.at(-1)?.at || application.appliedDate;
+}
+
+const emptyBoard = () =>
+  Object.fromEntries(STATUSES.map(status => [status, { applications: [], total: 0 }])) as unknown as Board;
+
+// Take the card out of whichever column holds it and put it on top of the
+// column for its status, keeping the column counts in step
+function placeCard(board: Board, application: JobApplication): Board {
+  return Object.fromEntries(
+    STATUSES.map(status => {
+      const { applications, total } = board[status];
+      const rest = applications.filter(item => item._id !== application._id);
+      const removed = applications.length - rest.length;
+
+      return [
+        status,
+        status === application.status
+          ? { applications: [application, ...rest], total: total - removed + 1 }
+          : { applications: rest, total: total - removed },
+      ];
+    })
+  ) as Board;
+}
+
+export default function ApplicationsBoard({ jobs, initialJobId }: ApplicationsBoardProps) {
+  const [board, setBoard] = useState<Board>(emptyBoard);
+  const [jobId, setJobId] = useState(initialJobId || '');
+  const [isLoading, setIsLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+
+  const fetchBoard = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const columns = await Promise.all(
+        STATUSES.map(async status => {
+          const params = new URLSearchParams({ status, pageSize: String(COLUMN_LIMIT) });
+          if (jobId) params.set('jobId', jobId);
+
+          const response = await fetch(`/api/applications?${params}`);
+          if (!response.ok) throw new Error('Failed to fetch applications');
+
+          const { applications, total } = await response.json();
+          return [status, { applications, total }];
+        })
+      );
+      setBoard(Object.fromEntries(columns));
+    } catch (error) {
+      console.error('Error fetching applications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  const findApplication = (applicationId: string) =>
+    STATUSES.flatMap(status => board[status].applications).find(
+      application => application._id === applicationId
+    );
+
+  // Show the move straight away, then reconcile with the server's answer
+  const moveApplication = async (application: JobApplication, status: ApplicationStatus) => {
+    if (application.status === status || pendingIds.includes(application._id)) return;
+
+    const override = !canTransition(application.status, status);
+    if (override) {
+      const confirmed = confirm(
+        `Moving ${application.applicantInfo.name} from ${applicationStatusConfig[application.status].label} ` +
+        `to ${applicationStatusConfig[status].label} isn't a usual step. Move anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    setBoard(current => placeCard(current, { ...application, status }));
+    setPendingIds(current => [...current, application._id]);
+
+    try {
+      const response = await fetch(`/api/applications/${application._id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, expectedStatus: application.status, override }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409) {
+        // A teammate moved it first; show the card where it actually is
+        setBoard(current => placeCard(current, data.application));
+        alert(
+          `${data.error}. ${application.applicantInfo.name} is now in ` +
+          `${applicationStatusConfig[data.application.status as ApplicationStatus].label}.`
+        );
+        return;
+      }
+
+      if (!response.ok) {
+        setBoard(current => placeCard(current, application));
+        alert(data.error || 'Failed to move application');
+        return;
+      }
+
+      setBoard(current => placeCard(current, data));
+    } catch (error) {
+      console.error('Error moving application:', error);
+      setBoard(current => placeCard(current, application));
+    } finally {
+      setPendingIds(current => current.filter(id => id !== application._id));
+    }
+  };
+
+  const handleDrop = (status: ApplicationStatus) => {
+    const application = draggingId && findApplication(draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (application) moveApplication(application, status);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <CardTitle>Hiring Pipeline</CardTitle>
+            <div className="flex gap-2">
+              <Select
+                value={jobId || ALL_JOBS}
+                onValueChange={(value) => setJobId(value === ALL_JOBS ? '' : value)}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_JOBS}>All jobs</SelectItem>
+                  {jobs.map(job => (
+                    <SelectItem key={job._id} value={job._id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" asChild>
+                <Link href={jobId ? `/dashboard/applications?job=${jobId}` : '/dashboard/applications'}>
+                  <List className="h-4 w-4 mr-2" />
+                  List View
+                </Link>
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {STATUSES.map(status => (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={() => setDropTarget(current => (current === status ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+            className={`rounded-lg border bg-gray-50 p-3 min-h-[300px] ${
+              dropTarget === status ? 'ring-2 ring-blue-400' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <Badge variant={applicationStatusConfig[status].variant}>
+                {applicationStatusConfig[status].label}
+              </Badge>
+              <span className="text-sm text-gray-500">{board[status].total}</span>
+            </div>
+
+            {isLoading && board[status].applications.length === 0 ? (
+              <p className="text-sm text-center text-gray-400 py-8">Loading...</p>
+            ) : (
+              <div className="space-y-2">
+                {board[status].applications.map(application => {
+                  const isPending = pendingIds.includes(application._id);
+
+                  return (
+                    <div
+                      key={application._id}
+                      draggable={!isPending}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', application._id);
+                        setDraggingId(application._id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropTarget(null);
+                      }}
+                      className={`rounded-md border bg-white p-3 shadow-sm ${
+                        isPending ? 'opacity-60' : 'cursor-grab'
+                      } ${draggingId === application._id ? 'opacity-40' : ''}`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="font-medium text-sm truncate">{application.applicantInfo.name}</p>
+                        {isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                        ) : (
+                          // Keyboard-friendly alternative to dragging
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-6 w-6">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {STATUSES.filter(target => target !== status).map(target => (
+                                <DropdownMenuItem
+                                  key={target}
+                                  onClick={() => moveApplication(application, target)}
+                                >
+                                  {applicationStatusConfig[target].label}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                      {!jobId && (
+                        <p className="text-xs text-gray-600 truncate">{application.job.title}</p>
+                      )}
+                      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                        <span title="Time in this stage">
+                          {formatDistanceToNow(new Date(stageEnteredAt(application)))}
+                        </span>
+                        {application.rating && (
+                          <span className="flex items-center gap-1">
+                            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                            {application.rating}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {board[status].total > board[status].applications.length && (
+                  <p className="text-xs text-center text-gray-500 pt-2">
+                    {board[status].total - board[status].applications.length} more not shown
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
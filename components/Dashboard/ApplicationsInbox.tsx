@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Columns3, Inbox, Search, Star } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { JobApplication } from '@/types';
+import type { ApplicationListQuery } from '@/lib/validations/application';
+import { applicationStatusConfig, type ApplicationStatus } from '@/lib/application-status';
+import ApplicationDetail from './ApplicationDetail';
+
+interface ApplicationsInboxProps {
+  jobs: Array<{ _id: string; title: string }>;
+  initialJobId?: string;
+}
+
+type InboxFilters = Omit<ApplicationListQuery, 'page' | 'pageSize'>;
+
+const PAGE_SIZE = 25;
+
+// Select value for "no filter"
+const ANY = 'any';
+
+export default function ApplicationsInbox({ jobs, initialJobId }: ApplicationsInboxProps) {
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<InboxFilters>({ jobId: initialJobId, sort: 'appliedDate' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const fetchApplications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      });
+
+      const response = await fetch(`/api/applications?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch applications');
+
+      const data: { applications: JobApplication[]; total: number } = await response.json();
+      setApplications(data.applications);
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Error fetching applications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  const updateFilters = (changes: Partial<InboxFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const search = searchTerm.trim();
+      if (search !== (filters.search || '')) {
+        updateFilters({ search: search || undefined });
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, filters.search]);
+
+  // Keep the list in step with edits made in the detail pane
+  const handleChange = (updated: JobApplication) => {
+    setApplications(current =>
+      current.map(application => (application._id === updated._id ? updated : application))
+    );
+  };
+
+  const selected = applications.find(application => application._id === selectedId);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Applications</CardTitle>
+            <Button variant="outline" asChild>
+              <Link
+                href={filters.jobId
+                  ? `/dashboard/applications/board?job=${filters.jobId}`
+                  : '/dashboard/applications/board'}
+              >
+                <Columns3 className="h-4 w-4 mr-2" />
+                Board View
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search names and resumes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-7 gap-4">
+            <div className="space-y-1">
+              <Label>Job</Label>
+              <Select
+                value={filters.jobId || ANY}
+                onValueChange={(value) => updateFilters({ jobId: value === ANY ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All jobs</SelectItem>
+                  {jobs.map(job => (
+                    <SelectItem key={job._id} value={job._id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select
+                value={filters.status || ANY}
+                onValueChange={(value) => updateFilters({
+                  status: value === ANY ? undefined : value as ApplicationStatus,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All statuses</SelectItem>
+                  {(Object.keys(applicationStatusConfig) as ApplicationStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>
+                      {applicationStatusConfig[status].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="applied-from">Applied from</Label>
+              <Input
+                id="applied-from"
+                type="date"
+                value={filters.appliedFrom || ''}
+                onChange={(e) => updateFilters({ appliedFrom: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="applied-to">Applied to</Label>
+              <Input
+                id="applied-to"
+                type="date"
+                value={filters.appliedTo || ''}
+                onChange={(e) => updateFilters({ appliedTo: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Rating</Label>
+              <Select
+                value={filters.minRating ? String(filters.minRating) : ANY}
+                onValueChange={(value) => updateFilters({
+                  minRating: value === ANY ? undefined : Number(value),
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any rating</SelectItem>
+                  {[5, 4, 3, 2, 1].map(rating => (
+                    <SelectItem key={rating} value={String(rating)}>
+                      {rating === 5 ? '5 stars' : `${rating}+ stars`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Score</Label>
+              <Select
+                value={filters.minScore ? String(filters.minScore) : ANY}
+                onValueChange={(value) => updateFilters({
+                  minScore: value === ANY ? undefined : Number(value),
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any score</SelectItem>
+                  {[4.5, 4, 3.5, 3, 2].map(score => (
+                    <SelectItem key={score} value={String(score)}>
+                      {score}+
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Sort by</Label>
+              <Select
+                value={filters.sort}
+                onValueChange={(value) => updateFilters({ sort: value as InboxFilters['sort'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="appliedDate">Newest</SelectItem>
+                  <SelectItem value="score">Highest score</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        <Card className="lg:col-span-2">
+          <CardContent className="p-0">
+            {isLoading && applications.length === 0 ? (
+              <p className="p-6 text-center text-gray-500">Loading applications...</p>
+            ) : applications.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">
+                <Inbox className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                <p>No applications found</p>
+              </div>
+            ) : (
+              <ul className="divide-y">
+                {applications.map(application => (
+                  <li key={application._id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(application._id)}
+                      className={`w-full text-left p-4 hover:bg-gray-50 ${
+                        application._id === selectedId ? 'bg-gray-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={`truncate ${application.status === 'new' ? 'font-semibold' : 'font-medium'}`}>
+                          {application.applicantInfo.name}
+                        </span>
+                        <Badge variant={applicationStatusConfig[application.status].variant}>
+                          {applicationStatusConfig[application.status].label}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600 truncate">{application.job.title}</p>
+                      <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                        <span>
+                          {formatDistanceToNow(new Date(application.appliedDate), { addSuffix: true })}
+                        </span>
+                        <span className="flex items-center gap-3">
+                          {application.knockedOut && (
+                            <span className="text-red-600">Knocked out</span>
+                          )}
+                          {application.scorecardAverage !== undefined && (
+                            <span title={`Average of ${application.scorecards?.length || 0} scorecards`}>
+                              Score {application.scorecardAverage.toFixed(1)}
+                            </span>
+                          )}
+                          {application.rating && (
+                            <span className="flex items-center gap-1">
+                              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                              {application.rating}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between border-t p-4 text-sm text-gray-600">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  Previous
+                </Button>
+                <span>
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pageCount}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3">
+          {selected ? (
+            <ApplicationDetail key={selected._id} application={selected} onChange={handleChange} />
+          ) : (
+            <Card>
+              <CardContent className="py-16 text-center text-gray-500">
+                Select an application to see the details
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
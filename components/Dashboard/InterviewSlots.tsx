@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Trash } from 'lucide-react';
+import { format } from 'date-fns';
+import type { InterviewSlot } from '@/lib/data';
+import type { InterviewSlotValues } from '@/lib/validations/interview';
+
+interface InterviewSlotsProps {
+  jobId: string;
+}
+
+type SlotRow = InterviewSlot & { applicantName?: string };
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+export default function InterviewSlots({ jobId }: InterviewSlotsProps) {
+  const [slots, setSlots] = useState<SlotRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [startsAt, setStartsAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [location, setLocation] = useState('');
+
+  const fetchSlots = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/interview-slots`);
+      if (!response.ok) throw new Error('Failed to fetch interview slots');
+
+      setSlots(await response.json());
+    } catch (error) {
+      console.error('Error fetching interview slots:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  const addSlot = async () => {
+    setIsSaving(true);
+    try {
+      const values: InterviewSlotValues = {
+        // `datetime-local` values are in the employer's own time zone
+        startsAt: new Date(startsAt).toISOString(),
+        durationMinutes,
+        location: location || undefined,
+      };
+
+      const response = await fetch(`/api/jobs/${jobId}/interview-slots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to add interview slot');
+        return;
+      }
+
+      setSlots(current =>
+        [...current, data].sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+      );
+      setStartsAt('');
+    } catch (error) {
+      console.error('Error adding interview slot:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSlot = async (slot: SlotRow) => {
+    const message = slot.applicationId
+      ? `${slot.applicantName || 'An applicant'} has booked this time. Their interview will be cancelled ` +
+        'and they will be sent a link to pick another time. Delete anyway?'
+      : 'Delete this interview slot?';
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/interview-slots/${slot._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to delete interview slot');
+        return;
+      }
+
+      setSlots(current => current.filter(item => item._id !== slot._id));
+    } catch (error) {
+      console.error('Error deleting interview slot:', error);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Availability</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="slot-starts-at">Starts</Label>
+              <Input
+                id="slot-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Length</Label>
+              <Select
+                value={String(durationMinutes)}
+                onValueChange={(value) => setDurationMinutes(Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-location">Location</Label>
+              <Input
+                id="slot-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Address, phone or video link"
+              />
+            </div>
+            <Button disabled={isSaving || !startsAt} onClick={addSlot}>
+              {isSaving ? 'Adding...' : 'Add Slot'}
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500 mt-3">
+            Applicants moved to Interviewing are emailed a link to book one of these times.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading && slots.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">Loading interview slots...</p>
+          ) : slots.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">
+              <CalendarClock className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>No interview slots yet</p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {slots.map(slot => {
+                const isPast = new Date(slot.startsAt) <= now;
+
+                return (
+                  <li
+                    key={slot._id}
+                    className={`flex items-center justify-between gap-4 p-4 ${isPast ? 'opacity-60' : ''}`}
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {format(new Date(slot.startsAt), 'EEE, MMM d, yyyy h:mm a')} -{' '}
+                        {format(new Date(slot.endsAt), 'h:mm a')}
+                      </p>
+                      {slot.location && <p className="text-sm text-gray-500">{slot.location}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {slot.applicationId ? (
+                        <Badge>Booked by {slot.applicantName || 'an applicant'}</Badge>
+                      ) : (
+                        <Badge variant="outline">{isPast ? 'Unbooked' : 'Open'}</Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Delete slot"
+                        onClick={() => deleteSlot(slot)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
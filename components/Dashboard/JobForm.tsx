@@ -17,13 +17,19 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
-import { CalendarIcon, Loader2, MapPin, Plus, X } from 'lucide-react';
-import { jobFormSchema, type JobFormValues } from '@/lib/validations/job';
+import { BookmarkPlus, CalendarIcon, FileText, Loader2, MapPin, Plus, X } from 'lucide-react';
+import { jobFormSchema, type JobFormValues, type JobTemplateValues } from '@/lib/validations/job';
+import type { JobTemplate } from '@/lib/data';
+import type { Job } from '@/types';
+import ScreeningQuestionsEditor from './ScreeningQuestionsEditor';
 
 interface JobFormProps {
   initialData?: Partial<JobFormValues>;
   jobId?: string;
   categories: Array<{ _id: string; name: string; slug: { current: string } }>;
+  templates?: JobTemplate[];
+  // Stored status of the job being edited
+  currentStatus?: Job['status'];
 }
 
 const benefits = [
@@ -49,10 +55,14 @@ const benefits = [
   'Uniform Provided'
 ];
 
-export default function JobForm({ initialData, jobId, categories }: JobFormProps) {
+export default function JobForm({ initialData, jobId, categories, templates = [], currentStatus }: JobFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [templateList, setTemplateList] = useState<JobTemplate[]>(templates);
+  const [templateMessage, setTemplateMessage] = useState('');
   const [activeTab, setActiveTab] = useState('basics');
+  const [statusChanged, setStatusChanged] = useState(false);
   const [selectedBenefits, setSelectedBenefits] = useState<string[]>(
     initialData?.benefits || []
   );
@@ -73,11 +83,18 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
       isUrgent: false,
       featured: false,
       status: 'draft',
+      screeningQuestions: [],
+      autoRejectKnockouts: false,
       ...initialData,
     }
   });
 
-  const onSubmit = async (data: JobFormValues) => {
+  // Filled and expired aren't choices on the form; those jobs keep their
+  // status unless the employer picks a new one
+  const keepsClosedStatus =
+    (currentStatus === 'filled' || currentStatus === 'expired') && !statusChanged;
+
+  const onSubmit = async ({ status, ...data }: JobFormValues) => {
     setIsSubmitting(true);
     try {
       const url = jobId ? `/api/jobs/${jobId}` : '/api/jobs';
@@ -88,6 +105,7 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...data,
+          ...(!keepsClosedStatus && { status }),
           benefits: selectedBenefits
         }),
       });
@@ -105,6 +123,62 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
     }
   };
 
+  const publishAt = form.watch('publishAt');
+
+  const applyTemplate = (templateId: string) => {
+    const template = templateList.find((item) => item._id === templateId);
+    if (!template) return;
+
+    const { _id, name, shared, ...values } = template;
+    form.reset({ ...form.getValues(), ...values });
+    setSelectedBenefits(values.benefits || []);
+    setTemplateMessage(`Started from "${name}"`);
+  };
+
+  const saveAsTemplate = async () => {
+    const values = form.getValues();
+    const name = prompt('Template name', values.title);
+    if (!name) return;
+
+    setIsSavingTemplate(true);
+    try {
+      const template: JobTemplateValues = {
+        name,
+        title: values.title,
+        description: values.description,
+        requirements: values.requirements,
+        salaryType: values.salaryType,
+        jobType: values.jobType,
+        experienceLevel: values.experienceLevel,
+        category: values.category || undefined,
+        benefits: selectedBenefits,
+        // Empty number inputs come through as NaN
+        salaryMin: Number.isNaN(values.salaryMin) ? undefined : values.salaryMin,
+        salaryMax: Number.isNaN(values.salaryMax) ? undefined : values.salaryMax,
+      };
+
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(template),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template');
+      }
+
+      setTemplateList((prev) => [...prev, data]);
+      setTemplateMessage(`Saved template "${data.name}"`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      setTemplateMessage(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   const toggleBenefit = (benefit: string) => {
     setSelectedBenefits(prev =>
       prev.includes(benefit)
@@ -115,11 +189,36 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
 
   return (
     <form onSubmit={form.handleSubmit(onSubmit)}>
+      {!jobId && templateList.length > 0 && (
+        <Card className="mb-6">
+          <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <FileText className="h-4 w-4" />
+              Start from a template
+            </div>
+            <Select onValueChange={applyTemplate}>
+              <SelectTrigger className="sm:w-80">
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templateList.map((template) => (
+                  <SelectItem key={template._id} value={template._id}>
+                    {template.name}
+                    {template.shared && ' (Shared)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid grid-cols-4 w-full">
+        <TabsList className="grid grid-cols-5 w-full">
           <TabsTrigger value="basics">Basic Info</TabsTrigger>
           <TabsTrigger value="details">Job Details</TabsTrigger>
           <TabsTrigger value="compensation">Compensation</TabsTrigger>
+          <TabsTrigger value="screening">Screening</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -441,6 +540,43 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
           </Card>
         </TabsContent>
 
+        <TabsContent value="screening">
+          <Card>
+            <CardHeader>
+              <CardTitle>Screening Questions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-sm text-gray-600">
+                Applicants answer these when they apply. Answers that break a knockout rule are flagged in your inbox.
+              </p>
+
+              <ScreeningQuestionsEditor
+                initialQuestions={initialData?.screeningQuestions || []}
+                onChange={(questions) => form.setValue('screeningQuestions', questions)}
+              />
+              {form.formState.errors.screeningQuestions && (
+                <p className="text-sm text-red-600">
+                  {form.formState.errors.screeningQuestions.message ||
+                    'Each question needs a prompt, and multiple choice questions need at least 2 choices'}
+                </p>
+              )}
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Auto-reject Knockouts</Label>
+                  <p className="text-sm text-gray-600">
+                    Automatically reject applicants who fail a knockout question
+                  </p>
+                </div>
+                <Switch
+                  checked={form.watch('autoRejectKnockouts')}
+                  onCheckedChange={(checked) => form.setValue('autoRejectKnockouts', checked)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="settings">
           <Card>
             <CardHeader>
@@ -477,23 +613,55 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
                 <div>
                   <Label>Job Status</Label>
                   <Select
-                    value={form.watch('status')}
-                    onValueChange={(value: any) => form.setValue('status', value)}
+                    value={keepsClosedStatus ? '' : form.watch('status')}
+                    onValueChange={(value: any) => {
+                      form.setValue('status', value);
+                      setStatusChanged(true);
+                    }}
                   >
                     <SelectTrigger className="mt-2">
-                      <SelectValue />
+                      <SelectValue placeholder={`Keep as ${currentStatus}`} />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="draft">Save as Draft</SelectItem>
+                      <SelectItem value="scheduled">Schedule for Later</SelectItem>
                       <SelectItem value="published">Publish Now</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-sm text-gray-600 mt-2">
-                    {form.watch('status') === 'draft' 
-                      ? 'Job will be saved but not visible to job seekers'
-                      : 'Job will be immediately visible to job seekers'}
+                    {keepsClosedStatus
+                      ? `This job is ${currentStatus}. Saving keeps it ${currentStatus} unless you choose a status.`
+                      : form.watch('status') === 'draft'
+                        ? 'Job will be saved but not visible to job seekers'
+                        : form.watch('status') === 'scheduled'
+                          ? 'Job will go live automatically at the time below'
+                          : 'Job will be immediately visible to job seekers'}
                   </p>
                 </div>
+
+                {form.watch('status') === 'scheduled' && (
+                  <div>
+                    <Label htmlFor="publishAt">Publish Date & Time *</Label>
+                    <Input
+                      id="publishAt"
+                      type="datetime-local"
+                      className="mt-2"
+                      min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                      value={publishAt ? format(new Date(publishAt), "yyyy-MM-dd'T'HH:mm") : ''}
+                      onChange={(e) =>
+                        form.setValue(
+                          'publishAt',
+                          e.target.value ? new Date(e.target.value).toISOString() : undefined
+                        )
+                      }
+                    />
+                    {form.formState.errors.publishAt && (
+                      <p className="text-sm text-red-600 mt-1">
+                        {form.formState.errors.publishAt.message}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -508,7 +676,23 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
         >
           Cancel
         </Button>
-        <div className="flex gap-4">
+        <div className="flex items-center gap-4">
+          {templateMessage && (
+            <span className="text-sm text-gray-600">{templateMessage}</span>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={saveAsTemplate}
+            disabled={isSavingTemplate}
+          >
+            {isSavingTemplate ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+            )}
+            Save as Template
+          </Button>
           <Button
             type="submit"
             variant={form.watch('status') === 'published' ? 'default' : 'secondary'}
@@ -523,6 +707,7 @@ export default function JobForm({ initialData, jobId, categories }: JobFormProps
               <>
                 {jobId ? 'Update' : 'Create'} Job
                 {form.watch('status') === 'published' && ' & Publish'}
+                {form.watch('status') === 'scheduled' && ' & Schedule'}
               </>
             )}
           </Button>
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, FileUp, Loader2 } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  getMissingRequiredFields,
+  readImportFile,
+  suggestColumnMapping,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportReport,
+  type ImportRowResult
+} from '@/lib/job-import';
+
+// Select value for fields left unmapped
+const SKIP_COLUMN = '__skip__';
+
+const rowStatusConfig: Record<ImportRowResult['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  valid: { label: 'Ready', variant: 'secondary' },
+  created: { label: 'Created', variant: 'default' },
+  invalid: { label: 'Invalid', variant: 'destructive' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+export default function JobImport() {
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rowCount, setRowCount] = useState(0);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const missingFields = getMissingRequiredFields(mapping);
+
+  const handleFile = async (file: File | undefined) => {
+    setReport(null);
+    setError('');
+    if (!file) return;
+
+    const text = await file.text();
+    const { headers, rows } = readImportFile(text);
+
+    if (headers.length === 0) {
+      setError('The file is empty. Save your spreadsheet as CSV and try again.');
+      return;
+    }
+
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders(headers);
+    setRowCount(rows.length);
+    setMapping(suggestColumnMapping(headers));
+  };
+
+  const updateMapping = (field: ImportField, header: string) => {
+    setReport(null);
+    setMapping((current) => ({
+      ...current,
+      [field]: header === SKIP_COLUMN ? undefined : header,
+    }));
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/jobs/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'import', csv, mapping, dryRun }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to import jobs');
+        return;
+      }
+
+      setReport(data);
+    } catch (error) {
+      console.error('Error importing jobs:', error);
+      setError('Failed to import jobs');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Upload a CSV File</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            One job per row with a header row. Excel and Google Sheets files can be saved
+            with File → Save As / Download → CSV. Up to {MAX_IMPORT_ROWS} jobs per upload;
+            imported jobs are saved as drafts.
+          </p>
+          <div className="flex items-center gap-4">
+            <Label htmlFor="import-file" className="sr-only">CSV file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="max-w-sm"
+            />
+            {fileName && (
+              <span className="text-sm text-gray-600">
+                {fileName}: {rowCount} row{rowCount === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+          {rowCount > MAX_IMPORT_ROWS && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                This file has {rowCount} rows. Split it into files of {MAX_IMPORT_ROWS} jobs or fewer.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {headers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Match Columns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>
+                    {IMPORT_FIELDS[field].label}
+                    {IMPORT_FIELDS[field].required && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field] || SKIP_COLUMN}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Don&apos;t import</SelectItem>
+                      {headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Categories can be given by name. Separate multiple benefits with commas or
+              semicolons; use &quot;yes&quot; or &quot;no&quot; for Urgent and Featured.
+            </p>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map a column for: {missingFields.map((field) => IMPORT_FIELDS[field].label).join(', ')}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => submit(true)}
+                disabled={isSubmitting || missingFields.length > 0 || rowCount > MAX_IMPORT_ROWS}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview Import
+              </Button>
+              {report?.dryRun && report.valid > 0 && (
+                <Button onClick={() => submit(false)} disabled={isSubmitting}>
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import {report.valid} Valid Job{report.valid === 1 ? '' : 's'} as Drafts
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{report.dryRun ? '3. Preview' : 'Import Results'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              {report.dryRun
+                ? `${report.valid} of ${report.total} rows are ready to import. ${report.invalid} need fixing and will be skipped.`
+                : `${report.created} of ${report.total} rows were created as drafts.`}
+              {!report.dryRun && report.created > 0 && (
+                <Link href="/dashboard/jobs" className="text-blue-600 hover:underline">
+                  View jobs
+                </Link>
+              )}
+            </div>
+            <div className="border rounded-md divide-y">
+              {report.rows.map((row) => (
+                <div key={row.row} className="flex items-start gap-4 p-3 text-sm">
+                  <span className="w-16 shrink-0 text-gray-500">Row {row.row}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {row.jobId ? (
+                        <Link href={`/dashboard/jobs/${row.jobId}/edit`} className="hover:underline">
+                          {row.title}
+                        </Link>
+                      ) : (
+                        row.title || 'Untitled'
+                      )}
+                    </p>
+                    {row.errors.length > 0 && (
+                      <ul className="mt-1 list-disc pl-5 text-red-600">
+                        {row.errors.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <Badge variant={rowStatusConfig[row.status].variant}>
+                    {rowStatusConfig[row.status].label}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
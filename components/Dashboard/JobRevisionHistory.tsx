@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { JobRevision } from '@/lib/data';
+import { SYSTEM_ACTOR, formatRevisionValue, getFieldLabel } from '@/lib/job-revisions';
+
+interface JobRevisionHistoryProps {
+  jobId: string;
+  revisions: JobRevision[];
+}
+
+function actorName(revision: JobRevision) {
+  return revision.actor.name || revision.actor.email || 'Unknown user';
+}
+
+export default function JobRevisionHistory({ jobId, revisions }: JobRevisionHistoryProps) {
+  const router = useRouter();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const handleRestore = async (revision: JobRevision) => {
+    const restoredAt = format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a');
+    if (!confirm(`Restore this posting to how it looked after the change on ${restoredAt}?`)) return;
+
+    setRestoringId(revision._id);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/revisions/${revision._id}/restore`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        const { error } = await response.json();
+        alert(error || 'Failed to restore version');
+      }
+    } catch (error) {
+      console.error('Error restoring version:', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (revisions.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Revision History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-gray-500">
+            <History className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No changes yet</p>
+            <p className="text-sm mt-2">Every edit to this posting will be listed here.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const findRevision = (revisionId: string) =>
+    revisions.find((revision) => revision._id === revisionId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revision History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[600px] pr-4">
+          <div className="space-y-6">
+            {revisions.map((revision, index) => {
+              const restoredFrom = revision.restoredFrom && findRevision(revision.restoredFrom);
+
+              return (
+                <div key={revision._id} className="border-b pb-4 last:border-b-0">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {actorName(revision)}
+                        {revision.actor.id === SYSTEM_ACTOR.id && (
+                          <Badge variant="secondary" className="ml-2">Automatic</Badge>
+                        )}
+                        {index === 0 && (
+                          <Badge variant="outline" className="ml-2">Current</Badge>
+                        )}
+                      </p>
+                      <p
+                        className="text-xs text-gray-500 mt-1"
+                        title={format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}
+                      >
+                        {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                        {revision.restoredFrom && (
+                          <>
+                            {' · Restored version from '}
+                            {restoredFrom
+                              ? format(new Date(restoredFrom.createdAt), 'MMM d, yyyy h:mm a')
+                              : 'an earlier revision'}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    {index > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {restoringId === revision._id ? 'Restoring...' : 'Restore'}
+                      </Button>
+                    )}
+                  </div>
+                  <dl className="mt-3 space-y-2">
+                    {revision.changes.map((change) => (
+                      <div key={change.field} className="text-sm">
+                        <dt className="font-medium text-gray-700">{getFieldLabel(change.field)}</dt>
+                        <dd className="text-gray-600">
+                          <span className="line-through text-red-600">
+                            {formatRevisionValue(change.before)}
+                          </span>
+                          {' → '}
+                          <span className="text-green-700">{formatRevisionValue(change.after)}</span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Table,
@@ -19,47 +19,257 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   MoreHorizontal, 
   Edit, 
   Trash, 
   Eye, 
   Calendar,
+  CalendarClock,
+  ClipboardCheck,
   Search,
   Filter,
-  Plus
+  Plus,
+  RefreshCw,
+  Clock,
+  Copy,
+  Repeat,
+  Upload,
+  Download,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Bookmark,
+  CalendarRange,
+  X
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, formatDistanceStrict } from 'date-fns';
 import type { JobTableRow } from '@/types/job-management';
+import type { JobSummary, SavedJobView } from '@/lib/data';
+import type { BulkActionResult } from '@/lib/job-bulk';
+import type { BulkJobAction, JobListFilters, JobSortField } from '@/lib/validations/job';
 
-export default function JobsDataTable() {
+interface JobsDataTableProps {
+  categories?: Array<{ _id: string; name: string }>;
+}
+
+const PAGE_SIZE = 20;
+
+const DEFAULT_FILTERS: JobListFilters = { sort: 'publishedAt', direction: 'desc' };
+
+// Text columns read best A-Z, numbers and dates newest/highest first
+const ASCENDING_SORT_FIELDS: JobSortField[] = ['title', 'status'];
+
+const DATE_FILTERS = [
+  { key: 'postedFrom', label: 'Posted from' },
+  { key: 'postedTo', label: 'Posted to' },
+  { key: 'expiresFrom', label: 'Expires from' },
+  { key: 'expiresTo', label: 'Expires to' },
+] as const;
+
+// Drops unset filters so saved views and URLs only carry what was chosen
+function compactFilters(filters: JobListFilters): JobListFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+  ) as JobListFilters;
+}
+
+function toSearchParams(filters: JobListFilters) {
+  return new URLSearchParams(compactFilters(filters) as Record<string, string>);
+}
+
+interface SortableHeadProps {
+  field: JobSortField;
+  label: string;
+  filters: JobListFilters;
+  onSort: (field: JobSortField) => void;
+  className?: string;
+}
+
+function SortableHead({ field, label, filters, onSort, className }: SortableHeadProps) {
+  const isActive = filters.sort === field;
+  const Icon = !isActive ? ArrowUpDown : filters.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 hover:text-gray-900 ${isActive ? 'text-gray-900' : ''}`}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+export default function JobsDataTable({ categories = [] }: JobsDataTableProps) {
   const router = useRouter();
   const [jobs, setJobs] = useState<JobTableRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<JobListFilters>(DEFAULT_FILTERS);
   const [selectedJobs, setSelectedJobs] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-
-  useEffect(() => {
-    fetchJobs();
-  }, []);
+  const [savedViews, setSavedViews] = useState<SavedJobView[]>([]);
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [bulkResult, setBulkResult] = useState<(BulkActionResult & { label: string }) | null>(null);
+  const [now, setNow] = useState(() => new Date());
 
-  const fetchJobs = async () => {
+  const fetchJobs = useCallback(async () => {
     try {
-      const response = await fetch('/api/jobs');
+      const params = toSearchParams(filters);
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/jobs?${params}`);
       if (!response.ok) throw new Error('Failed to fetch jobs');
       
-      const data = await response.json();
-      setJobs(data.map(job => ({ ...job, id: job._id })));
+      const data: { jobs: JobSummary[]; total: number } = await response.json();
+
+      // Deleting the last jobs on a page leaves nothing to show; step back
+      if (data.jobs.length === 0 && page > 1 && data.total > 0) {
+        setPage(Math.ceil(data.total / PAGE_SIZE));
+        return;
+      }
+
+      setTotal(data.total);
+      setJobs(data.jobs.map(job => ({
+        ...job,
+        id: job._id,
+        applications: job.applicationCount,
+        views: job.viewCount,
+      })));
     } catch (error) {
       console.error('Error fetching jobs:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    fetchSavedViews();
+  }, []);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const search = searchTerm.trim();
+      if (search !== (filters.search || '')) {
+        setFilters(current => ({ ...current, search: search || undefined }));
+        setPage(1);
+        setSelectedJobs([]);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, filters.search]);
+
+  // Tick the scheduled-publish countdowns; refetch once one of them goes live
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const hasOverdueSchedule = jobs.some(
+    (job) => job.status === 'scheduled' && job.publishAt && new Date(job.publishAt) <= now
+  );
+
+  useEffect(() => {
+    if (hasOverdueSchedule) {
+      fetchJobs();
+    }
+  }, [hasOverdueSchedule, fetchJobs]);
+
+  const fetchSavedViews = async () => {
+    try {
+      const response = await fetch('/api/saved-views');
+      if (!response.ok) throw new Error('Failed to fetch saved views');
+
+      setSavedViews(await response.json());
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    }
+  };
+
+  // Any change to what is listed starts over from the first page
+  const updateFilters = (changes: Partial<JobListFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+    setSelectedJobs([]);
+  };
+
+  const handleSort = (field: JobSortField) => {
+    if (filters.sort === field) {
+      updateFilters({ direction: filters.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateFilters({
+        sort: field,
+        direction: ASCENDING_SORT_FIELDS.includes(field) ? 'asc' : 'desc',
+      });
+    }
+  };
+
+  const applySavedView = (view: SavedJobView) => {
+    setSearchTerm(view.filters.search || '');
+    setFilters({ ...DEFAULT_FILTERS, ...view.filters });
+    setPage(1);
+    setSelectedJobs([]);
+  };
+
+  const handleSaveView = async () => {
+    const name = prompt('Name this view')?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/saved-views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, filters: compactFilters(filters) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to save view');
+        return;
+      }
+
+      setSavedViews([...savedViews, data]);
+    } catch (error) {
+      console.error('Error saving view:', error);
+    }
+  };
+
+  const handleDeleteView = async (view: SavedJobView) => {
+    const confirmed = confirm(`Delete the saved view "${view.name}"?`);
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/saved-views/${view._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) throw new Error('Delete failed');
+
+      setSavedViews(savedViews.filter(saved => saved._id !== view._id));
+    } catch (error) {
+      console.error('Error deleting saved view:', error);
+    }
   };
 
   const handleSelectAll = (checked: boolean) => {
@@ -78,31 +288,57 @@ export default function JobsDataTable() {
     }
   };
 
-  const handleBulkAction = async (action: string) => {
+  // Exports the selected jobs, or everything matching the current filters
+  const handleExport = (exportFormat: 'csv' | 'json') => {
+    const params = toSearchParams(filters);
+    params.set('format', exportFormat);
+    if (selectedJobs.length > 0) {
+      params.set('ids', selectedJobs.join(','));
+    }
+
+    // The route streams the file as an attachment, so navigating downloads it
+    window.location.href = `/api/jobs/export?${params}`;
+  };
+
+  // `label` completes "Are you sure you want to ..." and titles the result summary
+  const handleBulkAction = async (action: BulkJobAction, label: string) => {
     if (selectedJobs.length === 0) return;
 
     const confirmed = confirm(
-      `Are you sure you want to ${action} ${selectedJobs.length} job(s)?`
+      `Are you sure you want to ${label} ${selectedJobs.length} job(s)?`
     );
 
     if (!confirmed) return;
 
+    setIsBulkRunning(true);
+    setBulkResult(null);
     try {
       const response = await fetch('/api/jobs/bulk', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action, jobIds: selectedJobs }),
+        body: JSON.stringify({ ...action, jobIds: selectedJobs }),
       });
 
-      if (!response.ok) throw new Error('Bulk action failed');
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Bulk action failed');
+        return;
+      }
 
+      const result: BulkActionResult = data;
+      setBulkResult({ ...result, label });
       await fetchJobs();
-      setSelectedJobs([]);
+      // Leave the jobs that failed selected so they can be fixed and retried
+      setSelectedJobs(result.failed.map(failure => failure.id));
     } catch (error) {
       console.error('Error performing bulk action:', error);
+    } finally {
+      setIsBulkRunning(false);
     }
   };
 
+  const jobTitle = (jobId: string) => jobs.find(job => job.id === jobId)?.title || jobId;
+
   const handleDeleteJob = async (jobId: string) => {
     const confirmed = confirm('Are you sure you want to delete this job?');
     if (!confirmed) return;
@@ -120,28 +356,107 @@ export default function JobsDataTable() {
     }
   };
 
-  const filteredJobs = jobs.filter(job => {
-    const matchesSearch = job.title.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || job.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  const handleRenewJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/renew`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        alert(error || 'Failed to renew job');
+        return;
+      }
+
+      await fetchJobs();
+    } catch (error) {
+      console.error('Error renewing job:', error);
+    }
+  };
+
+  const handleDuplicateJob = async (jobId: string, mode: 'duplicate' | 'repost') => {
+    if (mode === 'repost') {
+      const confirmed = confirm('Publish a fresh copy of this job?');
+      if (!confirmed) return;
+    }
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to duplicate job');
+        return;
+      }
+
+      // Drafts need editing (city, dates) before they go live
+      if (mode === 'duplicate') {
+        router.push(`/dashboard/jobs/${data._id}/edit`);
+        return;
+      }
+
+      await fetchJobs();
+    } catch (error) {
+      console.error('Error duplicating job:', error);
+    }
+  };
+
 
   const statusConfig = {
     draft: { label: 'Draft', variant: 'secondary' as const },
+    scheduled: { label: 'Scheduled', variant: 'outline' as const },
     published: { label: 'Published', variant: 'default' as const },
     expired: { label: 'Expired', variant: 'outline' as const },
     filled: { label: 'Filled', variant: 'default' as const }
   };
 
+  const activeDateFilters = DATE_FILTERS.filter(({ key }) => filters[key]).length;
+  const firstShown = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastShown = Math.min(page * PAGE_SIZE, total);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Manage Jobs</CardTitle>
-          <Button onClick={() => router.push('/dashboard/jobs/new')}>
-            <Plus className="h-4 w-4 mr-2" />
-            Post New Job
-          </Button>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>
+                  {selectedJobs.length > 0
+                    ? `Export ${selectedJobs.length} selected`
+                    : 'Export filtered jobs'}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => handleExport('csv')}>
+                  CSV (spreadsheet)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('json')}>
+                  JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" onClick={() => router.push('/dashboard/jobs/import')}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+            <Button onClick={() => router.push('/dashboard/jobs/new')}>
+              <Plus className="h-4 w-4 mr-2" />
+              Post New Job
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -161,30 +476,147 @@ export default function JobsDataTable() {
               <DropdownMenuTrigger asChild>
                 <Button variant="outline">
                   <Filter className="h-4 w-4 mr-2" />
-                  Status: {statusFilter === 'all' ? 'All' : statusConfig[statusFilter]?.label}
+                  Status: {filters.status ? statusConfig[filters.status].label : 'All'}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent>
-                <DropdownMenuItem onClick={() => setStatusFilter('all')}>
+                <DropdownMenuItem onClick={() => updateFilters({ status: undefined })}>
                   All Status
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => setStatusFilter('draft')}>
+                <DropdownMenuItem onClick={() => updateFilters({ status: 'draft' })}>
                   Draft
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('published')}>
+                <DropdownMenuItem onClick={() => updateFilters({ status: 'scheduled' })}>
+                  Scheduled
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => updateFilters({ status: 'published' })}>
                   Published
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('expired')}>
+                <DropdownMenuItem onClick={() => updateFilters({ status: 'expired' })}>
                   Expired
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('filled')}>
+                <DropdownMenuItem onClick={() => updateFilters({ status: 'filled' })}>
                   Filled
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline">
+                  <CalendarRange className="h-4 w-4 mr-2" />
+                  Dates{activeDateFilters > 0 && ` (${activeDateFilters})`}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-3">
+                {DATE_FILTERS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`filter-${key}`}>{label}</Label>
+                    <Input
+                      id={`filter-${key}`}
+                      type="date"
+                      value={filters[key] || ''}
+                      onChange={(e) => updateFilters({ [key]: e.target.value || undefined })}
+                    />
+                  </div>
+                ))}
+                {activeDateFilters > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateFilters({
+                      postedFrom: undefined,
+                      postedTo: undefined,
+                      expiresFrom: undefined,
+                      expiresTo: undefined,
+                    })}
+                  >
+                    Clear dates
+                  </Button>
+                )}
+              </PopoverContent>
+            </Popover>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  Views
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {savedViews.length === 0 ? (
+                  <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+                ) : (
+                  savedViews.map(view => (
+                    <DropdownMenuItem
+                      key={view._id}
+                      onClick={() => applySavedView(view)}
+                      className="justify-between"
+                    >
+                      <span className="truncate">{view.name}</span>
+                      <button
+                        type="button"
+                        aria-label={`Delete ${view.name}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteView(view);
+                        }}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </DropdownMenuItem>
+                  ))
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={handleSaveView}>
+                  Save current view...
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => {
+                    setSearchTerm('');
+                    setFilters(DEFAULT_FILTERS);
+                    setPage(1);
+                    setSelectedJobs([]);
+                  }}
+                >
+                  Reset filters
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
+          {/* Bulk Action Results */}
+          {bulkResult && (
+            <Alert variant={bulkResult.failed.length > 0 ? 'destructive' : 'default'}>
+              <AlertDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium">
+                      {bulkResult.label.charAt(0).toUpperCase() + bulkResult.label.slice(1)}:{' '}
+                      {bulkResult.succeeded.length} succeeded
+                      {bulkResult.failed.length > 0 && `, ${bulkResult.failed.length} failed`}
+                    </p>
+                    {bulkResult.failed.length > 0 && (
+                      <ul className="mt-2 list-disc pl-5 text-sm">
+                        {bulkResult.failed.map(failure => (
+                          <li key={failure.id}>
+                            {jobTitle(failure.id)}: {failure.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setBulkResult(null)}>
+                    Dismiss
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Bulk Actions */}
           {selectedJobs.length > 0 && (
             <div className="bg-gray-50 p-4 rounded-lg flex items-center justify-between">
@@ -195,21 +627,85 @@ export default function JobsDataTable() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleBulkAction('publish')}
+                  disabled={isBulkRunning}
+                  onClick={() => handleBulkAction({ action: 'publish' }, 'publish')}
                 >
                   Publish
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleBulkAction('expire')}
+                  disabled={isBulkRunning}
+                  onClick={() => handleBulkAction({ action: 'expire' }, 'expire')}
                 >
                   Expire
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isBulkRunning}
+                  onClick={() => handleBulkAction({ action: 'fill' }, 'mark filled')}
+                >
+                  Mark Filled
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={isBulkRunning}>
+                      More
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleBulkAction({ action: 'setUrgent', value: true }, 'mark urgent')}>
+                      Mark Urgent
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleBulkAction({ action: 'setUrgent', value: false }, 'remove urgent from')}>
+                      Remove Urgent
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleBulkAction({ action: 'setFeatured', value: true }, 'feature')}>
+                      Feature
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleBulkAction({ action: 'setFeatured', value: false }, 'unfeature')}>
+                      Unfeature
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger>Extend Expiry</DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {[7, 14, 30].map(days => (
+                          <DropdownMenuItem
+                            key={days}
+                            onClick={() => handleBulkAction({ action: 'extendExpiry', days }, `extend by ${days} days`)}
+                          >
+                            {days} days
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                    {categories.length > 0 && (
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>Set Category</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {categories.map(category => (
+                            <DropdownMenuItem
+                              key={category._id}
+                              onClick={() => handleBulkAction(
+                                { action: 'setCategory', categoryId: category._id },
+                                `move to ${category.name}`
+                              )}
+                            >
+                              {category.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="destructive"
                   size="sm"
-                  onClick={() => handleBulkAction('delete')}
+                  disabled={isBulkRunning}
+                  onClick={() => handleBulkAction({ action: 'delete' }, 'delete')}
                 >
                   Delete
                 </Button>
@@ -224,16 +720,16 @@ export default function JobsDataTable() {
                 <TableRow>
                   <TableHead className="w-12">
                     <Checkbox
-                      checked={selectedJobs.length === filteredJobs.length && filteredJobs.length > 0}
+                      checked={jobs.length > 0 && jobs.every(job => selectedJobs.includes(job.id))}
                       onCheckedChange={handleSelectAll}
                     />
                   </TableHead>
-                  <TableHead>Job Title</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-center">Applications</TableHead>
-                  <TableHead className="text-center">Views</TableHead>
-                  <TableHead>Posted</TableHead>
-                  <TableHead>Expires</TableHead>
+                  <SortableHead field="title" label="Job Title" filters={filters} onSort={handleSort} />
+                  <SortableHead field="status" label="Status" filters={filters} onSort={handleSort} />
+                  <SortableHead field="applicationCount" label="Applications" filters={filters} onSort={handleSort} className="text-center" />
+                  <SortableHead field="viewCount" label="Views" filters={filters} onSort={handleSort} className="text-center" />
+                  <SortableHead field="publishedAt" label="Posted" filters={filters} onSort={handleSort} />
+                  <SortableHead field="expiresAt" label="Expires" filters={filters} onSort={handleSort} />
                   <TableHead className="w-12"></TableHead>
                 </TableRow>
               </TableHeader>
@@ -244,14 +740,14 @@ export default function JobsDataTable() {
                       Loading jobs...
                     </TableCell>
                   </TableRow>
-                ) : filteredJobs.length === 0 ? (
+                ) : jobs.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8">
                       No jobs found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredJobs.map((job) => (
+                  jobs.map((job) => (
                     <TableRow key={job.id}>
                       <TableCell>
                         <Checkbox
@@ -261,7 +757,12 @@ export default function JobsDataTable() {
                           }
                         />
                       </TableCell>
-                      <TableCell className="font-medium">{job.title}</TableCell>
+                      <TableCell className="font-medium">
+                        {job.title}
+                        {job.repostOf && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">Repost</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant={statusConfig[job.status].variant}>
                           {statusConfig[job.status].label}
@@ -274,7 +775,17 @@ export default function JobsDataTable() {
                         {job.views || 0}
                       </TableCell>
                       <TableCell>
-                        {job.publishedAt 
+                        {job.status === 'scheduled' && job.publishAt ? (
+                          <span
+                            className="flex items-center gap-1 text-sm text-blue-600"
+                            title={format(new Date(job.publishAt), 'MMM d, yyyy h:mm a')}
+                          >
+                            <Clock className="h-3 w-3" />
+                            {new Date(job.publishAt) > now
+                              ? `Live in ${formatDistanceStrict(new Date(job.publishAt), now)}`
+                              : 'Publishing...'}
+                          </span>
+                        ) : job.publishedAt 
                           ? format(new Date(job.publishedAt), 'MMM d, yyyy')
                           : '-'
                         }
@@ -313,6 +824,34 @@ export default function JobsDataTable() {
                               <Calendar className="h-4 w-4 mr-2" />
                               View Applications
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => router.push(`/dashboard/jobs/${job.id}/interviews`)}
+                            >
+                              <CalendarClock className="h-4 w-4 mr-2" />
+                              Interview Slots
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => router.push(`/dashboard/jobs/${job.id}/scorecard`)}
+                            >
+                              <ClipboardCheck className="h-4 w-4 mr-2" />
+                              Scorecard
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDuplicateJob(job.id, 'duplicate')}>
+                              <Copy className="h-4 w-4 mr-2" />
+                              Duplicate
+                            </DropdownMenuItem>
+                            {(job.status === 'filled' || job.status === 'expired') && (
+                              <DropdownMenuItem onClick={() => handleDuplicateJob(job.id, 'repost')}>
+                                <Repeat className="h-4 w-4 mr-2" />
+                                Repost
+                              </DropdownMenuItem>
+                            )}
+                            {(job.status === 'published' || job.status === 'expired') && (
+                              <DropdownMenuItem onClick={() => handleRenewJob(job.id)}>
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Renew for 30 days
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               onClick={() => handleDeleteJob(job.id)}
@@ -330,8 +869,38 @@ export default function JobsDataTable() {
               </TableBody>
             </Table>
           </div>
+
+          {/* Pagination */}
+          {total > 0 && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                Showing {firstShown}-{lastShown} of {total} job{total === 1 ? '' : 's'}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  Previous
+                </Button>
+                <span>
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pageCount}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
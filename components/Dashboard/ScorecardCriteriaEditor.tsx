@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash } from 'lucide-react';
+import type { ScorecardCriterion } from '@/types';
+import type { ScorecardCriteriaValues } from '@/lib/validations/job';
+import { scorecardKindConfig } from '@/lib/scorecards';
+
+interface ScorecardCriteriaEditorProps {
+  jobId: string;
+  initialCriteria: ScorecardCriterion[];
+}
+
+type CriterionDraft = ScorecardCriteriaValues['criteria'][number] & { id: string };
+
+const KINDS = Object.keys(scorecardKindConfig) as ScorecardCriterion['kind'][];
+
+// Unsaved criteria have no `_key` yet, so rows are tracked by a local ID
+let nextDraftId = 0;
+const toDraft = (criterion: Partial<ScorecardCriterion>): CriterionDraft => ({
+  _key: criterion._key,
+  label: criterion.label || '',
+  kind: criterion.kind || 'rating',
+  id: criterion._key || `draft-${nextDraftId++}`,
+});
+
+export default function ScorecardCriteriaEditor({ jobId, initialCriteria }: ScorecardCriteriaEditorProps) {
+  const [criteria, setCriteria] = useState<CriterionDraft[]>(() => initialCriteria.map(toDraft));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const updateCriteria = (update: (current: CriterionDraft[]) => CriterionDraft[]) => {
+    setCriteria(update);
+    setIsDirty(true);
+  };
+
+  const updateCriterion = (id: string, changes: Partial<CriterionDraft>) => {
+    updateCriteria(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const moveCriterion = (index: number, offset: number) => {
+    updateCriteria(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const values: ScorecardCriteriaValues = {
+        criteria: criteria.map(({ _key, label, kind }) => ({ _key, label, kind })),
+      };
+
+      const response = await fetch(`/api/jobs/${jobId}/scorecard`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to save scorecard');
+        return;
+      }
+
+      setCriteria(data.criteria.map(toDraft));
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Error saving scorecard criteria:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Criteria</CardTitle>
+        <p className="text-sm text-gray-600">
+          Each reviewer scores applicants to this job on these. Removing a criterion keeps the scores
+          already given for it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {criteria.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No criteria yet. Try &quot;Has OSHA 10&quot;, &quot;Years in trade&quot; or
+            &quot;Reliable transportation&quot;.
+          </p>
+        )}
+
+        {criteria.map((criterion, index) => (
+          <div key={criterion.id} className="flex items-center gap-2">
+            <Input
+              aria-label="Criterion"
+              value={criterion.label}
+              onChange={(e) => updateCriterion(criterion.id, { label: e.target.value })}
+              placeholder="e.g. Has OSHA 10"
+            />
+            <Select
+              value={criterion.kind}
+              onValueChange={(kind) => updateCriterion(criterion.id, { kind: kind as ScorecardCriterion['kind'] })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KINDS.map(kind => (
+                  <SelectItem key={kind} value={kind}>
+                    {scorecardKindConfig[kind].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Move up"
+              disabled={index === 0}
+              onClick={() => moveCriterion(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Move down"
+              disabled={index === criteria.length - 1}
+              onClick={() => moveCriterion(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Remove"
+              onClick={() => updateCriteria(current => current.filter(item => item.id !== criterion.id))}
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => updateCriteria(current => [...current, toDraft({})])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Criterion
+          </Button>
+          <Button disabled={isSaving || !isDirty} onClick={save}>
+            {isSaving ? 'Saving...' : 'Save Scorecard'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash } from 'lucide-react';
+import type { ScreeningQuestion } from '@/types';
+import type { ScreeningQuestionValues } from '@/lib/validations/job';
+import { screeningKindConfig } from '@/lib/screening';
+
+interface ScreeningQuestionsEditorProps {
+  initialQuestions: ScreeningQuestionValues[];
+  onChange: (questions: ScreeningQuestionValues[]) => void;
+}
+
+type QuestionDraft = ScreeningQuestionValues & { id: string };
+
+const KINDS = Object.keys(screeningKindConfig) as ScreeningQuestion['kind'][];
+
+// Select value for "no knockout rule"
+const NONE = 'none';
+
+// Unsaved questions have no `_key` yet, so rows are tracked by a local ID
+let nextDraftId = 0;
+const toDraft = (question: Partial<ScreeningQuestionValues>): QuestionDraft => ({
+  _key: question._key,
+  prompt: question.prompt || '',
+  kind: question.kind || 'yesNo',
+  options: question.options || [],
+  requiredAnswer: question.requiredAnswer,
+  minimumAnswer: question.minimumAnswer,
+  id: question._key || `draft-${nextDraftId++}`,
+});
+
+export default function ScreeningQuestionsEditor({ initialQuestions, onChange }: ScreeningQuestionsEditorProps) {
+  const [questions, setQuestions] = useState<QuestionDraft[]>(() => initialQuestions.map(toDraft));
+
+  const updateQuestions = (update: (current: QuestionDraft[]) => QuestionDraft[]) => {
+    const next = update(questions);
+    setQuestions(next);
+    // Blank lines stay in the textarea while typing but aren't choices
+    onChange(next.map(({ id, ...question }) => ({
+      ...question,
+      options: question.options.map(option => option.trim()).filter(Boolean),
+    })));
+  };
+
+  const updateQuestion = (id: string, changes: Partial<QuestionDraft>) => {
+    updateQuestions(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    updateQuestions(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  // The knockout rule depends on the kind, so it's cleared when the kind changes
+  const changeKind = (id: string, kind: ScreeningQuestion['kind']) => {
+    updateQuestion(id, { kind, requiredAnswer: undefined, minimumAnswer: undefined });
+  };
+
+  const knockoutInput = (question: QuestionDraft) => {
+    switch (question.kind) {
+      case 'yesNo':
+      case 'multipleChoice': {
+        const choices = question.kind === 'yesNo'
+          ? [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }]
+          : question.options.filter(Boolean).map(option => ({ value: option, label: option }));
+        return (
+          <Select
+            value={question.requiredAnswer || NONE}
+            onValueChange={(value) => updateQuestion(question.id, {
+              requiredAnswer: value === NONE ? undefined : value,
+            })}
+          >
+            <SelectTrigger className="sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No knockout</SelectItem>
+              {choices.map(choice => (
+                <SelectItem key={choice.value} value={choice.value}>
+                  Must answer {choice.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'number':
+        return (
+          <Input
+            type="number"
+            className="sm:w-64"
+            value={question.minimumAnswer ?? ''}
+            onChange={(e) => updateQuestion(question.id, {
+              minimumAnswer: e.target.value === '' ? undefined : Number(e.target.value),
+            })}
+            placeholder="Minimum, e.g. 2"
+          />
+        );
+      case 'text':
+        return (
+          <Input
+            className="sm:w-64"
+            value={question.requiredAnswer || ''}
+            onChange={(e) => updateQuestion(question.id, { requiredAnswer: e.target.value || undefined })}
+            placeholder="Exact answer, or leave blank"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No questions yet. Try &quot;Do you have a valid CDL-A?&quot; or &quot;Can you lift 50 lbs?&quot;
+        </p>
+      )}
+
+      {questions.map((question, index) => (
+        <div key={question.id} className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Question"
+              value={question.prompt}
+              onChange={(e) => updateQuestion(question.id, { prompt: e.target.value })}
+              placeholder="e.g. Do you have a valid CDL-A?"
+            />
+            <Select
+              value={question.kind}
+              onValueChange={(kind) => changeKind(question.id, kind as ScreeningQuestion['kind'])}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KINDS.map(kind => (
+                  <SelectItem key={kind} value={kind}>
+                    {screeningKindConfig[kind].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move up"
+              disabled={index === 0}
+              onClick={() => moveQuestion(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move down"
+              disabled={index === questions.length - 1}
+              onClick={() => moveQuestion(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove"
+              onClick={() => updateQuestions(current => current.filter(item => item.id !== question.id))}
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {question.kind === 'multipleChoice' && (
+            <div className="space-y-1">
+              <Label>Choices, one per line</Label>
+              <Textarea
+                rows={3}
+                value={question.options.join('\n')}
+                onChange={(e) => updateQuestion(question.id, {
+                  options: e.target.value.split('\n'),
+                  requiredAnswer: undefined,
+                })}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <Label className="text-sm text-gray-600 sm:w-32">Knockout rule</Label>
+            {knockoutInput(question)}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        disabled={questions.length >= 10}
+        onClick={() => updateQuestions(current => [...current, toDraft({})])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -9,10 +9,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Upload, CheckCircle } from 'lucide-react';
-import { Job, ApplicationForm as ApplicationFormData } from '@/types';
-import { createApplication } from '@/lib/sanity-utils';
+import { Job, ApplicationForm as ApplicationFormData, ScreeningQuestion, UploadedResume } from '@/types';
+import { evaluateScreening } from '@/lib/screening';
+import { MAX_RESUME_BYTES, RESUME_MIME_TYPES } from '@/lib/validations/resume';
 import { useToast } from '@/components/ui/use-toast';
 
 const applicationSchema = z.object({
@@ -34,12 +37,23 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
   const { data: session } = useSession();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [resume, setResume] = useState<UploadedResume | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // Found in the resume; the applicant can untick any that don't apply
+  const [skills, setSkills] = useState<string[]>([]);
+  const [certifications, setCertifications] = useState<string[]>([]);
+  // Screening answers keyed by question
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  // Bot checks: submissions that come too fast or fill the hidden field are dropped
+  const [startedAt] = useState(() => Date.now());
+  const honeypotRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
     handleSubmit,
+    getValues,
+    setValue,
     formState: { errors },
   } = useForm<ApplicationFormData>({
     resolver: zodResolver(applicationSchema),
@@ -49,11 +63,59 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
     },
   });
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Upload with XMLHttpRequest, which reports progress unlike fetch
+  const uploadResume = (file: File) =>
+    new Promise<UploadedResume>((resolve, reject) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const request = new XMLHttpRequest();
+      request.open('POST', '/api/resumes');
+      request.responseType = 'json';
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          setUploadProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+      request.onload = () => {
+        if (request.status === 201) {
+          resolve(request.response);
+        } else {
+          reject(new Error(request.response?.error || 'Failed to upload resume'));
+        }
+      };
+      request.onerror = () => reject(new Error('Failed to upload resume'));
+      request.send(formData);
+    });
+
+  // Fill in what the applicant hasn't typed yet from their resume
+  const prefillFromResume = ({ details }: UploadedResume) => {
+    const filled = (['name', 'email', 'phone'] as const).filter((field) => {
+      const value = details[field];
+      if (!value || getValues(field)) return false;
+      setValue(field, value, { shouldValidate: true });
+      return true;
+    });
+
+    setSkills(details.skills);
+    setCertifications(details.certifications);
+
+    if (filled.length > 0 || details.skills.length > 0 || details.certifications.length > 0) {
+      toast({
+        title: 'Details added from your resume',
+        description: 'Check them over before you submit.',
+      });
+    }
+  };
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      // Validate file size (5MB max)
-      if (file.size > 5 * 1024 * 1024) {
+      // Quick checks before uploading; the server checks the contents
+      if (file.size > MAX_RESUME_BYTES) {
         toast({
           title: 'File too large',
           description: 'Resume must be less than 5MB',
@@ -62,9 +124,7 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
         return;
       }
       
-      // Validate file type
-      const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-      if (!allowedTypes.includes(file.type)) {
+      if (file.type && !RESUME_MIME_TYPES.includes(file.type)) {
         toast({
           title: 'Invalid file type',
           description: 'Please upload a PDF or Word document',
@@ -73,50 +133,74 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
         return;
       }
       
-      setResumeFile(file);
+      setResume(null);
+      setIsUploading(true);
+      setUploadProgress(0);
+      try {
+        const uploaded = await uploadResume(file);
+        setResume(uploaded);
+        prefillFromResume(uploaded);
+      } catch (error: any) {
+        toast({
+          title: 'Upload failed',
+          description: error.message,
+          variant: 'destructive',
+        });
+      } finally {
+        setIsUploading(false);
+        setUploadProgress(0);
+        // Allow picking the same file again after a failure
+        e.target.value = '';
+      }
     }
   };
 
-  const uploadResume = async (file: File): Promise<string> => {
-    // In a real app, this would upload to Sanity assets
-    // For now, we'll simulate an upload
-    return new Promise((resolve) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += 10;
-        setUploadProgress(progress);
-        if (progress >= 100) {
-          clearInterval(interval);
-          resolve('https://example.com/resume.pdf');
-        }
-      }, 200);
-    });
-  };
+  const setAnswer = (key: string, answer: string) =>
+    setAnswers((prev) => ({ ...prev, [key]: answer }));
 
   const onSubmit = async (data: ApplicationFormData) => {
+    // Knockout rules aren't sent to the browser, so this only checks that
+    // every question is answered
+    const screening = evaluateScreening(job.screeningQuestions || [], answers);
+    if (typeof screening === 'string') {
+      toast({
+        title: 'Screening questions',
+        description: screening,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
-      let resumeUrl = '';
-      
-      // Upload resume if provided
-      if (resumeFile) {
-        resumeUrl = await uploadResume(resumeFile);
-      }
-
-      // Create application
-      await createApplication({
-        jobId: job._id,
-        applicantInfo: {
-          name: data.name,
-          email: data.email,
-          phone: data.phone,
-          resumeUrl,
-          linkedIn: data.linkedIn,
-        },
-        coverMessage: data.coverMessage,
+      const response = await fetch('/api/applications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobId: job._id,
+          applicantInfo: {
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            resume: resume?.file,
+            linkedIn: data.linkedIn,
+            skills,
+            certifications,
+          },
+          coverMessage: data.coverMessage,
+          resumeText: resume?.text || undefined,
+          answers,
+          website: honeypotRef.current?.value,
+          startedAt,
+        }),
       });
 
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to submit application');
+      }
+
       toast({
         title: 'Application submitted!',
         description: 'Your application has been sent to the employer.',
@@ -131,7 +215,70 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
       });
     } finally {
       setIsSubmitting(false);
-      setUploadProgress(0);
+    }
+  };
+
+  const resumeTerms = [
+    { label: 'Skills', found: resume?.details.skills || [], selected: skills, onChange: setSkills },
+    {
+      label: 'Certifications',
+      found: resume?.details.certifications || [],
+      selected: certifications,
+      onChange: setCertifications,
+    },
+  ].filter(({ found }) => found.length > 0);
+
+  const answerInput = (question: ScreeningQuestion) => {
+    const answer = answers[question._key] || '';
+
+    switch (question.kind) {
+      case 'yesNo':
+        return (
+          <div className="flex gap-2">
+            {(['yes', 'no'] as const).map((value) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={answer === value ? 'default' : 'outline'}
+                onClick={() => setAnswer(question._key, value)}
+                disabled={isSubmitting}
+              >
+                {value === 'yes' ? 'Yes' : 'No'}
+              </Button>
+            ))}
+          </div>
+        );
+      case 'multipleChoice':
+        return (
+          <Select
+            value={answer}
+            onValueChange={(value) => setAnswer(question._key, value)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id={`screening-${question._key}`}>
+              <SelectValue placeholder="Choose one" />
+            </SelectTrigger>
+            <SelectContent>
+              {(question.options || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            id={`screening-${question._key}`}
+            type={question.kind === 'number' ? 'number' : 'text'}
+            maxLength={500}
+            value={answer}
+            onChange={(e) => setAnswer(question._key, e.target.value)}
+            disabled={isSubmitting}
+          />
+        );
     }
   };
 
@@ -144,6 +291,54 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
       </Alert>
 
       <div className="space-y-4">
+        <div>
+          <Label htmlFor="resume">Resume (optional)</Label>
+          <p className="text-xs text-gray-500">Add it first and we&apos;ll fill in what we can from it</p>
+          <div className="mt-2">
+            <label
+              htmlFor="resume"
+              className="flex items-center justify-center w-full p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-gray-400 transition-colors"
+            >
+              {isUploading ? (
+                <div className="text-center">
+                  <Loader2 className="h-8 w-8 text-gray-400 mx-auto mb-2 animate-spin" />
+                  <p className="text-sm font-medium">Uploading... {uploadProgress}%</p>
+                </div>
+              ) : resume ? (
+                <div className="text-center">
+                  <CheckCircle className="h-8 w-8 text-green-500 mx-auto mb-2" />
+                  <p className="text-sm font-medium">{resume.file.filename}</p>
+                  <p className="text-xs text-gray-500">Click to change</p>
+                </div>
+              ) : (
+                <div className="text-center">
+                  <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-sm font-medium">Upload your resume</p>
+                  <p className="text-xs text-gray-500">PDF or Word (max 5MB)</p>
+                </div>
+              )}
+              <input
+                id="resume"
+                type="file"
+                className="hidden"
+                accept=".pdf,.doc,.docx"
+                onChange={handleFileChange}
+                disabled={isSubmitting || isUploading}
+              />
+            </label>
+            {isUploading && (
+              <div className="mt-2">
+                <div className="bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
         <div>
           <Label htmlFor="name">Full Name *</Label>
           <Input
@@ -194,46 +389,40 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
           />
         </div>
 
-        <div>
-          <Label htmlFor="resume">Resume (optional)</Label>
-          <div className="mt-2">
-            <label
-              htmlFor="resume"
-              className="flex items-center justify-center w-full p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-gray-400 transition-colors"
-            >
-              {resumeFile ? (
-                <div className="text-center">
-                  <CheckCircle className="h-8 w-8 text-green-500 mx-auto mb-2" />
-                  <p className="text-sm font-medium">{resumeFile.name}</p>
-                  <p className="text-xs text-gray-500">Click to change</p>
-                </div>
-              ) : (
-                <div className="text-center">
-                  <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                  <p className="text-sm font-medium">Upload your resume</p>
-                  <p className="text-xs text-gray-500">PDF or Word (max 5MB)</p>
-                </div>
-              )}
-              <input
-                id="resume"
-                type="file"
-                className="hidden"
-                accept=".pdf,.doc,.docx"
-                onChange={handleFileChange}
-                disabled={isSubmitting}
-              />
-            </label>
-            {uploadProgress > 0 && uploadProgress < 100 && (
-              <div className="mt-2">
-                <div className="bg-gray-200 rounded-full h-2">
-                  <div
-                    className="bg-blue-600 h-2 rounded-full transition-all"
-                    style={{ width: `${uploadProgress}%` }}
-                  />
+        {resumeTerms.length > 0 && (
+          <div className="space-y-3">
+            {resumeTerms.map(({ label, found, selected, onChange }) => (
+              <div key={label}>
+                <Label>{label} from your resume</Label>
+                <p className="text-xs text-gray-500 mb-2">Tap any that don&apos;t apply to remove them</p>
+                <div className="flex flex-wrap gap-2">
+                  {found.map((item) => (
+                    <button
+                      key={item}
+                      type="button"
+                      onClick={() => onChange(toggle(selected, item))}
+                      disabled={isSubmitting}
+                    >
+                      <Badge variant={selected.includes(item) ? 'default' : 'outline'}>{item}</Badge>
+                    </button>
+                  ))}
                 </div>
               </div>
-            )}
+            ))}
           </div>
+        )}
+
+        {job.screeningQuestions?.map((question) => (
+          <div key={question._key}>
+            <Label htmlFor={`screening-${question._key}`}>{question.prompt} *</Label>
+            <div className="mt-2">{answerInput(question)}</div>
+          </div>
+        ))}
+
+        {/* Honeypot: hidden from people, including screen reader users */}
+        <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+          <label htmlFor="website">Website</label>
+          <input id="website" ref={honeypotRef} type="text" tabIndex={-1} autoComplete="off" />
         </div>
 
         <div>
@@ -251,7 +440,7 @@ export default function ApplicationForm({ job, onSuccess, onCancel }: Applicatio
       <div className="flex gap-3">
         <Button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || isUploading}
           className="flex-1"
         >
           {isSubmitting ? (
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarCheck, Clock, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import type { InterviewBooking } from '@/types';
+
+interface OpenSlot {
+  _id: string;
+  startsAt: string;
+  endsAt: string;
+  location?: string;
+}
+
+interface InterviewSchedulerProps {
+  token: string;
+  applicantName: string;
+  jobTitle: string;
+  companyName: string;
+  // Current booking, if any
+  interview?: InterviewBooking;
+  slots: OpenSlot[];
+}
+
+// "Tuesday, October 20"
+function formatDay(value: string) {
+  return format(new Date(value), 'EEEE, MMMM d');
+}
+
+// "9:00 AM - 9:30 AM"
+function formatTimeRange({ startsAt, endsAt }: { startsAt: string; endsAt: string }) {
+  return `${format(new Date(startsAt), 'h:mm a')} - ${format(new Date(endsAt), 'h:mm a')}`;
+}
+
+export default function InterviewScheduler({
+  token,
+  applicantName,
+  jobTitle,
+  companyName,
+  interview,
+  slots,
+}: InterviewSchedulerProps) {
+  const router = useRouter();
+  const [pendingSlotId, setPendingSlotId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const isBusy = pendingSlotId !== null || isCancelling;
+
+  // Slots are listed in start order, so days come out in order too
+  const days = slots.reduce<Array<{ day: string; slots: OpenSlot[] }>>((groups, slot) => {
+    const day = formatDay(slot.startsAt);
+    const group = groups.find((item) => item.day === day);
+    if (group) group.slots.push(slot);
+    else groups.push({ day, slots: [slot] });
+    return groups;
+  }, []);
+
+  const book = async (slot: OpenSlot) => {
+    if (interview) {
+      const confirmed = confirm(
+        `Move your interview to ${formatDay(slot.startsAt)}, ${formatTimeRange(slot)}?`
+      );
+      if (!confirmed) return;
+    }
+
+    setPendingSlotId(slot._id);
+    try {
+      const response = await fetch(`/api/interviews/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slotId: slot._id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to book interview');
+      }
+
+      // Pick up the booking, or drop a slot someone else just took
+      router.refresh();
+    } catch (error) {
+      console.error('Error booking interview:', error);
+    } finally {
+      setPendingSlotId(null);
+    }
+  };
+
+  const cancel = async () => {
+    if (!confirm('Cancel your interview?')) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/interviews/${token}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to cancel interview');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error cancelling interview:', error);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Schedule Your Interview</h1>
+        <p className="text-gray-600 mt-2">
+          Hi {applicantName}, pick a time to interview for {jobTitle} at {companyName}.
+        </p>
+      </div>
+
+      {interview && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="h-5 w-5 text-green-600" />
+              Your Interview
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-gray-400" />
+              {formatDay(interview.startsAt)}, {formatTimeRange(interview)}
+            </p>
+            {interview.location && (
+              <p className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-gray-400" />
+                {interview.location}
+              </p>
+            )}
+            <p className="text-sm text-gray-500">
+              A calendar invite was emailed to you. To reschedule, pick another time below.
+            </p>
+            <Button variant="outline" disabled={isBusy} onClick={cancel}>
+              {isCancelling ? 'Cancelling...' : 'Cancel Interview'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{interview ? 'Other Available Times' : 'Available Times'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {days.length === 0 ? (
+            <p className="text-gray-500">
+              There are no open times right now. Please check back later or contact {companyName}.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {days.map(({ day, slots: daySlots }) => (
+                <div key={day}>
+                  <h3 className="font-medium mb-2">{day}</h3>
+                  <ul className="space-y-2">
+                    {daySlots.map((slot) => (
+                      <li
+                        key={slot._id}
+                        className="flex items-center justify-between gap-4 rounded-md border p-3"
+                      >
+                        <div>
+                          <p className="text-sm font-medium">{formatTimeRange(slot)}</p>
+                          {slot.location && (
+                            <p className="text-xs text-gray-500">{slot.location}</p>
+                          )}
+                        </div>
+                        <Button size="sm" disabled={isBusy} onClick={() => book(slot)}>
+                          {pendingSlotId === slot._id
+                            ? 'Booking...'
+                            : interview ? 'Switch to This Time' : 'Book'}
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
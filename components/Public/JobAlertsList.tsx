@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Search, Trash2 } from 'lucide-react';
+import { alertFrequencyConfig, toJobsSearchQuery } from '@/lib/saved-searches';
+import { ALERT_FREQUENCIES, type AlertFrequency } from '@/lib/validations/job';
+import type { SavedSearch } from '@/lib/data';
+import type { JobCategory } from '@/types';
+
+interface JobAlertsListProps {
+  initialSearches: SavedSearch[];
+  categories: JobCategory[];
+}
+
+export default function JobAlertsList({ initialSearches, categories }: JobAlertsListProps) {
+  const { toast } = useToast();
+  const [searches, setSearches] = useState(initialSearches);
+
+  const describeFilters = ({ filters }: SavedSearch) =>
+    [
+      filters.search && `"${filters.search}"`,
+      filters.category &&
+        (categories.find((category) => category.slug.current === filters.category)?.name || filters.category),
+      filters.location,
+      filters.jobType,
+      filters.experienceLevel,
+      filters.salaryMin > 0 && `$${filters.salaryMin.toLocaleString('en-US')}+`,
+    ].filter((value): value is string => !!value);
+
+  const handleFrequencyChange = async (search: SavedSearch, frequency: AlertFrequency) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${search._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ frequency }),
+      });
+
+      if (!response.ok) throw new Error('Update failed');
+
+      setSearches(searches.map((item) => (item._id === search._id ? { ...item, frequency } : item)));
+      toast({
+        title: 'Alert updated',
+        description: `"${search.name}": ${alertFrequencyConfig[frequency].label.toLowerCase()}.`,
+      });
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the alert. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    const confirmed = confirm(`Stop alerts for "${search.name}" and delete the search?`);
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/saved-searches/${search._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) throw new Error('Delete failed');
+
+      setSearches(searches.filter((item) => item._id !== search._id));
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the search. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (searches.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-gray-500">You have no saved searches yet.</p>
+          <Link href="/jobs">
+            <Button variant="outline">
+              <Search className="mr-2 h-4 w-4" />
+              Browse jobs
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {searches.map((search) => {
+        const query = toJobsSearchQuery(search.filters);
+        const filterLabels = describeFilters(search);
+
+        return (
+          <Card key={search._id}>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1 min-w-0 space-y-2">
+                <Link
+                  href={`/jobs${query ? `?${query}` : ''}`}
+                  className="font-semibold text-gray-900 hover:text-blue-600"
+                >
+                  {search.name}
+                </Link>
+                <div className="flex flex-wrap gap-2">
+                  {filterLabels.length > 0 ? (
+                    filterLabels.map((label) => (
+                      <Badge key={label} variant="secondary" className="capitalize">
+                        {label}
+                      </Badge>
+                    ))
+                  ) : (
+                    <Badge variant="secondary">All jobs</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Saved {format(new Date(search.createdAt), 'MMM d, yyyy')}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Select
+                  value={search.frequency}
+                  onValueChange={(value) => handleFrequencyChange(search, value as AlertFrequency)}
+                >
+                  <SelectTrigger className="w-[210px]" aria-label={`Alert frequency for ${search.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_FREQUENCIES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {alertFrequencyConfig[option].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete ${search.name}`}
+                  onClick={() => handleDelete(search)}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
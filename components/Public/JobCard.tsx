@@ -15,6 +15,7 @@ import {
 import { Job } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import { urlFor } from '@/lib/sanity';
+import SaveJobButton from './SaveJobButton';
 
 interface JobCardProps {
   job: Job;
@@ -111,8 +112,9 @@ export default function JobCard({ job }: JobCardProps) {
                 </p>
               </div>
 
-              {/* Apply Button */}
-              <div className="flex-shrink-0">
+              {/* Save and Apply Buttons */}
+              <div className="flex flex-shrink-0 gap-2">
+                <SaveJobButton jobId={job._id} jobTitle={job.title} />
                 <Link href={`/jobs/${job.slug.current}`}>
                   <Button>Apply Now</Button>
                 </Link>
@@ -1,6 +1,5 @@
 'use client';
 
-import { useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { PortableText } from '@portabletext/react';
@@ -19,13 +18,13 @@ import {
   CheckCircle2,
   AlertCircle,
   Share2,
-  Bookmark,
   Globe,
 } from 'lucide-react';
 import { Job } from '@/types';
 import { formatDistanceToNow, format } from 'date-fns';
 import { urlFor } from '@/lib/sanity';
 import { useToast } from '@/components/ui/use-toast';
+import SaveJobButton from './SaveJobButton';
 
 interface JobDetailContentProps {
   job: Job;
@@ -33,7 +32,6 @@ interface JobDetailContentProps {
 
 export default function JobDetailContent({ job }: JobDetailContentProps) {
   const { toast } = useToast();
-  const [isSaved, setIsSaved] = useState(false);
 
   const handleShare = async () => {
     if (navigator.share) {
@@ -56,16 +54,6 @@ export default function JobDetailContent({ job }: JobDetailContentProps) {
     }
   };
 
-  const handleSave = () => {
-    setIsSaved(!isSaved);
-    toast({
-      title: isSaved ? 'Job removed' : 'Job saved!',
-      description: isSaved 
-        ? 'Job has been removed from your saved jobs.'
-        : 'Job has been saved to your profile.',
-    });
-  };
-
   const salaryDisplay = job.showSalary && job.salaryMin
     ? `$${job.salaryMin.toLocaleString()}${
         job.salaryMax ? ` - $${job.salaryMax.toLocaleString()}` : '+'
@@ -114,13 +102,7 @@ export default function JobDetailContent({ job }: JobDetailContentProps) {
               >
                 <Share2 className="h-4 w-4" />
               </Button>
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleSave}
-              >
-                <Bookmark className={`h-4 w-4 ${isSaved ? 'fill-current' : ''}`} />
-              </Button>
+              <SaveJobButton jobId={job._id} jobTitle={job.title} />
             </div>
           </div>
 
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import JobCard from './JobCard';
 import JobFilter from './JobFilter';
 import JobMap from './JobMap';
+import SaveSearchButton from './SaveSearchButton';
 import { 
   Search, 
   MapIcon, 
@@ -117,6 +118,7 @@ export default function JobListingContent({
                   className="pl-10"
                 />
               </div>
+              <SaveSearchButton filters={filters} categories={categories} />
               <Button
                 variant="outline"
                 onClick={toggleView}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect } from 'react';
+
+interface JobViewTrackerProps {
+  jobId: string;
+}
+
+// Reports a job view after hydration so crawlers and cached renders don't count
+export default function JobViewTracker({ jobId }: JobViewTrackerProps) {
+  useEffect(() => {
+    const body = JSON.stringify({ jobId });
+
+    if (navigator.sendBeacon?.('/api/views', new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+
+    fetch('/api/views', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // View tracking is best effort
+    });
+  }, [jobId]);
+
+  return null;
+}
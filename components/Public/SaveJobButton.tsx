@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { Bookmark } from 'lucide-react';
+import { useSavedJobs } from '@/hooks/useSavedJobs';
+
+interface SaveJobButtonProps {
+  jobId: string;
+  jobTitle: string;
+}
+
+export default function SaveJobButton({ jobId, jobTitle }: SaveJobButtonProps) {
+  const { toast } = useToast();
+  const { isSignedIn, canSave, isSaved, toggleSaved } = useSavedJobs();
+  const [isLoading, setIsLoading] = useState(false);
+  const saved = isSaved(jobId);
+
+  // Saving is for job seekers; employers don't get the button
+  if (isSignedIn && !canSave) return null;
+
+  const handleClick = async () => {
+    if (!isSignedIn) {
+      toast({
+        title: 'Sign in required',
+        description: 'Please sign in to save jobs and come back to them later.',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const nowSaved = await toggleSaved(jobId);
+      toast({
+        title: nowSaved ? 'Job saved!' : 'Job removed',
+        description: nowSaved
+          ? `${jobTitle} is in your saved jobs.`
+          : `${jobTitle} was removed from your saved jobs.`,
+      });
+    } catch (error) {
+      console.error('Error saving job:', error);
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="icon"
+      onClick={handleClick}
+      disabled={isLoading}
+      aria-pressed={saved}
+      aria-label={saved ? `Remove ${jobTitle} from saved jobs` : `Save ${jobTitle}`}
+    >
+      <Bookmark className={`h-4 w-4 ${saved ? 'fill-current' : ''}`} />
+    </Button>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { BellPlus, Loader2 } from 'lucide-react';
+import { alertFrequencyConfig, describeSearch } from '@/lib/saved-searches';
+import { ALERT_FREQUENCIES, type AlertFrequency, type JobSearchFilters } from '@/lib/validations/job';
+import type { JobCategory } from '@/types';
+
+interface SaveSearchButtonProps {
+  filters: JobSearchFilters;
+  categories: JobCategory[];
+}
+
+// Save the current /jobs search as a job alert
+export default function SaveSearchButton({ filters, categories }: SaveSearchButtonProps) {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<AlertFrequency>('daily');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Employers have their own saved views on the dashboard
+  if (session && session.user.role !== 'jobseeker') return null;
+
+  const openDialog = () => {
+    const category = categories.find((item) => item.slug.current === filters.category);
+    setName(describeSearch(filters, category?.name));
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, filters, frequency }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: 'Search not saved',
+          description: data.error || 'Something went wrong. Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      toast({
+        title: 'Search saved',
+        description: `We'll email you new jobs for "${data.name}". Manage your alerts under Job Alerts.`,
+      });
+    } catch (error) {
+      console.error('Error saving search:', error);
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <Link href="/auth/signin">
+        <Button variant="outline" className="sm:w-auto">
+          <BellPlus className="mr-2 h-4 w-4" />
+          Save search
+        </Button>
+      </Link>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog} className="sm:w-auto">
+        <BellPlus className="mr-2 h-4 w-4" />
+        Save search
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Get an email when new jobs matching these filters are posted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-frequency">Email me</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as AlertFrequency)}>
+                <SelectTrigger id="saved-search-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_FREQUENCIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {alertFrequencyConfig[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save search
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
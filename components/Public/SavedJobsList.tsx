@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertCircle, Clock, MapPin, Search, Trash2 } from 'lucide-react';
+import { getSavedJobNotice } from '@/lib/saved-jobs';
+import type { SavedJob } from '@/lib/data';
+
+interface SavedJobsListProps {
+  initialSavedJobs: SavedJob[];
+}
+
+export default function SavedJobsList({ initialSavedJobs }: SavedJobsListProps) {
+  const { toast } = useToast();
+  const [savedJobs, setSavedJobs] = useState(initialSavedJobs);
+
+  const handleRemove = async (saved: SavedJob) => {
+    try {
+      const response = await fetch(`/api/saved-jobs/${saved.job._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) throw new Error('Remove failed');
+
+      setSavedJobs(savedJobs.filter((item) => item._id !== saved._id));
+    } catch (error) {
+      console.error('Error removing saved job:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the job. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (savedJobs.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-gray-500">
+            You haven&apos;t saved any jobs yet. Use the bookmark button on a job to keep it here.
+          </p>
+          <Link href="/jobs">
+            <Button variant="outline">
+              <Search className="mr-2 h-4 w-4" />
+              Browse jobs
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {savedJobs.map((saved) => {
+        const { job } = saved;
+        const notice = getSavedJobNotice(job);
+        const isClosed = notice?.tone === 'closed';
+
+        return (
+          <Card key={saved._id} className={isClosed ? 'bg-gray-50' : undefined}>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1 min-w-0 space-y-1">
+                <Link
+                  href={`/jobs/${job.slug.current}`}
+                  className={`font-semibold hover:text-blue-600 ${isClosed ? 'text-gray-500' : 'text-gray-900'}`}
+                >
+                  {job.title}
+                </Link>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                  <span>{job.company.name}</span>
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    {job.location.city}, CO
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Saved {formatDistanceToNow(new Date(saved.savedAt), { addSuffix: true })}
+                </p>
+                {notice && (
+                  <Badge
+                    variant={isClosed ? 'secondary' : 'outline'}
+                    className={`gap-1 ${isClosed ? '' : 'border-amber-300 bg-amber-50 text-amber-800'}`}
+                  >
+                    {isClosed ? <AlertCircle className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                    {notice.message}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                {!isClosed && (
+                  <Link href={`/jobs/${job.slug.current}`}>
+                    <Button>Apply Now</Button>
+                  </Link>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${job.title} from saved jobs`}
+                  onClick={() => handleRemove(saved)}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface UnsubscribeConfirmProps {
+  token: string;
+}
+
+// Deletes the saved search only when the reader confirms, so link scanners
+// that open the email's links don't unsubscribe anyone
+export default function UnsubscribeConfirm({ token }: UnsubscribeConfirmProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleUnsubscribe = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/saved-searches/unsubscribe/${token}`, {
+        method: 'POST',
+      });
+
+      if (response.status === 400) {
+        router.push('/alerts/unsubscribed?invalid=1');
+        return;
+      }
+      if (!response.ok) throw new Error('Unsubscribe failed');
+
+      router.push('/alerts/unsubscribed');
+    } catch (error) {
+      console.error('Error unsubscribing from job alert:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to unsubscribe. Please try again.',
+        variant: 'destructive',
+      });
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Button onClick={handleUnsubscribe} disabled={isSubmitting}>
+      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      Unsubscribe
+    </Button>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { create } from 'zustand';
+
+interface SavedJobsState {
+  jobIds: string[];
+  status: 'idle' | 'loading' | 'loaded';
+  load: () => Promise<void>;
+  setSaved: (jobId: string, saved: boolean) => void;
+}
+
+// Shared by every save button on the page, so the list is fetched once
+const useSavedJobsStore = create<SavedJobsState>((set, get) => ({
+  jobIds: [],
+  status: 'idle',
+
+  async load() {
+    if (get().status !== 'idle') return;
+    set({ status: 'loading' });
+
+    try {
+      const response = await fetch('/api/saved-jobs');
+      if (!response.ok) throw new Error('Failed to fetch saved jobs');
+
+      const { jobIds } = await response.json();
+      set({ jobIds, status: 'loaded' });
+    } catch (error) {
+      console.error('Error fetching saved jobs:', error);
+      set({ status: 'idle' });
+    }
+  },
+
+  setSaved(jobId, saved) {
+    set(({ jobIds }) => ({
+      jobIds: saved ? [...jobIds.filter((id) => id !== jobId), jobId] : jobIds.filter((id) => id !== jobId),
+    }));
+  },
+}));
+
+export function useSavedJobs() {
+  const { data: session } = useSession();
+  const canSave = session?.user.role === 'jobseeker';
+  const { jobIds, load, setSaved } = useSavedJobsStore();
+
+  useEffect(() => {
+    if (canSave) load();
+  }, [canSave, load]);
+
+  // Flips the button straight away and flips it back if the request fails.
+  // Resolves whether the job is now saved
+  const toggleSaved = async (jobId: string) => {
+    const saved = !jobIds.includes(jobId);
+    setSaved(jobId, saved);
+
+    try {
+      const response = saved
+        ? await fetch('/api/saved-jobs', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jobId }),
+          })
+        : await fetch(`/api/saved-jobs/${jobId}`, { method: 'DELETE' });
+
+      if (!response.ok) throw new Error(saved ? 'Save failed' : 'Remove failed');
+      return saved;
+    } catch (error) {
+      setSaved(jobId, !saved);
+      throw error;
+    }
+  };
+
+  return {
+    isSignedIn: !!session,
+    canSave,
+    isSaved: (jobId: string) => jobIds.includes(jobId),
+    toggleSaved,
+  };
+}
@@ -0,0 +1,57 @@
+import { getRepository } from '@/lib/data';
+import { sendTemplateEmail, type EmailResult } from '@/lib/email/client';
+import { env } from '@/lib/env';
+import type { ApplicationStatus } from '@/lib/application-status';
+import type { JobApplication } from '@/types';
+
+// Emails about an application itself. Sending failures are logged rather than
+// failing the request that triggered them
+
+function logFailures(results: EmailResult[], label: string) {
+  results
+    .filter((result) => !result.success)
+    .forEach((result) => console.error(`${label} email failed:`, result.error));
+}
+
+// Confirm to the applicant and let the hiring company know
+export async function sendApplicationSubmittedEmails(application: JobApplication) {
+  const { applicantInfo, job } = application;
+  const recipients = await getRepository().companies.listContactEmails(job.company._id);
+
+  const results = await Promise.all([
+    sendTemplateEmail(applicantInfo.email, 'applicationConfirmation', {
+      applicantName: applicantInfo.name,
+      jobTitle: job.title,
+      companyName: job.company.name,
+      jobUrl: `${env.nextAuth.url}/jobs/${job.slug.current}`,
+    }),
+    recipients.length > 0
+      ? sendTemplateEmail(recipients, 'applicationReceived', {
+          jobTitle: job.title,
+          applicantName: applicantInfo.name,
+          applicantEmail: applicantInfo.email,
+          applicantPhone: applicantInfo.phone,
+          knockedOut: !!application.knockedOut,
+          inboxUrl: `${env.nextAuth.url}/dashboard/applications?job=${job._id}`,
+        })
+      : Promise.resolve({ success: true }),
+  ]);
+
+  logFailures(results, 'Application');
+}
+
+// Tell the applicant their application moved on. Moves back to new aren't
+// worth an email
+export async function sendStatusChangedEmail(application: JobApplication, status: ApplicationStatus) {
+  if (status === 'new') return;
+
+  const { applicantInfo, job } = application;
+  const result = await sendTemplateEmail(applicantInfo.email, 'applicationStatusChanged', {
+    applicantName: applicantInfo.name,
+    jobTitle: job.title,
+    companyName: job.company.name,
+    status,
+  });
+
+  logFailures([result], 'Status change');
+}
@@ -0,0 +1,83 @@
+import type { ApplicationStatusChange, JobApplication } from '@/types';
+
+export type ApplicationStatus = JobApplication['status'];
+
+// Display order follows the hiring pipeline
+export const applicationStatusConfig: Record<
+  ApplicationStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }
+> = {
+  new: { label: 'New', variant: 'default' },
+  reviewed: { label: 'Reviewed', variant: 'secondary' },
+  interviewing: { label: 'Interviewing', variant: 'outline' },
+  hired: { label: 'Hired', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+};
+
+// Stages each stage normally moves on to. Any other move, such as taking a
+// hired applicant back to new, needs an explicit override
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  new: ['reviewed', 'interviewing', 'rejected'],
+  reviewed: ['interviewing', 'rejected'],
+  interviewing: ['hired', 'rejected'],
+  hired: [],
+  rejected: ['reviewed'],
+};
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus) {
+  return APPLICATION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export interface StageSpan {
+  status: ApplicationStatus;
+  enteredAt: string;
+  // Unset for the current stage
+  leftAt?: string;
+  change: ApplicationStatusChange;
+  // Milliseconds spent in the stage, up to `now` for the current one
+  duration: number;
+}
+
+/**
+ * Stages the application has been through, oldest first. Applications made
+ * before history was kept have no spans.
+ */
+export function getStageSpans(
+  application: Pick<JobApplication, 'statusHistory'>,
+  now = new Date()
+): StageSpan[] {
+  const history = application.statusHistory || [];
+
+  return history.map((change, index) => {
+    const leftAt = history[index + 1]?.at;
+    return {
+      status: change.to,
+      enteredAt: change.at,
+      leftAt,
+      change,
+      duration: new Date(leftAt || now).getTime() - new Date(change.at).getTime(),
+    };
+  });
+}
+
+// When the applicant was most recently moved to hired
+export function getHiredAt(application: Pick<JobApplication, 'statusHistory'>) {
+  return [...(application.statusHistory || [])].reverse().find((change) => change.to === 'hired')?.at;
+}
+
+/**
+ * Milliseconds from applying to being hired, or null when there is no
+ * recorded hire.
+ */
+export function getTimeToHire(application: Pick<JobApplication, 'appliedDate' | 'statusHistory'>) {
+  const hiredAt = getHiredAt(application);
+  return hiredAt ? new Date(hiredAt).getTime() - new Date(application.appliedDate).getTime() : null;
+}
+
+// First history entry, recorded when the applicant submits
+export function getSubmittedChange(
+  applicantInfo: JobApplication['applicantInfo'],
+  at: string
+): ApplicationStatusChange {
+  return { to: 'new', at, by: { id: 'applicant', name: applicantInfo.name, email: applicantInfo.email } };
+}
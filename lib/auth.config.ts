@@ -1,6 +1,6 @@
 import type { NextAuthConfig } from 'next-auth';
 import Google from 'next-auth/providers/google';
-import { client } from './sanity.client';
+import { getRepository } from './data';
 
 export const authConfig: NextAuthConfig = {
   providers: [
@@ -17,19 +17,17 @@ export const authConfig: NextAuthConfig = {
     async signIn({ user, account, profile }) {
       if (account?.provider === 'google') {
         try {
-          // Check if user exists in Sanity
-          const existingUser = await client.fetch(
-            `*[_type == "user" && email == $email][0]`,
-            { email: user.email }
-          );
+          const { users } = getRepository();
+
+          // Check if user exists
+          const existingUser = await users.getByEmail(user.email!);
 
           if (!existingUser) {
-            // Create new user in Sanity
-            await client.create({
-              _type: 'user',
-              email: user.email,
-              name: user.name,
-              image: user.image,
+            // Create new user
+            await users.create({
+              email: user.email!,
+              name: user.name || undefined,
+              image: user.image || undefined,
               role: 'jobseeker', // Default role
               createdAt: new Date().toISOString(),
             });
@@ -44,17 +42,8 @@ export const authConfig: NextAuthConfig = {
     },
     async session({ session, token }) {
       if (session.user?.email) {
-        // Fetch user data from Sanity
-        const userData = await client.fetch(
-          `*[_type == "user" && email == $email][0]{
-            _id,
-            email,
-            name,
-            role,
-            companyId
-          }`,
-          { email: session.user.email }
-        );
+        // Fetch stored user data
+        const userData = await getRepository().users.getByEmail(session.user.email);
 
         if (userData) {
           session.user = {
@@ -0,0 +1,82 @@
+// Delimiters spreadsheet apps use when saving as CSV, depending on locale
+const DELIMITERS = [',', ';', '\t'];
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and line breaks, a UTF-8 BOM, and the comma, semicolon
+ * or tab separated files Excel and Google Sheets export. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCell(value: CsvValue) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV line, terminated with CRLF as spreadsheet apps expect.
+ */
+export function toCsvRow(values: CsvValue[]) {
+  return `${values.map(escapeCell).join(',')}\r\n`;
+}
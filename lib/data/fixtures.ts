@@ -0,0 +1,519 @@
+import type { Company, JobCategory } from '@/types';
+import type {
+  ApplicationDocument,
+  JobDocument,
+  JobTemplateDocument,
+  JobViewStat,
+  UserRecord
+} from './types';
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000).toISOString();
+
+export const fixtureJobs: JobDocument[] = [
+  {
+    _id: "1",
+    _type: "jobPosting",
+    title: "Construction Foreman",
+    slug: { current: "construction-foreman-abc" },
+    company: { _type: "reference", _ref: "company1" },
+    description: [],
+    requirements: "5+ years experience in construction management",
+    salaryType: "hourly",
+    salaryMin: 35,
+    salaryMax: 45,
+    showSalary: true,
+    location: {
+      city: "Denver",
+      county: "Denver County",
+      zipCode: "80202"
+    },
+    remoteOptions: "onsite",
+    jobType: "full-time",
+    category: { _type: "reference", _ref: "cat1" },
+    experienceLevel: "experienced",
+    benefits: ["Health Insurance", "401k"],
+    isUrgent: true,
+    featured: false,
+    status: "published",
+    publishedAt: hoursAgo(0),
+    viewCount: 124,
+    applicationCount: 3
+  },
+  {
+    _id: "2",
+    _type: "jobPosting",
+    title: "Electrician",
+    slug: { current: "electrician-lightning" },
+    company: { _type: "reference", _ref: "company2" },
+    description: [],
+    requirements: "Licensed electrician with 3+ years experience",
+    salaryType: "hourly",
+    salaryMin: 28,
+    salaryMax: 38,
+    showSalary: true,
+    location: {
+      city: "Boulder",
+      county: "Boulder County",
+      zipCode: "80301"
+    },
+    remoteOptions: "onsite",
+    jobType: "full-time",
+    category: { _type: "reference", _ref: "cat2" },
+    experienceLevel: "intermediate",
+    benefits: ["Health Insurance", "Paid Time Off"],
+    isUrgent: false,
+    featured: true,
+    status: "published",
+    publishedAt: hoursAgo(24),
+    viewCount: 89,
+    applicationCount: 2
+  },
+  {
+    _id: "3",
+    _type: "jobPosting",
+    title: "HVAC Technician",
+    slug: { current: "hvac-tech-cool-air" },
+    company: { _type: "reference", _ref: "company3" },
+    description: [],
+    requirements: "HVAC certification required",
+    salaryType: "hourly",
+    salaryMin: 25,
+    salaryMax: 35,
+    showSalary: true,
+    location: {
+      city: "Colorado Springs",
+      county: "El Paso County",
+      zipCode: "80905"
+    },
+    remoteOptions: "onsite",
+    jobType: "full-time",
+    category: { _type: "reference", _ref: "cat3" },
+    experienceLevel: "entry",
+    benefits: ["Health Insurance"],
+    isUrgent: false,
+    featured: false,
+    status: "published",
+    publishedAt: hoursAgo(48),
+    viewCount: 45,
+    applicationCount: 1
+  }
+];
+
+export const fixtureCategories: JobCategory[] = [
+  {
+    _id: "cat1",
+    name: "Construction",
+    slug: { current: "construction" },
+    description: "Construction and building trades",
+  },
+  {
+    _id: "cat2",
+    name: "Electrical",
+    slug: { current: "electrical" },
+    description: "Electrical work and installation",
+  },
+  {
+    _id: "cat3",
+    name: "HVAC",
+    slug: { current: "hvac" },
+    description: "Heating, ventilation, and air conditioning",
+  },
+  {
+    _id: "cat4",
+    name: "Plumbing",
+    slug: { current: "plumbing" },
+    description: "Plumbing installation and repair",
+  },
+  {
+    _id: "cat5",
+    name: "Manufacturing",
+    slug: { current: "manufacturing" },
+    description: "Manufacturing and production jobs",
+  }
+];
+
+export const fixtureCompanies: Company[] = [
+  {
+    _id: "company1",
+    name: "ABC Construction",
+    slug: { current: "abc-construction" },
+    description: [
+      {
+        _type: 'block',
+        children: [
+          {
+            _type: 'span',
+            text: 'ABC Construction is a leading general contractor in Colorado, specializing in commercial and residential construction projects. With over 25 years of experience, we pride ourselves on quality workmanship and employee development.'
+          }
+        ]
+      }
+    ],
+    website: "https://abcconstruction.com",
+    email: "careers@abcconstruction.com",
+    phone: "(303) 555-0123",
+    size: "51-200",
+    locations: [
+      { city: "Denver", state: "CO", zipCode: "80202" },
+      { city: "Aurora", state: "CO", zipCode: "80012" }
+    ],
+    benefitsOffered: [
+      "Health Insurance",
+      "Dental Insurance",
+      "401(k) with company match",
+      "Paid time off",
+      "Training opportunities",
+      "Safety bonuses"
+    ],
+    verified: true,
+    ownerId: "user1",
+    createdAt: "2020-01-15T00:00:00.000Z"
+  },
+  {
+    _id: "company2",
+    name: "Lightning Electric Co.",
+    slug: { current: "lightning-electric" },
+    description: [
+      {
+        _type: 'block',
+        children: [
+          {
+            _type: 'span',
+            text: 'Lightning Electric Co. has been serving the Boulder area for over 20 years. We specialize in residential and commercial electrical work, from new installations to service calls. Our team of licensed electricians is committed to safety and excellence.'
+          }
+        ]
+      }
+    ],
+    website: "https://lightningelectric.com",
+    email: "jobs@lightningelectric.com",
+    phone: "(303) 555-0456",
+    size: "11-50",
+    locations: [
+      { city: "Boulder", state: "CO", zipCode: "80301" },
+      { city: "Westminster", state: "CO", zipCode: "80031" }
+    ],
+    benefitsOffered: [
+      "Health Insurance",
+      "Paid time off",
+      "Tool allowance",
+      "Continuing education",
+      "Performance bonuses"
+    ],
+    verified: true,
+    ownerId: "user2",
+    createdAt: "2018-06-01T00:00:00.000Z"
+  },
+  {
+    _id: "company3",
+    name: "Cool Air Services",
+    slug: { current: "cool-air-services" },
+    description: [
+      {
+        _type: 'block',
+        children: [
+          {
+            _type: 'span',
+            text: 'Cool Air Services provides comprehensive HVAC installation, maintenance, and repair services throughout Colorado Springs and surrounding areas. We are a family-owned business dedicated to keeping our customers comfortable year-round.'
+          }
+        ]
+      }
+    ],
+    website: "https://coolairservices.com",
+    email: "careers@coolairservices.com",
+    phone: "(719) 555-0789",
+    size: "11-50",
+    locations: [
+      { city: "Colorado Springs", state: "CO", zipCode: "80905" }
+    ],
+    benefitsOffered: [
+      "Health Insurance",
+      "Paid holidays",
+      "Vehicle provided",
+      "Flexible schedule"
+    ],
+    verified: false,
+    ownerId: "user3",
+    createdAt: "2019-03-15T00:00:00.000Z"
+  },
+  {
+    _id: "company4",
+    name: "Rocky Mountain Plumbing",
+    slug: { current: "rocky-mountain-plumbing" },
+    description: [
+      {
+        _type: 'block',
+        children: [
+          {
+            _type: 'span',
+            text: 'Rocky Mountain Plumbing is a full-service plumbing company serving residential and commercial customers across the Denver metro area. We offer emergency services, new construction, and remodeling projects.'
+          }
+        ]
+      }
+    ],
+    website: "https://rockymountainplumbing.com",
+    email: "hr@rockymountainplumbing.com",
+    phone: "(303) 555-0321",
+    size: "11-50",
+    locations: [
+      { city: "Lakewood", state: "CO", zipCode: "80215" },
+      { city: "Arvada", state: "CO", zipCode: "80003" }
+    ],
+    benefitsOffered: [
+      "Health Insurance",
+      "401(k)",
+      "Paid time off",
+      "On-call pay",
+      "Tool reimbursement"
+    ],
+    verified: true,
+    ownerId: "user4",
+    createdAt: "2017-09-01T00:00:00.000Z"
+  },
+  {
+    _id: "company5",
+    name: "Front Range Manufacturing",
+    slug: { current: "front-range-manufacturing" },
+    description: [
+      {
+        _type: 'block',
+        children: [
+          {
+            _type: 'span',
+            text: 'Front Range Manufacturing is a leading precision manufacturing company producing components for aerospace, automotive, and medical industries. We offer excellent opportunities for growth and advancement in a modern facility.'
+          }
+        ]
+      }
+    ],
+    website: "https://frontrangemfg.com",
+    email: "careers@frontrangemfg.com",
+    phone: "(970) 555-0654",
+    size: "200+",
+    locations: [
+      { city: "Fort Collins", state: "CO", zipCode: "80525" }
+    ],
+    benefitsOffered: [
+      "Comprehensive Health Insurance",
+      "Dental and Vision",
+      "401(k) with 6% match",
+      "Paid time off",
+      "Life insurance",
+      "Tuition reimbursement",
+      "Employee stock purchase plan"
+    ],
+    verified: true,
+    ownerId: "user5",
+    createdAt: "2015-04-01T00:00:00.000Z"
+  }
+];
+
+// Who recorded status changes in the sample history
+const applicant = (name: string, email: string) => ({ id: "applicant", name, email });
+const hiringManager = { id: "user1", name: "ABC Construction" };
+
+export const fixtureApplications: ApplicationDocument[] = [
+  {
+    _id: "application1",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "1" },
+    applicantInfo: {
+      name: "John Smith",
+      email: "john.smith@example.com",
+      phone: "(303) 555-0101"
+    },
+    coverMessage: "Twelve years running residential framing crews in the metro area.",
+    status: "new",
+    appliedDate: hoursAgo(2),
+    statusHistory: [
+      { to: "new", at: hoursAgo(2), by: applicant("John Smith", "john.smith@example.com") }
+    ]
+  },
+  {
+    _id: "application2",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "1" },
+    applicantInfo: {
+      name: "David Wilson",
+      email: "david.wilson@example.com",
+      phone: "(720) 555-0144"
+    },
+    status: "interviewing",
+    appliedDate: hoursAgo(72),
+    interviewDate: hoursAgo(-48),
+    statusHistory: [
+      { to: "new", at: hoursAgo(72), by: applicant("David Wilson", "david.wilson@example.com") },
+      { from: "new", to: "reviewed", at: hoursAgo(50), by: hiringManager },
+      { from: "reviewed", to: "interviewing", at: hoursAgo(26), by: hiringManager }
+    ]
+  },
+  {
+    _id: "application3",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "1" },
+    applicantInfo: {
+      name: "Luis Hernandez",
+      email: "luis.hernandez@example.com",
+      phone: "(303) 555-0178"
+    },
+    status: "hired",
+    appliedDate: hoursAgo(400),
+    interviewDate: hoursAgo(200),
+    statusHistory: [
+      { to: "new", at: hoursAgo(400), by: applicant("Luis Hernandez", "luis.hernandez@example.com") },
+      { from: "new", to: "interviewing", at: hoursAgo(330), by: hiringManager },
+      { from: "interviewing", to: "hired", at: hoursAgo(180), by: hiringManager }
+    ]
+  },
+  {
+    _id: "application4",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "2" },
+    applicantInfo: {
+      name: "Maria Garcia",
+      email: "maria.garcia@example.com",
+      phone: "(303) 555-0199"
+    },
+    coverMessage: "Journeyman electrician, licensed in Colorado since 2019.",
+    status: "reviewed",
+    appliedDate: hoursAgo(8),
+    statusHistory: [
+      { to: "new", at: hoursAgo(8), by: applicant("Maria Garcia", "maria.garcia@example.com") },
+      { from: "new", to: "reviewed", at: hoursAgo(3), by: { id: "user2", name: "Lightning Electric Co." } }
+    ]
+  },
+  {
+    _id: "application5",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "2" },
+    applicantInfo: {
+      name: "Sarah Johnson",
+      email: "sarah.johnson@example.com",
+      phone: "(720) 555-0112"
+    },
+    status: "new",
+    appliedDate: hoursAgo(24)
+  },
+  {
+    _id: "application6",
+    _type: "jobApplication",
+    job: { _type: "reference", _ref: "3" },
+    applicantInfo: {
+      name: "Kevin Brown",
+      email: "kevin.brown@example.com",
+      phone: "(719) 555-0133"
+    },
+    status: "rejected",
+    appliedDate: hoursAgo(36)
+  }
+];
+
+export const fixtureUsers: UserRecord[] = [
+  {
+    _id: "user1",
+    email: "hiring@abcconstruction.com",
+    name: "ABC Construction",
+    role: "employer",
+    companyId: "company1",
+    createdAt: "2020-01-15T00:00:00.000Z"
+  },
+  {
+    _id: "user2",
+    email: "jobs@lightningelectric.com",
+    name: "Lightning Electric Co.",
+    role: "employer",
+    companyId: "company2",
+    createdAt: "2018-06-01T00:00:00.000Z"
+  },
+  {
+    _id: "user3",
+    email: "careers@coolairservices.com",
+    name: "Cool Air Services",
+    role: "employer",
+    companyId: "company3",
+    createdAt: "2019-03-15T00:00:00.000Z"
+  },
+  {
+    _id: "user6",
+    email: "john.smith@example.com",
+    name: "John Smith",
+    role: "jobseeker",
+    createdAt: "2024-02-01T00:00:00.000Z"
+  }
+];
+
+// A week of daily view buckets per fixture job
+export const fixtureViewStats: JobViewStat[] = fixtureJobs.flatMap((job) =>
+  Array.from({ length: 7 }, (_, day): JobViewStat => {
+    const date = hoursAgo(day * 24).slice(0, 10);
+    return {
+      _id: `jobViewStat-${job._id}-${date}`,
+      _type: "jobViewStat",
+      job: { _type: "reference", _ref: job._id },
+      date,
+      count: Math.round(job.viewCount / 7)
+    };
+  })
+);
+
+export const fixtureTemplates: JobTemplateDocument[] = [
+  {
+    _id: "jobTemplate-construction",
+    _type: "jobTemplate",
+    name: "Construction Foreman",
+    category: { _type: "reference", _ref: "cat1" },
+    title: "Construction Foreman",
+    description: "Lead a crew of carpenters and laborers on residential and light commercial projects. Coordinate daily work with the superintendent, keep the site safe and clean, and make sure the schedule holds.",
+    requirements: "5+ years of construction experience with at least 2 leading crews. OSHA 30 preferred. Valid driver's license and reliable transportation.",
+    salaryType: "hourly",
+    salaryMin: 32,
+    salaryMax: 42,
+    jobType: "full-time",
+    experienceLevel: "experienced",
+    benefits: ["Health Insurance", "Paid Time Off", "401(k)", "Company Vehicle"]
+  },
+  {
+    _id: "jobTemplate-electrical",
+    _type: "jobTemplate",
+    name: "Journeyman Electrician",
+    category: { _type: "reference", _ref: "cat2" },
+    title: "Journeyman Electrician",
+    description: "Install, maintain and troubleshoot electrical systems on commercial and residential job sites. Read blueprints, bend conduit, pull wire and terminate devices to NEC and local code.",
+    requirements: "Colorado journeyman electrician license. 4+ years of field experience. Own hand tools and reliable transportation.",
+    salaryType: "hourly",
+    salaryMin: 30,
+    salaryMax: 40,
+    jobType: "full-time",
+    experienceLevel: "experienced",
+    benefits: ["Health Insurance", "Dental Insurance", "401(k) Matching", "Tool Allowance"]
+  },
+  {
+    _id: "jobTemplate-hvac",
+    _type: "jobTemplate",
+    name: "HVAC Service Technician",
+    category: { _type: "reference", _ref: "cat3" },
+    title: "HVAC Service Technician",
+    description: "Diagnose and repair heating and cooling equipment for residential and light commercial customers. Run service calls from a stocked company van and explain repair options to homeowners.",
+    requirements: "EPA 608 certification. 2+ years of HVAC service experience. Clean driving record and customer-facing communication skills.",
+    salaryType: "hourly",
+    salaryMin: 26,
+    salaryMax: 36,
+    jobType: "full-time",
+    experienceLevel: "intermediate",
+    benefits: ["Health Insurance", "Paid Time Off", "Company Vehicle", "Overtime Pay"]
+  },
+  {
+    _id: "template-company1-spring-crew",
+    _type: "jobTemplate",
+    name: "Spring Framing Crew",
+    company: { _type: "reference", _ref: "company1" },
+    category: { _type: "reference", _ref: "cat1" },
+    title: "Framing Carpenter - Spring Season",
+    description: "Join our framing crew for the spring build season on single-family homes across the Front Range. Steady hours from March through June with the chance to stay on for the summer.",
+    requirements: "1+ year of framing experience. Able to lift 50 lbs and work at heights. Own basic hand tools.",
+    salaryType: "hourly",
+    salaryMin: 22,
+    salaryMax: 28,
+    jobType: "temporary",
+    experienceLevel: "entry",
+    benefits: ["Overtime Pay", "Uniform Provided"],
+    createdAt: "2024-02-15T00:00:00.000Z"
+  }
+];
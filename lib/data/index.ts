@@ -0,0 +1,20 @@
+import { env } from '@/lib/env';
+import { createSanityRepository } from './sanity-repository';
+import { createMemoryRepository } from './memory-repository';
+import type { DataRepository } from './types';
+
+export type * from './types';
+
+// Keep a single instance per server process; the in-memory backend would
+// otherwise reset its data on every hot reload
+const globalForData = globalThis as typeof globalThis & {
+  dataRepository?: DataRepository;
+};
+
+export function getRepository(): DataRepository {
+  if (!globalForData.dataRepository) {
+    globalForData.dataRepository =
+      env.data.backend === 'memory' ? createMemoryRepository() : createSanityRepository();
+  }
+  return globalForData.dataRepository;
+}
@@ -0,0 +1,1058 @@
+import { slugify } from '@/lib/utils';
+import { getHiredAt, getSubmittedChange } from '@/lib/application-status';
+import { getScorecardAverage } from '@/lib/scorecards';
+import type { JobSearchFilters, JobSortField } from '@/lib/validations/job';
+import type { Job, Company, JobApplication, JobCategory, ResumeFile } from '@/types';
+import type { RecentActivity } from '@/types/dashboard';
+import * as fixtures from './fixtures';
+import type {
+  ApplicationDocument,
+  DataRepository,
+  InterviewSlot,
+  JobDocument,
+  JobExportFilter,
+  JobExportRow,
+  JobInput,
+  JobRevision,
+  JobTemplate,
+  JobTemplateDocument,
+  JobViewStat,
+  Reference,
+  SavedJobView,
+  SavedSearch,
+  UserRecord,
+} from './types';
+
+interface MemoryStore {
+  jobs: JobDocument[];
+  companies: Company[];
+  categories: JobCategory[];
+  applications: ApplicationDocument[];
+  users: UserRecord[];
+  viewStats: JobViewStat[];
+  templates: JobTemplateDocument[];
+  revisions: JobRevision[];
+  interviewSlots: InterviewSlot[];
+  resumeFiles: Array<ResumeFile & { data: Buffer }>;
+  savedViews: Array<SavedJobView & { user: Reference }>;
+  savedSearches: Array<SavedSearch & { user: Reference }>;
+  savedJobs: Array<{
+    _id: string;
+    user: Reference;
+    job: Reference;
+    savedAt: string;
+    deadlineReminderSentFor?: string;
+  }>;
+}
+
+export function createFixtureStore(): MemoryStore {
+  return JSON.parse(
+    JSON.stringify({
+      jobs: fixtures.fixtureJobs,
+      companies: fixtures.fixtureCompanies,
+      categories: fixtures.fixtureCategories,
+      applications: fixtures.fixtureApplications,
+      users: fixtures.fixtureUsers,
+      viewStats: fixtures.fixtureViewStats,
+      templates: fixtures.fixtureTemplates,
+      revisions: [],
+      interviewSlots: [],
+      resumeFiles: [],
+      savedViews: [],
+      savedSearches: [],
+      savedJobs: [],
+    })
+  );
+}
+
+function reference(id: string): Reference {
+  return { _type: 'reference', _ref: id };
+}
+
+function generateId(prefix: string) {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Case-insensitive stand-in for GROQ `match`
+function matches(value: string | undefined, term: string) {
+  return !!value && value.toLowerCase().includes(term.toLowerCase());
+}
+
+// Mirrors `jobSearchFilter`, less the liveness check
+function matchesJobSearch(job: Job, filters: JobSearchFilters) {
+  const { category, location, jobType, experienceLevel, salaryMin, search } = filters;
+
+  return (
+    (!category || job.category?.slug.current === category) &&
+    (!location || job.location.city === location || job.location.county === location) &&
+    (!jobType || job.jobType === jobType) &&
+    (!experienceLevel || job.experienceLevel === experienceLevel) &&
+    (!salaryMin || job.salaryMin >= salaryMin) &&
+    (!search || matches(job.title, search) || matches(job.company.name, search))
+  );
+}
+
+// Mirrors `companyJobFilter`; date ranges are inclusive of the end day
+function matchesCompanyJobFilter(job: JobDocument, filters: JobExportFilter) {
+  const inRange = (value: string | undefined, from?: string, to?: string) =>
+    (!from || (!!value && value >= from)) &&
+    (!to || (!!value && value <= `${to}T23:59:59.999Z`));
+
+  return (
+    (!filters.status || job.status === filters.status) &&
+    (!filters.search || matches(job.title, filters.search)) &&
+    inRange(job.publishedAt, filters.postedFrom, filters.postedTo) &&
+    inRange(job.expiresAt, filters.expiresFrom, filters.expiresTo)
+  );
+}
+
+function compareJobs(sort: JobSortField, direction: 'asc' | 'desc') {
+  const value = (job: JobDocument) =>
+    sort === 'title' ? job.title.toLowerCase() : (job[sort] ?? '');
+
+  return (a: JobDocument, b: JobDocument) => {
+    const [left, right] = [value(a), value(b)];
+    const order = left < right ? -1 : left > right ? 1 : a._id.localeCompare(b._id);
+    return direction === 'asc' || left === right ? order : -order;
+  };
+}
+
+function byDateDesc<T>(pick: (item: T) => string | undefined) {
+  return (a: T, b: T) =>
+    new Date(pick(b) || 0).getTime() - new Date(pick(a) || 0).getTime();
+}
+
+function isLive(job: JobDocument, now = Date.now()) {
+  return (
+    job.status === 'published' &&
+    (!job.expiresAt || new Date(job.expiresAt).getTime() > now)
+  );
+}
+
+function paginate<T>(items: T[], page: number, pageSize: number) {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+export function createMemoryRepository(store: MemoryStore = createFixtureStore()): DataRepository {
+  const findJob = (jobId: string) => store.jobs.find((job) => job._id === jobId);
+
+  const requireJob = (jobId: string) => {
+    const job = findJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    return job;
+  };
+
+  const requireApplication = (applicationId: string) => {
+    const application = store.applications.find((item) => item._id === applicationId);
+    if (!application) {
+      throw new Error(`Application ${applicationId} not found`);
+    }
+    return application;
+  };
+
+  const jobsOfCompany = (companyId: string) =>
+    store.jobs.filter((job) => job.company._ref === companyId);
+
+  const applicationsOfCompany = (companyId: string) => {
+    const jobIds = new Set(jobsOfCompany(companyId).map((job) => job._id));
+    return store.applications.filter((application) => jobIds.has(application.job._ref));
+  };
+
+  const contactEmailsOf = (companyId: string) => {
+    const company = store.companies.find((item) => item._id === companyId);
+    const employers = store.users.filter(
+      (user) => user.companyId === companyId && user.role === 'employer'
+    );
+    return [company?.email, ...employers.map((user) => user.email)].filter(
+      (email): email is string => !!email
+    );
+  };
+
+  const hydrateCompany = (company: Company): Company => {
+    const published = jobsOfCompany(company._id).filter((job) => job.status === 'published');
+    return {
+      ...company,
+      jobCount: published.length,
+      activeJobs: published.slice(0, 3).map(
+        (job) =>
+          ({
+            _id: job._id,
+            title: job.title,
+            slug: job.slug,
+            jobType: job.jobType,
+            location: job.location,
+          }) as Job
+      ),
+    };
+  };
+
+  const hydrateCategory = (category: JobCategory): JobCategory => ({
+    ...category,
+    jobCount: store.jobs.filter(
+      (job) => job.category?._ref === category._id && job.status === 'published'
+    ).length,
+  });
+
+  const hydrateJob = ({ _type, company, category, screeningQuestions, ...job }: JobDocument): Job => {
+    const owner = store.companies.find((item) => item._id === company._ref);
+    const jobCategory = store.categories.find((item) => item._id === category?._ref);
+    return {
+      ...job,
+      company: owner ? hydrateCompany(owner) : ({ _id: company._ref } as Company),
+      category: jobCategory as JobCategory,
+      // Like jobProjection, without the knockout answers, which stay server-side
+      ...(screeningQuestions && {
+        screeningQuestions: screeningQuestions.map(({ _key, prompt, kind, options }) => ({
+          _key,
+          prompt,
+          kind,
+          options,
+        })),
+      }),
+    };
+  };
+
+  const hydrateApplication = ({
+    _type,
+    job,
+    schedulingTokenHash,
+    resumeText,
+    ...application
+  }: ApplicationDocument) =>
+    ({
+      ...application,
+      job: hydrateJob(requireJob(job._ref)),
+    }) as JobApplication;
+
+  const toTemplate = ({
+    _type,
+    company,
+    category,
+    createdAt,
+    ...template
+  }: JobTemplateDocument): JobTemplate => ({
+    ...template,
+    category: category?._ref,
+    shared: !company,
+  });
+
+  const applyJobInput = (target: Partial<JobDocument>, { category, ...fields }: JobInput) => {
+    Object.assign(target, fields);
+    if (category) {
+      target.category = reference(category);
+    }
+    return target;
+  };
+
+  return {
+    backend: 'memory',
+
+    jobs: {
+      async search({ page, pageSize, ...filters }) {
+        const results = store.jobs
+          .filter((job) => isLive(job))
+          .map(hydrateJob)
+          .filter((job) => matchesJobSearch(job, filters))
+          .sort(
+            (a, b) =>
+              Number(b.featured) - Number(a.featured) ||
+              Number(b.isUrgent) - Number(a.isUrgent) ||
+              byDateDesc<Job>((job) => job.publishedAt)(a, b)
+          );
+
+        return { jobs: paginate(results, page, pageSize), total: results.length };
+      },
+
+      async getBySlug(slug) {
+        const job = store.jobs.find((item) => item.slug.current === slug);
+        return job ? hydrateJob(job) : null;
+      },
+
+      async getById(jobId) {
+        const job = findJob(jobId);
+        return job ? { ...job } : null;
+      },
+
+      async listRelated(currentSlug, categoryId, city) {
+        return store.jobs
+          .filter(
+            (job) =>
+              job.status === 'published' &&
+              job.slug.current !== currentSlug &&
+              (job.category?._ref === categoryId || job.location.city === city)
+          )
+          .sort(byDateDesc((job) => job.publishedAt))
+          .slice(0, 4)
+          .map(hydrateJob);
+      },
+
+      async listByCompanySlug(companySlug) {
+        const company = store.companies.find((item) => item.slug.current === companySlug);
+        if (!company) return [];
+        return jobsOfCompany(company._id)
+          .filter((job) => job.status === 'published')
+          .sort(byDateDesc((job) => job.publishedAt))
+          .map(hydrateJob);
+      },
+
+      async listPublishedSlugs() {
+        return store.jobs
+          .filter((job) => job.status === 'published')
+          .map((job) => job.slug.current);
+      },
+
+      async listForCompany(companyId, { page, pageSize, sort, direction, ...filters }) {
+        const results = jobsOfCompany(companyId)
+          .filter((job) => matchesCompanyJobFilter(job, filters))
+          .sort(compareJobs(sort, direction));
+
+        return {
+          total: results.length,
+          jobs: paginate(results, page, pageSize).map((job) => ({
+            _id: job._id,
+            title: job.title,
+            status: job.status,
+            viewCount: job.viewCount,
+            applicationCount: job.applicationCount,
+            publishAt: job.publishAt,
+            publishedAt: job.publishedAt,
+            applicationDeadline: job.applicationDeadline,
+            expiresAt: job.expiresAt,
+            repostOf: job.repostOf?._ref,
+            slug: job.slug.current,
+          })),
+        };
+      },
+
+      async getForCompany(jobId, companyId) {
+        const job = findJob(jobId);
+        return job && job.company._ref === companyId ? { ...job } : null;
+      },
+
+      async listByIdsForCompany(jobIds, companyId) {
+        return jobsOfCompany(companyId)
+          .filter((job) => jobIds.includes(job._id))
+          .map((job) => ({ ...job }));
+      },
+
+      async listDueForExpiry(now, today) {
+        return store.jobs
+          .filter(
+            (job) =>
+              job.status === 'published' &&
+              ((!!job.expiresAt && job.expiresAt <= now) ||
+                (!!job.applicationDeadline && job.applicationDeadline < today))
+          )
+          .map((job) => job._id);
+      },
+
+      async listDueForPublish(now) {
+        return store.jobs
+          .filter((job) => job.status === 'scheduled' && !!job.publishAt && job.publishAt <= now)
+          .map((job) => job._id);
+      },
+
+      async listExpiringSoon(now, until) {
+        return store.jobs
+          .filter(
+            (job) =>
+              job.status === 'published' &&
+              !!job.expiresAt &&
+              job.expiresAt > now &&
+              job.expiresAt <= until &&
+              job.expiryReminderSentFor !== job.expiresAt
+          )
+          .sort((a, b) => a.expiresAt!.localeCompare(b.expiresAt!))
+          .map((job) => {
+            const company = store.companies.find((item) => item._id === job.company._ref);
+            return {
+              _id: job._id,
+              title: job.title,
+              slug: job.slug.current,
+              expiresAt: job.expiresAt!,
+              companyName: company?.name || '',
+              recipients: contactEmailsOf(job.company._ref),
+            };
+          });
+      },
+
+      async listPublishedSince(filters, since, limit) {
+        return store.jobs
+          .filter((job) => isLive(job) && !!job.publishedAt && job.publishedAt > since)
+          .map(hydrateJob)
+          .filter((job) => matchesJobSearch(job, filters))
+          .sort(byDateDesc((job) => job.publishedAt))
+          .slice(0, limit);
+      },
+
+      async create(data, companyId) {
+        const job = applyJobInput(
+          {
+            _id: generateId('job'),
+            _type: 'jobPosting',
+            viewCount: 0,
+            applicationCount: 0,
+          },
+          data
+        ) as JobDocument;
+        job.slug = { current: data.slug?.current || slugify(data.title || '') };
+        job.company = reference(companyId);
+        job.createdAt = new Date().toISOString();
+        store.jobs.push(job);
+        return { ...job };
+      },
+
+      async update(jobId, data, unset = []) {
+        const job = applyJobInput(requireJob(jobId), data) as JobDocument;
+        unset.forEach((field) => delete job[field as keyof JobDocument]);
+        return { ...job };
+      },
+
+      async delete(jobId) {
+        store.jobs = store.jobs.filter((job) => job._id !== jobId);
+      },
+
+      async commitBatch(operations) {
+        // Check every target first so a missing job leaves the store untouched
+        operations.forEach((operation) => requireJob(operation.jobId));
+
+        operations.forEach((operation) => {
+          if (operation.type === 'delete') {
+            store.jobs = store.jobs.filter((job) => job._id !== operation.jobId);
+            return;
+          }
+
+          const job = applyJobInput(requireJob(operation.jobId), operation.data) as JobDocument;
+          (operation.unset || []).forEach((field) => delete job[field as keyof JobDocument]);
+          if (operation.revision) {
+            store.revisions.push({ ...operation.revision, _id: generateId('revision') });
+          }
+        });
+      },
+    },
+
+    companies: {
+      async search({ page, pageSize, search, size, location }) {
+        const results = store.companies
+          .filter((company) => !search || matches(company.name, search))
+          .filter((company) => !size || company.size === size)
+          .filter(
+            (company) =>
+              !location || !!company.locations?.some((item) => item.city === location)
+          )
+          .sort(
+            (a, b) => Number(b.verified) - Number(a.verified) || a.name.localeCompare(b.name)
+          )
+          .map(hydrateCompany);
+
+        return paginate(results, page, pageSize);
+      },
+
+      async getBySlug(slug) {
+        const company = store.companies.find((item) => item.slug.current === slug);
+        return company ? hydrateCompany(company) : null;
+      },
+
+      async listSlugs() {
+        return store.companies.map((company) => company.slug.current);
+      },
+
+      async create(data, ownerId) {
+        const company = {
+          slug: { current: slugify(data.name || '') },
+          ...data,
+          _id: generateId('company'),
+          ownerId,
+          verified: false,
+          createdAt: new Date().toISOString(),
+        } as Company;
+        store.companies.push(company);
+        return hydrateCompany(company);
+      },
+
+      async update(companyId, data) {
+        const company = store.companies.find((item) => item._id === companyId);
+        if (!company) {
+          throw new Error(`Company ${companyId} not found`);
+        }
+        Object.assign(company, data);
+        return hydrateCompany(company);
+      },
+
+      async listContactEmails(companyId) {
+        return contactEmailsOf(companyId);
+      },
+    },
+
+    applications: {
+      async hasApplied(jobId, email, phone) {
+        return store.applications.some(
+          (application) =>
+            application.job._ref === jobId &&
+            (application.applicantInfo.email.toLowerCase() === email ||
+              application.applicantInfo.phone === phone)
+        );
+      },
+
+      async listForCompany(companyId, { page, pageSize, sort, ...filters }) {
+        // Mirrors `companyApplicationsQuery`
+        const results = applicationsOfCompany(companyId)
+          .filter(
+            (application) =>
+              (!filters.jobId || application.job._ref === filters.jobId) &&
+              (!filters.status || application.status === filters.status) &&
+              (!filters.appliedFrom || application.appliedDate >= filters.appliedFrom) &&
+              (!filters.appliedTo ||
+                application.appliedDate <= `${filters.appliedTo}T23:59:59.999Z`) &&
+              (!filters.minRating || (application.rating ?? 0) >= filters.minRating) &&
+              (!filters.minScore || (application.scorecardAverage ?? 0) >= filters.minScore) &&
+              (!filters.search ||
+                matches(application.resumeText, filters.search) ||
+                matches(application.applicantInfo.name, filters.search))
+          )
+          .sort(byDateDesc((application) => application.appliedDate));
+
+        if (sort === 'score') {
+          // Stable, so equal scores stay newest first
+          results.sort((a, b) => (b.scorecardAverage ?? 0) - (a.scorecardAverage ?? 0));
+        }
+
+        return {
+          total: results.length,
+          applications: paginate(results, page, pageSize).map(hydrateApplication),
+        };
+      },
+
+      async getForCompany(applicationId, companyId) {
+        const application = applicationsOfCompany(companyId).find(
+          (item) => item._id === applicationId
+        );
+        return application ? hydrateApplication(application) : null;
+      },
+
+      async getBySchedulingToken(tokenHash) {
+        const application = store.applications.find(
+          (item) => item.schedulingTokenHash === tokenHash
+        );
+        return application ? hydrateApplication(application) : null;
+      },
+
+      async create({ jobId, applicantInfo, coverMessage, resumeText, screeningAnswers, knockedOut }) {
+        const appliedDate = new Date().toISOString();
+        const job = requireJob(jobId);
+        const application: ApplicationDocument = {
+          _id: generateId('application'),
+          _type: 'jobApplication',
+          job: reference(job._id),
+          applicantInfo,
+          coverMessage,
+          resumeText,
+          screeningAnswers,
+          knockedOut,
+          status: 'new',
+          appliedDate,
+          statusHistory: [getSubmittedChange(applicantInfo, appliedDate)],
+        };
+        store.applications.push(application);
+        job.applicationCount = (job.applicationCount || 0) + 1;
+        return hydrateApplication(application);
+      },
+
+      async update(applicationId, data, unset = []) {
+        const application = requireApplication(applicationId);
+        Object.assign(application, data);
+        unset.forEach((field) => delete application[field as keyof ApplicationDocument]);
+      },
+
+      async updateStatus(applicationId, change) {
+        const application = requireApplication(applicationId);
+        if (application.status !== change.from) return false;
+
+        application.status = change.to;
+        application.statusHistory = [...(application.statusHistory || []), change];
+        return true;
+      },
+
+      async saveScorecard(applicationId, scorecard) {
+        const application = requireApplication(applicationId);
+        const scorecards = [
+          ...(application.scorecards || []).filter((item) => item._key !== scorecard._key),
+          scorecard,
+        ];
+
+        application.scorecards = scorecards;
+        application.scorecardAverage = getScorecardAverage(scorecards);
+      },
+
+      async appendResumeDownload(applicationId, download) {
+        const application = requireApplication(applicationId);
+        application.resumeDownloads = [...(application.resumeDownloads || []), download];
+      },
+    },
+
+    interviews: {
+      async listForJob(jobId) {
+        return store.interviewSlots
+          .filter((slot) => slot.jobId === jobId)
+          .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+          .map((slot) => ({ ...slot }));
+      },
+
+      async get(slotId) {
+        const slot = store.interviewSlots.find((item) => item._id === slotId);
+        return slot ? { ...slot } : null;
+      },
+
+      async create(data) {
+        const slot = {
+          ...data,
+          _id: generateId('interviewSlot'),
+          createdAt: new Date().toISOString(),
+        };
+        store.interviewSlots.push(slot);
+        return { ...slot };
+      },
+
+      async delete(slotId) {
+        store.interviewSlots = store.interviewSlots.filter((slot) => slot._id !== slotId);
+      },
+
+      async book(slotId, applicationId, interview, releaseSlotId) {
+        const slot = store.interviewSlots.find((item) => item._id === slotId);
+        const application = requireApplication(applicationId);
+        if (!slot || slot.applicationId) return false;
+
+        slot.applicationId = applicationId;
+        application.interview = interview;
+        application.interviewDate = interview.startsAt;
+
+        const released = store.interviewSlots.find((item) => item._id === releaseSlotId);
+        if (released) delete released.applicationId;
+        return true;
+      },
+
+      async cancel(applicationId, interview) {
+        const application = requireApplication(applicationId);
+        application.interview = interview;
+        delete application.interviewDate;
+
+        const slot = store.interviewSlots.find((item) => item._id === interview.slotId);
+        if (slot) delete slot.applicationId;
+      },
+    },
+
+    resumes: {
+      async upload({ data, filename, mimeType }) {
+        const resume = { assetId: generateId('file'), filename, mimeType, size: data.length };
+        store.resumeFiles.push({ ...resume, data });
+        return resume;
+      },
+
+      async download(assetId) {
+        const file = store.resumeFiles.find((item) => item.assetId === assetId);
+        return file ? { data: file.data, filename: file.filename, mimeType: file.mimeType } : null;
+      },
+    },
+
+    revisions: {
+      async listForJob(jobId) {
+        // Insertion order is chronological, even within the same millisecond
+        return store.revisions.filter((revision) => revision.jobId === jobId).reverse();
+      },
+
+      async create(data) {
+        const revision = { ...data, _id: generateId('revision') };
+        store.revisions.push(revision);
+        return revision;
+      },
+    },
+
+    templates: {
+      async listForCompany(companyId) {
+        return store.templates
+          .filter((template) => !template.company || template.company._ref === companyId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(toTemplate);
+      },
+
+      async create({ category, ...fields }, companyId) {
+        const template: JobTemplateDocument = {
+          ...fields,
+          _id: generateId('template'),
+          _type: 'jobTemplate',
+          company: reference(companyId),
+          ...(category && { category: reference(category) }),
+          createdAt: new Date().toISOString(),
+        };
+        store.templates.push(template);
+        return toTemplate(template);
+      },
+
+      async delete(templateId, companyId) {
+        const owned = store.templates.some(
+          (template) => template._id === templateId && template.company?._ref === companyId
+        );
+        if (!owned) return false;
+
+        store.templates = store.templates.filter((template) => template._id !== templateId);
+        return true;
+      },
+    },
+
+    savedViews: {
+      async listForUser(userId) {
+        return store.savedViews
+          .filter((view) => view.user._ref === userId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(({ user, ...view }) => view);
+      },
+
+      async create(data, userId) {
+        const view = {
+          ...data,
+          _id: generateId('savedJobView'),
+          createdAt: new Date().toISOString(),
+        };
+        store.savedViews.push({ ...view, user: reference(userId) });
+        return view;
+      },
+
+      async delete(viewId, userId) {
+        const view = store.savedViews.find(
+          (item) => item._id === viewId && item.user._ref === userId
+        );
+        if (!view) return false;
+
+        store.savedViews = store.savedViews.filter((item) => item !== view);
+        return true;
+      },
+    },
+
+    savedSearches: {
+      async listForUser(userId) {
+        return store.savedSearches
+          .filter((search) => search.user._ref === userId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(({ user, ...search }) => search);
+      },
+
+      async create(data, userId) {
+        const createdAt = new Date().toISOString();
+        const search = {
+          ...data,
+          _id: generateId('savedSearch'),
+          createdAt,
+          lastRunAt: createdAt,
+        };
+        store.savedSearches.push({ ...search, user: reference(userId) });
+        return search;
+      },
+
+      async update(searchId, userId, data) {
+        const search = store.savedSearches.find(
+          (item) => item._id === searchId && item.user._ref === userId
+        );
+        if (!search) return false;
+
+        Object.assign(search, data);
+        return true;
+      },
+
+      async delete(searchId, userId) {
+        const search = store.savedSearches.find(
+          (item) => item._id === searchId && item.user._ref === userId
+        );
+        if (!search) return false;
+
+        store.savedSearches = store.savedSearches.filter((item) => item !== search);
+        return true;
+      },
+
+      async listForAlerts() {
+        return store.savedSearches.flatMap(({ user: { _ref: userId }, ...search }) => {
+          const user = store.users.find((item) => item._id === userId);
+          return user?.email ? [{ ...search, userId, email: user.email, userName: user.name }] : [];
+        });
+      },
+
+      async markRun(searchId, runAt) {
+        const search = store.savedSearches.find((item) => item._id === searchId);
+        if (search) search.lastRunAt = runAt;
+      },
+    },
+
+    savedJobs: {
+      async listForUser(userId) {
+        return store.savedJobs
+          .filter((saved) => saved.user._ref === userId)
+          .sort(byDateDesc((saved) => saved.savedAt))
+          .flatMap(({ _id, savedAt, job }) => {
+            const document = store.jobs.find((item) => item._id === job._ref);
+            return document ? [{ _id, savedAt, job: hydrateJob(document) }] : [];
+          });
+      },
+
+      async listJobIdsForUser(userId) {
+        return store.savedJobs
+          .filter(
+            (saved) =>
+              saved.user._ref === userId && store.jobs.some((job) => job._id === saved.job._ref)
+          )
+          .map((saved) => saved.job._ref);
+      },
+
+      async save(jobId, userId) {
+        if (store.savedJobs.some((saved) => saved.job._ref === jobId && saved.user._ref === userId)) {
+          return;
+        }
+
+        store.savedJobs.push({
+          _id: `savedJob-${userId}-${jobId}`,
+          user: reference(userId),
+          job: reference(jobId),
+          savedAt: new Date().toISOString(),
+        });
+      },
+
+      async remove(jobId, userId) {
+        const saved = store.savedJobs.find(
+          (item) => item.job._ref === jobId && item.user._ref === userId
+        );
+        if (!saved) return false;
+
+        store.savedJobs = store.savedJobs.filter((item) => item !== saved);
+        return true;
+      },
+
+      // Mirrors `savedJobDeadlinesQuery`
+      async listDeadlineReminders(today, until) {
+        return store.savedJobs
+          .flatMap((saved) => {
+            const job = store.jobs.find((item) => item._id === saved.job._ref);
+            const user = store.users.find((item) => item._id === saved.user._ref);
+            const deadline = job?.applicationDeadline;
+
+            if (
+              !job ||
+              !user?.email ||
+              !deadline ||
+              job.status !== 'published' ||
+              deadline < today ||
+              deadline > until ||
+              saved.deadlineReminderSentFor === deadline
+            ) {
+              return [];
+            }
+
+            const hasApplied = store.applications.some(
+              (application) =>
+                application.job._ref === job._id &&
+                application.applicantInfo.email.toLowerCase() === user.email.toLowerCase()
+            );
+            if (hasApplied) return [];
+
+            const company = store.companies.find((item) => item._id === job.company._ref);
+            return [{
+              _id: saved._id,
+              email: user.email,
+              userName: user.name,
+              jobTitle: job.title,
+              jobSlug: job.slug.current,
+              companyName: company?.name || '',
+              applicationDeadline: deadline,
+            }];
+          })
+          .sort((a, b) => a.applicationDeadline.localeCompare(b.applicationDeadline));
+      },
+
+      async markDeadlineReminded(savedJobId, applicationDeadline) {
+        const saved = store.savedJobs.find((item) => item._id === savedJobId);
+        if (saved) saved.deadlineReminderSentFor = applicationDeadline;
+      },
+    },
+
+    categories: {
+      async list() {
+        return store.categories.map(hydrateCategory);
+      },
+
+      async listPopular() {
+        return store.categories
+          .map(hydrateCategory)
+          .sort((a, b) => (b.jobCount || 0) - (a.jobCount || 0))
+          .slice(0, 8);
+      },
+    },
+
+    users: {
+      async getByEmail(email) {
+        return store.users.find((user) => user.email === email) || null;
+      },
+
+      async create(data) {
+        const user = { ...data, _id: generateId('user') };
+        store.users.push(user);
+        return user;
+      },
+    },
+
+    views: {
+      async record(jobId, date) {
+        const job = requireJob(jobId);
+        let stat = store.viewStats.find(
+          (item) => item.job._ref === jobId && item.date === date
+        );
+        if (!stat) {
+          stat = {
+            _id: `jobViewStat-${jobId}-${date}`,
+            _type: 'jobViewStat',
+            job: reference(jobId),
+            date,
+            count: 0,
+          };
+          store.viewStats.push(stat);
+        }
+        stat.count += 1;
+        job.viewCount = (job.viewCount || 0) + 1;
+      },
+
+      async listDailyForCompany(companyId, since) {
+        const jobIds = new Set(jobsOfCompany(companyId).map((job) => job._id));
+        const totals = new Map<string, number>();
+        store.viewStats
+          .filter((stat) => jobIds.has(stat.job._ref) && stat.date >= since)
+          .forEach((stat) => totals.set(stat.date, (totals.get(stat.date) || 0) + stat.count));
+        return Array.from(totals, ([date, views]) => ({ date, views })).sort((a, b) =>
+          a.date.localeCompare(b.date)
+        );
+      },
+    },
+
+    analytics: {
+      async getCompanyStats(companyId, since) {
+        const jobs = jobsOfCompany(companyId);
+        const applications = applicationsOfCompany(companyId);
+        return {
+          totalJobs: jobs.length,
+          activeJobs: jobs.filter((job) => job.status === 'published').length,
+          totalApplications: applications.length,
+          newApplications: applications.filter((application) => application.appliedDate > since)
+            .length,
+          totalViews: jobs.reduce((sum, job) => sum + (job.viewCount || 0), 0),
+        };
+      },
+
+      async listHiredApplications(companyId) {
+        return applicationsOfCompany(companyId)
+          .filter((application) => application.status === 'hired')
+          .flatMap((application) => {
+            const hiredAt = getHiredAt(application);
+            return hiredAt ? [{ appliedDate: application.appliedDate, hiredAt }] : [];
+          });
+      },
+
+      async listRecentApplications(companyId, limit) {
+        return applicationsOfCompany(companyId)
+          .sort(byDateDesc((application) => application.appliedDate))
+          .slice(0, limit)
+          .map((application): RecentActivity => {
+            const job = requireJob(application.job._ref);
+            return {
+              _id: application._id,
+              type: 'application',
+              title: 'New application received',
+              description: `${application.applicantInfo.name} applied for ${job.title}`,
+              timestamp: application.appliedDate,
+              metadata: {
+                jobTitle: job.title,
+                applicantName: application.applicantInfo.name,
+                jobId: job._id,
+              },
+            };
+          });
+      },
+
+      async listRecentlyPublishedJobs(companyId, limit) {
+        return jobsOfCompany(companyId)
+          .filter((job) => job.status === 'published')
+          .sort(byDateDesc((job) => job.publishedAt))
+          .slice(0, limit)
+          .map(
+            (job): RecentActivity => ({
+              _id: job._id,
+              type: 'job_posted',
+              title: 'Job posted',
+              description: `${job.title} is now live`,
+              timestamp: job.publishedAt,
+              metadata: { jobTitle: job.title, jobId: job._id },
+            })
+          );
+      },
+
+      async listTopJobs(companyId, limit) {
+        return jobsOfCompany(companyId)
+          .filter((job) => job.status === 'published')
+          .sort((a, b) => (b.viewCount || 0) - (a.viewCount || 0))
+          .slice(0, limit)
+          .map((job) => ({
+            jobId: job._id,
+            title: job.title,
+            views: job.viewCount || 0,
+            applications: job.applicationCount || 0,
+            conversionRate: job.viewCount ? (job.applicationCount / job.viewCount) * 100 : 0,
+          }));
+      },
+
+      async listApplicationDates(companyId, since) {
+        return applicationsOfCompany(companyId)
+          .filter((application) => application.appliedDate > since)
+          .map((application) => application.appliedDate);
+      },
+
+      async listJobExportRows(companyId, filter, after, limit) {
+        return jobsOfCompany(companyId)
+          .filter(
+            (job) =>
+              matchesCompanyJobFilter(job, filter) &&
+              (!filter.jobIds || filter.jobIds.includes(job._id)) &&
+              (after === null || job._id > after)
+          )
+          .sort((a, b) => (a._id < b._id ? -1 : 1))
+          .slice(0, limit)
+          .map((job): JobExportRow => {
+            const applications = store.applications.filter(
+              (application) => application.job._ref === job._id
+            );
+            const countStatus = (status: JobApplication['status']) =>
+              applications.filter((application) => application.status === status).length;
+
+            return {
+              _id: job._id,
+              title: job.title,
+              status: job.status,
+              category: store.categories.find((item) => item._id === job.category?._ref)?.name,
+              createdAt: job.createdAt,
+              publishedAt: job.publishedAt,
+              expiresAt: job.expiresAt,
+              applicationDeadline: job.applicationDeadline,
+              location: job.location,
+              salaryType: job.salaryType,
+              salaryMin: job.salaryMin,
+              salaryMax: job.salaryMax,
+              viewCount: job.viewCount || 0,
+              applicationCount: job.applicationCount || 0,
+              applicationsByStatus: {
+                new: countStatus('new'),
+                reviewed: countStatus('reviewed'),
+                interviewing: countStatus('interviewing'),
+                hired: countStatus('hired'),
+                rejected: countStatus('rejected'),
+              },
+            };
+          });
+      },
+    },
+  };
+}
@@ -0,0 +1,825 @@
+import { ClientError } from '@sanity/client';
+import { client, sanityFetch } from '@/lib/sanity';
+import * as queries from '@/lib/queries';
+import { slugify } from '@/lib/utils';
+import { getSubmittedChange } from '@/lib/application-status';
+import { getScorecardAverage } from '@/lib/scorecards';
+import type {
+  ApplicationStatusChange,
+  Job,
+  Company,
+  InterviewBooking,
+  JobApplication,
+  JobCategory,
+  Scorecard,
+} from '@/types';
+import type {
+  DailyViews,
+  DataRepository,
+  ExpiringJob,
+  InterviewSlot,
+  JobDocument,
+  JobExportFilter,
+  JobExportRow,
+  JobInput,
+  JobRevision,
+  JobSummary,
+  JobTemplate,
+  Reference,
+  SavedJob,
+  SavedJobDeadline,
+  SavedJobView,
+  SavedSearch,
+  SavedSearchAlert,
+  UserRecord,
+} from './types';
+
+function reference(id: string): Reference {
+  return { _type: 'reference', _ref: id };
+}
+
+// GROQ `match` wants wildcards around free-text terms
+function matchTerm(search: string) {
+  return search ? `*${search}*` : '';
+}
+
+function toJobFields({ category, ...fields }: JobInput) {
+  return {
+    ...fields,
+    ...(fields.slug && { slug: { _type: 'slug', current: fields.slug.current } }),
+    ...(category && { category: reference(category) }),
+  };
+}
+
+// Params for `companyJobFilter`; date ranges are inclusive of the end day
+function companyJobFilterParams(filters: JobExportFilter) {
+  return {
+    status: filters.status || '',
+    search: matchTerm(filters.search || ''),
+    postedFrom: filters.postedFrom || '',
+    postedTo: filters.postedTo ? `${filters.postedTo}T23:59:59.999Z` : '',
+    expiresFrom: filters.expiresFrom || '',
+    expiresTo: filters.expiresTo ? `${filters.expiresTo}T23:59:59.999Z` : '',
+  };
+}
+
+// GROQ projections return null for unset fields; drop them so optional
+// values stay undefined
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== null)
+  ) as T;
+}
+
+// Revision values can be any JSON type, so they are stored as strings
+interface StoredRevision extends Omit<JobRevision, 'changes'> {
+  changes: Array<{ field: string; before?: string; after?: string }>;
+}
+
+function encodeValue(value: unknown) {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+function decodeValue(value?: string | null) {
+  return value === undefined || value === null ? undefined : JSON.parse(value);
+}
+
+function toRevisionDocument({ jobId, changes, ...revision }: Omit<JobRevision, '_id'>) {
+  return {
+    _type: 'jobRevision',
+    ...revision,
+    job: { ...reference(jobId), _weak: true },
+    changes: changes.map(({ field, before, after }, index) => ({
+      _key: `${field}-${index}`,
+      field,
+      before: encodeValue(before),
+      after: encodeValue(after),
+    })),
+  };
+}
+
+// Tries at saving a scorecard while other reviewers are saving theirs
+const SCORECARD_ATTEMPTS = 3;
+
+// Tries at moving an application while unrelated edits (notes, scorecards,
+// downloads) land on it
+const STATUS_ATTEMPTS = 3;
+
+// Slots and applications point at each other; weak references let either be
+// deleted without the other blocking it
+function weakReference(id: string) {
+  return { ...reference(id), _weak: true };
+}
+
+function toStoredInterview({ slotId, ...interview }: InterviewBooking) {
+  return { ...interview, slot: weakReference(slotId) };
+}
+
+// Array items need a `_key` in Sanity
+function toHistoryItem(change: ApplicationStatusChange) {
+  return { _key: `${change.to}-${Date.parse(change.at)}`, ...change };
+}
+
+// Resumes are kept as file fields pointing at the uploaded asset
+function toStoredApplicantInfo({ resume, ...applicantInfo }: JobApplication['applicantInfo']) {
+  return {
+    ...applicantInfo,
+    ...(resume && { resume: { _type: 'file', asset: reference(resume.assetId) } }),
+  };
+}
+
+function toStoredScorecard(scorecard: Scorecard) {
+  return {
+    ...scorecard,
+    scores: scorecard.scores.map((score) => ({ _key: score.criterionKey, ...score })),
+  };
+}
+
+function decodeRevision({ changes, ...revision }: StoredRevision): JobRevision {
+  return compact({
+    ...revision,
+    changes: (changes || []).map(({ field, before, after }) => ({
+      field,
+      before: decodeValue(before),
+      after: decodeValue(after),
+    })),
+  });
+}
+
+// Collapse per-job buckets into one total per day
+function sumByDate(buckets: DailyViews[]): DailyViews[] {
+  const totals = new Map<string, number>();
+  buckets.forEach(({ date, views }) => totals.set(date, (totals.get(date) || 0) + views));
+  return Array.from(totals, ([date, views]) => ({ date, views })).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+export function createSanityRepository(): DataRepository {
+  return {
+    backend: 'sanity',
+
+    jobs: {
+      async search({ search, ...params }) {
+        const filters = { ...params, search: matchTerm(search) };
+        const [jobs, total] = await Promise.all([
+          sanityFetch<Job[]>(queries.jobsQuery, filters, ['jobs']),
+          sanityFetch<number>(queries.jobsCountQuery, filters, ['jobs']),
+        ]);
+        return { jobs, total };
+      },
+
+      async getBySlug(slug) {
+        const job = await sanityFetch<Job | null>(
+          queries.jobBySlugQuery,
+          { slug },
+          ['jobs', `job-${slug}`]
+        );
+        return job ?? null;
+      },
+
+      getById(jobId) {
+        return client.fetch<JobDocument | null>(queries.jobByIdQuery, { jobId });
+      },
+
+      listRelated(currentSlug, categoryId, city) {
+        return sanityFetch<Job[]>(
+          queries.relatedJobsQuery,
+          { currentSlug, categoryId, city },
+          ['jobs']
+        );
+      },
+
+      listByCompanySlug(companySlug) {
+        return sanityFetch<Job[]>(
+          queries.jobsByCompanyQuery,
+          { companySlug },
+          ['jobs', `company-${companySlug}`]
+        );
+      },
+
+      listPublishedSlugs() {
+        return client.fetch<string[]>(queries.publishedJobSlugsQuery);
+      },
+
+      async listForCompany(companyId, { page, pageSize, sort, direction, ...filters }) {
+        const params = { companyId, ...companyJobFilterParams(filters) };
+        const [jobs, total] = await Promise.all([
+          client.fetch<JobSummary[]>(queries.companyJobsQuery(sort, direction), {
+            ...params,
+            start: (page - 1) * pageSize,
+            end: page * pageSize,
+          }),
+          client.fetch<number>(queries.companyJobsCountQuery, params),
+        ]);
+        return { jobs: jobs.map(compact), total };
+      },
+
+      getForCompany(jobId, companyId) {
+        return client.fetch<JobDocument | null>(queries.companyJobQuery, {
+          jobId,
+          companyId,
+        });
+      },
+
+      listByIdsForCompany(jobIds, companyId) {
+        return client.fetch<JobDocument[]>(queries.companyJobsByIdsQuery, { jobIds, companyId });
+      },
+
+      listDueForExpiry(now, today) {
+        return client.fetch<string[]>(queries.jobsDueForExpiryQuery, { now, today });
+      },
+
+      listDueForPublish(now) {
+        return client.fetch<string[]>(queries.jobsDueForPublishQuery, { now });
+      },
+
+      listExpiringSoon(now, until) {
+        return client.fetch<ExpiringJob[]>(queries.jobsExpiringSoonQuery, { now, until });
+      },
+
+      listPublishedSince({ search, ...filters }, since, limit) {
+        return client.fetch<Job[]>(queries.jobsPublishedSinceQuery, {
+          ...filters,
+          search: matchTerm(search),
+          since,
+          limit,
+        });
+      },
+
+      async create(data, companyId) {
+        const fields = toJobFields(data);
+        const job = await client.create({
+          _type: 'jobPosting',
+          viewCount: 0,
+          applicationCount: 0,
+          ...fields,
+          slug: { _type: 'slug', current: fields.slug?.current || slugify(data.title || '') },
+          company: reference(companyId),
+          createdAt: new Date().toISOString(),
+        });
+        return job as unknown as JobDocument;
+      },
+
+      async update(jobId, data, unset = []) {
+        const job = await client.patch(jobId).set(toJobFields(data)).unset(unset).commit();
+        return job as unknown as JobDocument;
+      },
+
+      async delete(jobId) {
+        await client.delete(jobId);
+      },
+
+      async commitBatch(operations) {
+        const transaction = client.transaction();
+
+        operations.forEach((operation) => {
+          if (operation.type === 'delete') {
+            transaction.delete(operation.jobId);
+            return;
+          }
+
+          transaction.patch(operation.jobId, (patch) =>
+            patch.set(toJobFields(operation.data)).unset(operation.unset || [])
+          );
+          if (operation.revision) {
+            transaction.create(toRevisionDocument(operation.revision));
+          }
+        });
+
+        await transaction.commit();
+      },
+    },
+
+    companies: {
+      search({ search, ...params }) {
+        return sanityFetch<Company[]>(
+          queries.companiesQuery,
+          { ...params, search: matchTerm(search) },
+          ['companies']
+        );
+      },
+
+      async getBySlug(slug) {
+        const company = await sanityFetch<Company | null>(
+          queries.companyBySlugQuery,
+          { slug },
+          ['companies', `company-${slug}`]
+        );
+        return company ?? null;
+      },
+
+      listSlugs() {
+        return client.fetch<string[]>(queries.companySlugsQuery);
+      },
+
+      async create(data, ownerId) {
+        const company = await client.create({
+          _type: 'company',
+          ...data,
+          ownerId,
+          verified: false,
+          createdAt: new Date().toISOString(),
+        });
+        return company as unknown as Company;
+      },
+
+      async update(companyId, data) {
+        const company = await client.patch(companyId).set(data).commit();
+        return company as unknown as Company;
+      },
+
+      listContactEmails(companyId) {
+        return client.fetch<string[]>(queries.companyContactEmailsQuery, { companyId });
+      },
+    },
+
+    applications: {
+      hasApplied(jobId, email, phone) {
+        return client.fetch<boolean>(queries.hasAppliedQuery, { jobId, email, phone });
+      },
+
+      async listForCompany(companyId, { page, pageSize, sort, ...filters }) {
+        const params = {
+          companyId,
+          jobId: filters.jobId || '',
+          status: filters.status || '',
+          appliedFrom: filters.appliedFrom || '',
+          appliedTo: filters.appliedTo ? `${filters.appliedTo}T23:59:59.999Z` : '',
+          minRating: filters.minRating || 0,
+          minScore: filters.minScore || 0,
+          search: matchTerm(filters.search || ''),
+        };
+        const [applications, total] = await Promise.all([
+          client.fetch<JobApplication[]>(queries.companyApplicationsQuery(sort), {
+            ...params,
+            start: (page - 1) * pageSize,
+            end: page * pageSize,
+          }),
+          client.fetch<number>(queries.companyApplicationsCountQuery, params),
+        ]);
+        return { applications: applications.map(compact), total };
+      },
+
+      async getForCompany(applicationId, companyId) {
+        const application = await client.fetch<JobApplication | null>(
+          queries.companyApplicationByIdQuery,
+          { id: applicationId, companyId }
+        );
+        return application && compact(application);
+      },
+
+      async getBySchedulingToken(tokenHash) {
+        const application = await client.fetch<JobApplication | null>(
+          queries.applicationBySchedulingTokenQuery,
+          { tokenHash }
+        );
+        return application && compact(application);
+      },
+
+      async create({ jobId, applicantInfo, coverMessage, resumeText, screeningAnswers, knockedOut }) {
+        const appliedDate = new Date().toISOString();
+        const application = await client
+          .transaction()
+          .create({
+            _type: 'jobApplication',
+            job: reference(jobId),
+            applicantInfo: toStoredApplicantInfo(applicantInfo),
+            coverMessage,
+            resumeText,
+            screeningAnswers,
+            knockedOut,
+            status: 'new',
+            appliedDate,
+            statusHistory: [toHistoryItem(getSubmittedChange(applicantInfo, appliedDate))],
+          })
+          .patch(jobId, (patch) => patch.inc({ applicationCount: 1 }))
+          .commit({ returnFirst: true });
+        return application as unknown as JobApplication;
+      },
+
+      async update(applicationId, data, unset = []) {
+        await client.patch(applicationId).set(data).unset(unset).commit();
+      },
+
+      async updateStatus(applicationId, change) {
+        // Only a different status is a conflict. Any other write in between
+        // fails the revision check, so re-read and try again while the status
+        // is still the expected one
+        for (let attempt = 1; ; attempt++) {
+          const current = await client.fetch<{ _rev: string; status: JobApplication['status'] } | null>(
+            queries.applicationStatusQuery,
+            { id: applicationId }
+          );
+          if (!current || current.status !== change.from) return false;
+
+          try {
+            await client
+              .patch(applicationId)
+              .ifRevisionId(current._rev)
+              .set({ status: change.to })
+              .setIfMissing({ statusHistory: [] })
+              .append('statusHistory', [toHistoryItem(change)])
+              .commit();
+            return true;
+          } catch (error) {
+            const conflict = error instanceof ClientError && error.statusCode === 409;
+            if (!conflict || attempt >= STATUS_ATTEMPTS) throw error;
+          }
+        }
+      },
+
+      async saveScorecard(applicationId, scorecard) {
+        // Retried when another reviewer's scorecard lands in between, so the
+        // average always covers every scorecard
+        for (let attempt = 1; ; attempt++) {
+          const current = await client.fetch<{
+            _rev: string;
+            scorecards: Array<Pick<Scorecard, '_key' | 'scores'>> | null;
+          } | null>(queries.applicationScorecardsQuery, { id: applicationId });
+          if (!current) {
+            throw new Error(`Application ${applicationId} not found`);
+          }
+
+          const others = (current.scorecards || []).filter((item) => item._key !== scorecard._key);
+
+          try {
+            await client
+              .patch(applicationId)
+              .ifRevisionId(current._rev)
+              .set({ scorecardAverage: getScorecardAverage([...others, scorecard]) })
+              .setIfMissing({ scorecards: [] })
+              .unset([`scorecards[_key=="${scorecard._key}"]`])
+              .append('scorecards', [toStoredScorecard(scorecard)])
+              .commit();
+            return;
+          } catch (error) {
+            const conflict = error instanceof ClientError && error.statusCode === 409;
+            if (!conflict || attempt >= SCORECARD_ATTEMPTS) throw error;
+          }
+        }
+      },
+
+      async appendResumeDownload(applicationId, download) {
+        await client
+          .patch(applicationId)
+          .setIfMissing({ resumeDownloads: [] })
+          .append('resumeDownloads', [download])
+          .commit();
+      },
+    },
+
+    interviews: {
+      async listForJob(jobId) {
+        const slots = await client.fetch<InterviewSlot[]>(queries.jobInterviewSlotsQuery, { jobId });
+        return slots.map(compact);
+      },
+
+      async get(slotId) {
+        const slot = await client.fetch<InterviewSlot | null>(queries.interviewSlotByIdQuery, {
+          slotId,
+        });
+        return slot && compact(slot);
+      },
+
+      async create({ jobId, ...fields }) {
+        const createdAt = new Date().toISOString();
+        const slot = await client.create({
+          _type: 'interviewSlot',
+          ...fields,
+          job: weakReference(jobId),
+          createdAt,
+        });
+        return { ...fields, _id: slot._id, jobId, createdAt };
+      },
+
+      async delete(slotId) {
+        await client.delete(slotId);
+      },
+
+      async book(slotId, applicationId, interview, releaseSlotId) {
+        const slot = await client.fetch<{ _rev: string; applicationId: string | null } | null>(
+          queries.interviewSlotBookingQuery,
+          { slotId }
+        );
+        if (!slot || slot.applicationId) return false;
+
+        const transaction = client
+          .transaction()
+          // Fails if someone else booked the slot since it was read
+          .patch(slotId, (patch) =>
+            patch.ifRevisionId(slot._rev).set({ application: weakReference(applicationId) })
+          )
+          .patch(applicationId, (patch) =>
+            patch.set({ interview: toStoredInterview(interview), interviewDate: interview.startsAt })
+          );
+        if (releaseSlotId) {
+          transaction.patch(releaseSlotId, (patch) => patch.unset(['application']));
+        }
+
+        try {
+          await transaction.commit();
+          return true;
+        } catch (error) {
+          if (error instanceof ClientError && error.statusCode === 409) return false;
+          throw error;
+        }
+      },
+
+      async cancel(applicationId, interview) {
+        await client
+          .transaction()
+          .patch(applicationId, (patch) =>
+            patch.set({ interview: toStoredInterview(interview) }).unset(['interviewDate'])
+          )
+          .patch(interview.slotId, (patch) => patch.unset(['application']))
+          .commit();
+      },
+    },
+
+    resumes: {
+      async upload({ data, filename, mimeType }) {
+        const asset = await client.assets.upload('file', data, { filename, contentType: mimeType });
+        return {
+          assetId: asset._id,
+          filename: asset.originalFilename || filename,
+          mimeType: asset.mimeType,
+          size: asset.size,
+        };
+      },
+
+      async download(assetId) {
+        const asset = await client.fetch<{
+          url: string;
+          originalFilename?: string;
+          mimeType: string;
+        } | null>(queries.resumeAssetQuery, { id: assetId });
+        if (!asset) return null;
+
+        // Asset URLs are unguessable but public, so they never reach the browser
+        const response = await fetch(asset.url, { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch resume asset ${assetId}: ${response.status}`);
+        }
+
+        return {
+          data: Buffer.from(await response.arrayBuffer()),
+          filename: asset.originalFilename || 'resume',
+          mimeType: asset.mimeType,
+        };
+      },
+    },
+
+    revisions: {
+      async listForJob(jobId) {
+        const revisions = await client.fetch<StoredRevision[]>(queries.jobRevisionsQuery, {
+          jobId,
+        });
+        return revisions.map(decodeRevision);
+      },
+
+      async create(revision) {
+        const created = await client.create(toRevisionDocument(revision));
+        return { ...revision, _id: created._id };
+      },
+    },
+
+    templates: {
+      async listForCompany(companyId) {
+        const templates = await client.fetch<JobTemplate[]>(queries.companyTemplatesQuery, {
+          companyId,
+        });
+        return templates.map(compact);
+      },
+
+      async create({ category, ...fields }, companyId) {
+        const template = await client.create({
+          _type: 'jobTemplate',
+          ...fields,
+          ...(category && { category: reference(category) }),
+          company: reference(companyId),
+          createdAt: new Date().toISOString(),
+        });
+        const created = await client.fetch<JobTemplate>(queries.templateByIdQuery, {
+          templateId: template._id,
+        });
+        return compact(created);
+      },
+
+      async delete(templateId, companyId) {
+        const ownedId = await client.fetch<string | null>(queries.ownedTemplateIdQuery, {
+          templateId,
+          companyId,
+        });
+        if (!ownedId) return false;
+
+        await client.delete(ownedId);
+        return true;
+      },
+    },
+
+    savedViews: {
+      listForUser(userId) {
+        return client.fetch<SavedJobView[]>(queries.userSavedViewsQuery, { userId });
+      },
+
+      async create(data, userId) {
+        const createdAt = new Date().toISOString();
+        const view = await client.create({
+          _type: 'savedJobView',
+          ...data,
+          user: reference(userId),
+          createdAt,
+        });
+        return { ...data, _id: view._id, createdAt };
+      },
+
+      async delete(viewId, userId) {
+        const ownedId = await client.fetch<string | null>(queries.ownedSavedViewIdQuery, {
+          viewId,
+          userId,
+        });
+        if (!ownedId) return false;
+
+        await client.delete(ownedId);
+        return true;
+      },
+    },
+
+    savedSearches: {
+      listForUser(userId) {
+        return client.fetch<SavedSearch[]>(queries.userSavedSearchesQuery, { userId });
+      },
+
+      async create(data, userId) {
+        const createdAt = new Date().toISOString();
+        const search = await client.create({
+          _type: 'savedSearch',
+          ...data,
+          user: reference(userId),
+          createdAt,
+          lastRunAt: createdAt,
+        });
+        return { ...data, _id: search._id, createdAt, lastRunAt: createdAt };
+      },
+
+      async update(searchId, userId, data) {
+        const ownedId = await client.fetch<string | null>(queries.ownedSavedSearchIdQuery, {
+          searchId,
+          userId,
+        });
+        if (!ownedId) return false;
+
+        await client.patch(ownedId).set(data).commit();
+        return true;
+      },
+
+      async delete(searchId, userId) {
+        const ownedId = await client.fetch<string | null>(queries.ownedSavedSearchIdQuery, {
+          searchId,
+          userId,
+        });
+        if (!ownedId) return false;
+
+        await client.delete(ownedId);
+        return true;
+      },
+
+      listForAlerts() {
+        return client.fetch<SavedSearchAlert[]>(queries.savedSearchAlertsQuery);
+      },
+
+      async markRun(searchId, runAt) {
+        await client.patch(searchId).set({ lastRunAt: runAt }).commit();
+      },
+    },
+
+    savedJobs: {
+      listForUser(userId) {
+        return client.fetch<SavedJob[]>(queries.userSavedJobsQuery, { userId });
+      },
+
+      listJobIdsForUser(userId) {
+        return client.fetch<string[]>(queries.userSavedJobIdsQuery, { userId });
+      },
+
+      async save(jobId, userId) {
+        // One document per user and job, so saving twice is a no-op
+        await client.createIfNotExists({
+          _id: `savedJob-${userId}-${jobId}`,
+          _type: 'savedJob',
+          user: reference(userId),
+          // Weak, so a saved job doesn't stop the posting being deleted
+          job: { ...reference(jobId), _weak: true },
+          savedAt: new Date().toISOString(),
+        });
+      },
+
+      async remove(jobId, userId) {
+        const ownedId = await client.fetch<string | null>(queries.ownedSavedJobIdQuery, {
+          jobId,
+          userId,
+        });
+        if (!ownedId) return false;
+
+        await client.delete(ownedId);
+        return true;
+      },
+
+      listDeadlineReminders(today, until) {
+        return client.fetch<SavedJobDeadline[]>(queries.savedJobDeadlinesQuery, { today, until });
+      },
+
+      async markDeadlineReminded(savedJobId, applicationDeadline) {
+        await client.patch(savedJobId).set({ deadlineReminderSentFor: applicationDeadline }).commit();
+      },
+    },
+
+    categories: {
+      list() {
+        return sanityFetch<JobCategory[]>(queries.categoriesQuery, {}, ['categories']);
+      },
+
+      listPopular() {
+        return sanityFetch<JobCategory[]>(queries.popularCategoriesQuery, {}, ['categories']);
+      },
+    },
+
+    users: {
+      getByEmail(email) {
+        return client.fetch<UserRecord | null>(queries.userByEmailQuery, { email });
+      },
+
+      async create(data) {
+        const user = await client.create({ _type: 'user', ...data });
+        return user as unknown as UserRecord;
+      },
+    },
+
+    views: {
+      async record(jobId, date) {
+        // Deterministic bucket id so concurrent views land on the same document
+        const statId = `jobViewStat-${jobId}-${date}`;
+        await client
+          .transaction()
+          .createIfNotExists({
+            _id: statId,
+            _type: 'jobViewStat',
+            // Weak, so recorded views don't stop the posting being deleted
+            job: { ...reference(jobId), _weak: true },
+            date,
+            count: 0,
+          })
+          .patch(statId, (patch) => patch.inc({ count: 1 }))
+          .patch(jobId, (patch) => patch.inc({ viewCount: 1 }))
+          .commit();
+      },
+
+      async listDailyForCompany(companyId, since) {
+        const buckets = await client.fetch<DailyViews[]>(queries.companyDailyViewsQuery, {
+          companyId,
+          since,
+        });
+        return sumByDate(buckets);
+      },
+    },
+
+    analytics: {
+      async getCompanyStats(companyId, since) {
+        const stats = await client.fetch(queries.companyStatsQuery, { companyId, since });
+        return { ...stats, totalViews: stats.totalViews || 0 };
+      },
+
+      listHiredApplications(companyId) {
+        return client.fetch(queries.hiredApplicationsQuery, { companyId });
+      },
+
+      listRecentApplications(companyId, limit) {
+        return client.fetch(queries.recentApplicationActivityQuery, { companyId, limit });
+      },
+
+      listRecentlyPublishedJobs(companyId, limit) {
+        return client.fetch(queries.recentJobActivityQuery, { companyId, limit });
+      },
+
+      listTopJobs(companyId, limit) {
+        return client.fetch(queries.topJobsQuery, { companyId, limit });
+      },
+
+      listApplicationDates(companyId, since) {
+        return client.fetch<string[]>(queries.applicationDatesQuery, { companyId, since });
+      },
+
+      async listJobExportRows(companyId, filter, after, limit) {
+        const rows = await client.fetch<JobExportRow[]>(queries.companyJobExportQuery, {
+          companyId,
+          ...companyJobFilterParams(filter),
+          jobIds: filter.jobIds ?? null,
+          after,
+          limit,
+        });
+        return rows.map(compact);
+      },
+    },
+  };
+}
@@ -0,0 +1,462 @@
+import type {
+  ApplicationStatusChange,
+  InterviewBooking,
+  Job,
+  Company,
+  JobApplication,
+  JobCategory,
+  ResumeDownload,
+  ResumeFile,
+  Scorecard,
+  User,
+} from '@/types';
+import type { DashboardStats, RecentActivity, JobPerformance } from '@/types/dashboard';
+import type {
+  JobListFilters,
+  JobListQuery,
+  JobSearchFilters,
+  JobTemplateValues,
+  SavedJobViewValues,
+  SavedSearchValues,
+} from '@/lib/validations/job';
+import type { ApplicationListQuery } from '@/lib/validations/application';
+
+// Backends selectable through DATA_BACKEND
+export type DataBackend = 'sanity' | 'memory';
+
+export interface Reference {
+  _type: 'reference';
+  _ref: string;
+}
+
+// Job posting as stored, with company and category left as references
+export type JobDocument = Omit<Job, 'company' | 'category'> & {
+  _type: 'jobPosting';
+  company: Reference;
+  category?: Reference;
+  // Original posting this one was reposted from
+  repostOf?: Reference;
+  createdAt?: string;
+};
+
+// Job application as stored, with the job left as a reference
+export type ApplicationDocument = Omit<JobApplication, 'job'> & {
+  _type: 'jobApplication';
+  job: Reference;
+  // SHA-256 of the applicant's current interview scheduling token
+  schedulingTokenHash?: string;
+  // Only used for searching, so not loaded with the application
+  resumeText?: string;
+};
+
+// Job template as stored; templates without a company are shared starters
+export type JobTemplateDocument = Omit<JobTemplateValues, 'category'> & {
+  _id: string;
+  _type: 'jobTemplate';
+  company?: Reference;
+  category?: Reference;
+  createdAt?: string;
+};
+
+// Template as offered in the job form, with the category flattened to its ID
+export type JobTemplate = JobTemplateValues & {
+  _id: string;
+  shared: boolean;
+};
+
+// Who made a change; `system` for scheduled tasks
+export interface RevisionActor {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface JobRevision {
+  _id: string;
+  jobId: string;
+  actor: RevisionActor;
+  changes: FieldChange[];
+  // Revision this one rolled the job back to
+  restoredFrom?: string;
+  createdAt: string;
+}
+
+// One write in a batch of job changes, with the revision that logs it
+export type JobBatchOperation =
+  | {
+      type: 'update';
+      jobId: string;
+      data: JobInput;
+      unset?: string[];
+      revision?: Omit<JobRevision, '_id'>;
+    }
+  | { type: 'delete'; jobId: string };
+
+// Jobs table filters an employer saved under a name
+export type SavedJobView = SavedJobViewValues & {
+  _id: string;
+  createdAt?: string;
+};
+
+// A job seeker's saved /jobs search. lastRunAt is when new matches were
+// last looked for, so the next alert only has newer postings
+export type SavedSearch = SavedSearchValues & {
+  _id: string;
+  createdAt: string;
+  lastRunAt: string;
+};
+
+// A saved search with where to send its alerts
+export type SavedSearchAlert = SavedSearch & {
+  userId: string;
+  email: string;
+  userName?: string;
+};
+
+// A posting a job seeker bookmarked. The job comes whatever its status, so
+// the saved list can say when it has closed
+export interface SavedJob {
+  _id: string;
+  savedAt: string;
+  job: Job;
+}
+
+// A saved job whose application deadline is coming up, with who saved it
+export interface SavedJobDeadline {
+  _id: string;
+  email: string;
+  userName?: string;
+  jobTitle: string;
+  jobSlug: string;
+  companyName: string;
+  applicationDeadline: string;
+}
+
+// Per-job, per-day view counter
+export interface JobViewStat {
+  _id: string;
+  _type: 'jobViewStat';
+  job: Reference;
+  date: string;
+  count: number;
+}
+
+export interface DailyViews {
+  date: string;
+  views: number;
+}
+
+// Row shape used by the employer jobs table
+export interface JobSummary {
+  _id: string;
+  title: string;
+  status: Job['status'];
+  viewCount: number;
+  applicationCount: number;
+  publishAt?: string;
+  publishedAt?: string;
+  applicationDeadline?: string;
+  expiresAt?: string;
+  repostOf?: string;
+  slug: string;
+}
+
+// Job with its performance numbers, one row of a dashboard export
+export interface JobExportRow {
+  _id: string;
+  title: string;
+  status: Job['status'];
+  category?: string;
+  createdAt?: string;
+  publishedAt?: string;
+  expiresAt?: string;
+  applicationDeadline?: string;
+  location?: Job['location'];
+  salaryType?: Job['salaryType'];
+  salaryMin?: number;
+  salaryMax?: number;
+  viewCount: number;
+  applicationCount: number;
+  applicationsByStatus: Record<JobApplication['status'], number>;
+}
+
+// Narrows an export to what the jobs table is showing
+export interface JobExportFilter extends Partial<Omit<JobListFilters, 'sort' | 'direction'>> {
+  jobIds?: string[];
+}
+
+// Job about to lapse, with the addresses that should hear about it
+export interface ExpiringJob {
+  _id: string;
+  title: string;
+  slug: string;
+  expiresAt: string;
+  companyName: string;
+  recipients: string[];
+}
+
+export type JobSearchParams = JobSearchFilters & {
+  page: number;
+  pageSize: number;
+};
+
+export interface CompanySearchParams {
+  page: number;
+  pageSize: number;
+  search: string;
+  size: string;
+  location: string;
+}
+
+// Fields accepted when creating or updating a job posting
+export type JobInput = Partial<
+  Omit<JobDocument, '_id' | '_type' | 'company' | 'category' | 'description'>
+> & {
+  category?: string;
+  description?: Job['description'] | string;
+};
+
+export type CompanyInput = Partial<Omit<Company, '_id' | 'jobCount' | 'activeJobs'>>;
+
+export interface ApplicationInput {
+  jobId: string;
+  applicantInfo: JobApplication['applicantInfo'];
+  coverMessage?: string;
+  resumeText?: string;
+  screeningAnswers?: JobApplication['screeningAnswers'];
+  knockedOut?: boolean;
+}
+
+export type ApplicationPatch = Partial<
+  Pick<ApplicationDocument, 'employerNotes' | 'rating' | 'interviewDate' | 'schedulingTokenHash'>
+>;
+
+// Checked resume ready to store
+export interface ResumeUpload {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+// Time an employer has set aside for interviews for one job
+export interface InterviewSlot {
+  _id: string;
+  jobId: string;
+  startsAt: string;
+  endsAt: string;
+  // Address, phone number or video call link
+  location?: string;
+  // Application whose interview is booked into the slot
+  applicationId?: string;
+  createdAt?: string;
+}
+
+export type InterviewSlotInput = Pick<InterviewSlot, 'jobId' | 'startsAt' | 'endsAt' | 'location'>;
+
+// User document as stored (session users carry `id` instead of `_id`)
+export interface UserRecord {
+  _id: string;
+  email: string;
+  name?: string;
+  image?: string;
+  role: User['role'];
+  companyId?: string;
+  createdAt?: string;
+}
+
+export interface JobRepository {
+  search(params: JobSearchParams): Promise<{ jobs: Job[]; total: number }>;
+  getBySlug(slug: string): Promise<Job | null>;
+  getById(jobId: string): Promise<JobDocument | null>;
+  listRelated(currentSlug: string, categoryId: string, city: string): Promise<Job[]>;
+  listByCompanySlug(companySlug: string): Promise<Job[]>;
+  listPublishedSlugs(): Promise<string[]>;
+  listForCompany(
+    companyId: string,
+    params: JobListQuery
+  ): Promise<{ jobs: JobSummary[]; total: number }>;
+  getForCompany(jobId: string, companyId: string): Promise<JobDocument | null>;
+  listByIdsForCompany(jobIds: string[], companyId: string): Promise<JobDocument[]>;
+  // `today` is a YYYY-MM-DD date compared against applicationDeadline
+  listDueForExpiry(now: string, today: string): Promise<string[]>;
+  listDueForPublish(now: string): Promise<string[]>;
+  listExpiringSoon(now: string, until: string): Promise<ExpiringJob[]>;
+  // Live jobs matching a search that were published after `since`, newest first
+  listPublishedSince(filters: JobSearchFilters, since: string, limit: number): Promise<Job[]>;
+  create(data: JobInput, companyId: string): Promise<JobDocument>;
+  // `unset` clears fields that have no value to set
+  update(jobId: string, data: JobInput, unset?: string[]): Promise<JobDocument>;
+  delete(jobId: string): Promise<void>;
+  // Apply every operation or none of them
+  commitBatch(operations: JobBatchOperation[]): Promise<void>;
+}
+
+export interface CompanyRepository {
+  search(params: CompanySearchParams): Promise<Company[]>;
+  getBySlug(slug: string): Promise<Company | null>;
+  listSlugs(): Promise<string[]>;
+  create(data: CompanyInput, ownerId: string): Promise<Company>;
+  update(companyId: string, data: CompanyInput): Promise<Company>;
+  // The company's contact email plus its employer users'
+  listContactEmails(companyId: string): Promise<string[]>;
+}
+
+export interface ApplicationRepository {
+  // Matches on the normalized email or phone, so the same person can't apply
+  // twice with different spellings of either
+  hasApplied(jobId: string, email: string, phone: string): Promise<boolean>;
+  // Newest first
+  listForCompany(
+    companyId: string,
+    params: ApplicationListQuery
+  ): Promise<{ applications: JobApplication[]; total: number }>;
+  getForCompany(applicationId: string, companyId: string): Promise<JobApplication | null>;
+  getBySchedulingToken(tokenHash: string): Promise<JobApplication | null>;
+  // Also counts the application on its job, in the same transaction
+  create(data: ApplicationInput): Promise<JobApplication>;
+  // `unset` clears fields that have no value to set
+  update(applicationId: string, data: ApplicationPatch, unset?: string[]): Promise<void>;
+  // Set the status and append the change to statusHistory. Resolves false when
+  // the status is no longer `change.from`, e.g. because a teammate moved the
+  // application first
+  updateStatus(
+    applicationId: string,
+    change: ApplicationStatusChange & { from: JobApplication['status'] }
+  ): Promise<boolean>;
+  // Add the reviewer's scorecard, replacing their earlier one, and refresh
+  // the application's average
+  saveScorecard(applicationId: string, scorecard: Scorecard): Promise<void>;
+  appendResumeDownload(applicationId: string, download: ResumeDownload): Promise<void>;
+}
+
+export interface InterviewRepository {
+  // Earliest first
+  listForJob(jobId: string): Promise<InterviewSlot[]>;
+  get(slotId: string): Promise<InterviewSlot | null>;
+  create(data: InterviewSlotInput): Promise<InterviewSlot>;
+  delete(slotId: string): Promise<void>;
+  // Claim the slot for the application, record the booking on it and free
+  // `releaseSlotId` when rescheduling. Resolves false when the slot is taken
+  book(
+    slotId: string,
+    applicationId: string,
+    interview: InterviewBooking,
+    releaseSlotId?: string
+  ): Promise<boolean>;
+  // Store the cancelled booking and free its slot
+  cancel(applicationId: string, interview: InterviewBooking): Promise<void>;
+}
+
+export interface ResumeRepository {
+  upload(file: ResumeUpload): Promise<ResumeFile>;
+  // The stored file, or null when the asset no longer exists
+  download(assetId: string): Promise<ResumeUpload | null>;
+}
+
+export interface RevisionRepository {
+  // Newest first
+  listForJob(jobId: string): Promise<JobRevision[]>;
+  create(data: Omit<JobRevision, '_id'>): Promise<JobRevision>;
+}
+
+export interface TemplateRepository {
+  // The company's own templates plus shared ones
+  listForCompany(companyId: string): Promise<JobTemplate[]>;
+  create(data: JobTemplateValues, companyId: string): Promise<JobTemplate>;
+  // Resolves false when the template isn't owned by the company
+  delete(templateId: string, companyId: string): Promise<boolean>;
+}
+
+export interface CategoryRepository {
+  list(): Promise<JobCategory[]>;
+  listPopular(): Promise<JobCategory[]>;
+}
+
+export interface UserRepository {
+  getByEmail(email: string): Promise<UserRecord | null>;
+  create(data: Omit<UserRecord, '_id'>): Promise<UserRecord>;
+}
+
+export interface SavedViewRepository {
+  listForUser(userId: string): Promise<SavedJobView[]>;
+  create(data: SavedJobViewValues, userId: string): Promise<SavedJobView>;
+  // Resolves false when the view doesn't belong to the user
+  delete(viewId: string, userId: string): Promise<boolean>;
+}
+
+export interface SavedSearchRepository {
+  listForUser(userId: string): Promise<SavedSearch[]>;
+  create(data: SavedSearchValues, userId: string): Promise<SavedSearch>;
+  // Both resolve false when the search doesn't belong to the user
+  update(searchId: string, userId: string, data: Pick<SavedSearchValues, 'frequency'>): Promise<boolean>;
+  delete(searchId: string, userId: string): Promise<boolean>;
+  listForAlerts(): Promise<SavedSearchAlert[]>;
+  markRun(searchId: string, runAt: string): Promise<void>;
+}
+
+export interface SavedJobRepository {
+  // Newest first; jobs deleted since are left out
+  listForUser(userId: string): Promise<SavedJob[]>;
+  listJobIdsForUser(userId: string): Promise<string[]>;
+  // Saving a job twice keeps the first save
+  save(jobId: string, userId: string): Promise<void>;
+  // Resolves false when the user hadn't saved the job
+  remove(jobId: string, userId: string): Promise<boolean>;
+  // Published jobs with a deadline from `today` to `until` (YYYY-MM-DD) that
+  // the user hasn't applied to or been reminded about for that deadline
+  listDeadlineReminders(today: string, until: string): Promise<SavedJobDeadline[]>;
+  markDeadlineReminded(savedJobId: string, applicationDeadline: string): Promise<void>;
+}
+
+export interface ViewRepository {
+  // Bump the day's bucket and the job's running viewCount together
+  record(jobId: string, date: string): Promise<void>;
+  listDailyForCompany(companyId: string, since: string): Promise<DailyViews[]>;
+}
+
+// Aggregates backing the employer dashboard
+export interface AnalyticsRepository {
+  getCompanyStats(
+    companyId: string,
+    since: string
+  ): Promise<Omit<DashboardStats, 'averageTimeToHire'>>;
+  // Hires with a recorded move to hired
+  listHiredApplications(
+    companyId: string
+  ): Promise<Array<{ appliedDate: string; hiredAt: string }>>;
+  listRecentApplications(companyId: string, limit: number): Promise<RecentActivity[]>;
+  listRecentlyPublishedJobs(companyId: string, limit: number): Promise<RecentActivity[]>;
+  listTopJobs(companyId: string, limit: number): Promise<JobPerformance[]>;
+  listApplicationDates(companyId: string, since: string): Promise<string[]>;
+  // One page of export rows ordered by ID, starting after the `after` cursor
+  listJobExportRows(
+    companyId: string,
+    filter: JobExportFilter,
+    after: string | null,
+    limit: number
+  ): Promise<JobExportRow[]>;
+}
+
+export interface DataRepository {
+  backend: DataBackend;
+  jobs: JobRepository;
+  companies: CompanyRepository;
+  applications: ApplicationRepository;
+  interviews: InterviewRepository;
+  resumes: ResumeRepository;
+  revisions: RevisionRepository;
+  templates: TemplateRepository;
+  categories: CategoryRepository;
+  users: UserRepository;
+  views: ViewRepository;
+  savedViews: SavedViewRepository;
+  savedSearches: SavedSearchRepository;
+  savedJobs: SavedJobRepository;
+  analytics: AnalyticsRepository;
+}
@@ -0,0 +1,52 @@
+import { env } from '@/lib/env';
+import { createConsoleProvider, createFileProvider } from './file-provider';
+import { createResendProvider } from './resend-provider';
+import { createSmtpProvider } from './smtp-provider';
+import { renderEmail, type EmailTemplateName, type EmailTemplates } from './templates';
+import type { EmailData, EmailProvider, EmailResult } from './types';
+
+export type * from './types';
+
+const globalForEmail = globalThis as typeof globalThis & {
+  emailProvider?: EmailProvider;
+};
+
+function createEmailProvider(): EmailProvider {
+  switch (env.email.provider) {
+    case 'smtp':
+      return createSmtpProvider(env.email.smtp);
+    case 'file':
+      return createFileProvider(env.email.outputDir);
+    case 'console':
+      return createConsoleProvider();
+    default:
+      // Without an API key (local dev), log instead of sending
+      return env.email.resendApiKey
+        ? createResendProvider(env.email.resendApiKey)
+        : createConsoleProvider();
+  }
+}
+
+export function getEmailProvider(): EmailProvider {
+  if (!globalForEmail.emailProvider) {
+    globalForEmail.emailProvider = createEmailProvider();
+  }
+  return globalForEmail.emailProvider;
+}
+
+export async function sendEmail(data: EmailData): Promise<EmailResult> {
+  return getEmailProvider().send({
+    ...data,
+    from: env.email.from,
+    replyTo: env.email.replyTo,
+  });
+}
+
+// Render one of the typed templates and send it
+export async function sendTemplateEmail<T extends EmailTemplateName>(
+  to: string | string[],
+  template: T,
+  props: EmailTemplates[T]
+): Promise<EmailResult> {
+  return sendEmail({ to, ...renderEmail(template, props) });
+}
@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { buildMimeMessage, toRecipientList } from './mime';
+import type { EmailProvider } from './types';
+
+// Local transports for development and tests: nothing leaves the machine
+
+/**
+ * Write each message to `directory` as an .eml file, which opens in any mail
+ * client, alongside its HTML part for a quick look in the browser.
+ */
+export function createFileProvider(directory: string): EmailProvider {
+  return {
+    name: 'file',
+
+    async send(email) {
+      try {
+        const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+        const messageId = `${id}@localhost`;
+        await mkdir(directory, { recursive: true });
+        await writeFile(join(directory, `${id}.eml`), buildMimeMessage(email, messageId));
+        if (email.html) {
+          await writeFile(join(directory, `${id}.html`), email.html);
+        }
+
+        console.info(`Email written to ${join(directory, `${id}.eml`)}:`, email.subject);
+        return { success: true, id: messageId };
+      } catch (error) {
+        console.error('Email send error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to write email',
+        };
+      }
+    },
+  };
+}
+
+// Print the plain text version, links included, to the server log
+export function createConsoleProvider(): EmailProvider {
+  return {
+    name: 'console',
+
+    async send(email) {
+      console.info(
+        [
+          `Email (not sent) to ${toRecipientList(email.to).join(', ')}: ${email.subject}`,
+          ...(email.attachments?.length
+            ? [`Attachments: ${email.attachments.map((attachment) => attachment.filename).join(', ')}`]
+            : []),
+          '',
+          email.text,
+        ].join('\n')
+      );
+      return { success: true };
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { randomBytes } from 'crypto';
+import type { EmailAttachment, OutgoingEmail } from './types';
+
+const CRLF = '\r\n';
+
+// Header values outside printable ASCII go in as a base64 encoded-word
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(data: Buffer) {
+  return (data.toString('base64').match(/.{1,76}/g) || []).join(CRLF);
+}
+
+// Quoted-printable keeps plain text and HTML parts readable in the raw message
+function encodeQuotedPrintable(text: string) {
+  const lines = text.replace(/\r\n|\r/g, '\n').split('\n');
+
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf8');
+      let encoded = '';
+      let lineLength = 0;
+
+      for (let index = 0; index < bytes.length; index++) {
+        const byte = bytes[index];
+        const isLast = index === bytes.length - 1;
+        // Trailing whitespace would be stripped in transit
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const chunk = literal
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+        // Soft line break, leaving room for the `=`
+        if (lineLength + chunk.length > 75) {
+          encoded += `=${CRLF}`;
+          lineLength = 0;
+        }
+        encoded += chunk;
+        lineLength += chunk.length;
+      }
+
+      return encoded;
+    })
+    .join(CRLF);
+}
+
+function boundary() {
+  return `=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+function textPart(contentType: string, content: string) {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(content),
+  ].join(CRLF);
+}
+
+function attachmentPart(attachment: EmailAttachment) {
+  const filename = attachment.filename.replace(/["\\\r\n]/g, '');
+  return [
+    `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    '',
+    wrapBase64(Buffer.from(attachment.content, 'utf8')),
+  ].join(CRLF);
+}
+
+function multipart(subtype: 'alternative' | 'mixed', parts: string[]) {
+  const separator = boundary();
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${separator}"`,
+    '',
+    ...parts.map((part) => `--${separator}${CRLF}${part}`),
+    `--${separator}--`,
+  ].join(CRLF);
+}
+
+export function toRecipientList(to: string | string[]) {
+  return Array.isArray(to) ? to : [to];
+}
+
+/**
+ * The full RFC 5322 message for an email: headers, a plain text part, an
+ * HTML alternative when there is one, and any attachments.
+ */
+export function buildMimeMessage(email: OutgoingEmail, messageId: string, date = new Date()) {
+  const body = email.html
+    ? multipart('alternative', [
+        textPart('text/plain', email.text),
+        textPart('text/html', email.html),
+      ])
+    : textPart('text/plain', email.text);
+
+  const content = email.attachments?.length
+    ? multipart('mixed', [body, ...email.attachments.map(attachmentPart)])
+    : body;
+
+  const headers = [
+    `From: ${email.from}`,
+    `To: ${toRecipientList(email.to).join(', ')}`,
+    ...(email.replyTo ? [`Reply-To: ${email.replyTo}`] : []),
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    ...Object.entries(email.headers || {}).map(([name, value]) => `${name}: ${encodeHeader(value)}`),
+    'MIME-Version: 1.0',
+  ];
+
+  return `${headers.join(CRLF)}${CRLF}${content}${CRLF}`;
+}
@@ -0,0 +1,50 @@
+import type { EmailProvider } from './types';
+
+const RESEND_ENDPOINT = 'https://api.resend.com/emails';
+
+export function createResendProvider(apiKey: string): EmailProvider {
+  return {
+    name: 'resend',
+
+    async send(email) {
+      try {
+        const response = await fetch(RESEND_ENDPOINT, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: email.from,
+            reply_to: email.replyTo,
+            to: email.to,
+            subject: email.subject,
+            text: email.text,
+            html: email.html,
+            headers: email.headers,
+            // Resend takes attachment content base64-encoded
+            attachments: email.attachments?.map((attachment) => ({
+              filename: attachment.filename,
+              content: Buffer.from(attachment.content).toString('base64'),
+              content_type: attachment.contentType,
+            })),
+          }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          return { success: false, error: result?.message || response.statusText };
+        }
+
+        return { success: true, id: result.id };
+      } catch (error) {
+        console.error('Email send error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to send email',
+        };
+      }
+    },
+  };
+}
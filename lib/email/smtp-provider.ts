@@ -0,0 +1,220 @@
+import { randomBytes } from 'crypto';
+import { connect as connectTcp, type Socket } from 'net';
+import { hostname } from 'os';
+import { connect as connectTls } from 'tls';
+import { buildMimeMessage, toRecipientList } from './mime';
+import type { EmailProvider } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise the
+  // connection is upgraded with STARTTLS when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Send credentials over a connection that isn't encrypted, for local
+  // relays without TLS. Off by default
+  allowInsecureAuth?: boolean;
+}
+
+interface SmtpResponse {
+  code: number;
+  message: string;
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// Envelope address out of "Name <address>"
+function envelopeAddress(value: string) {
+  return value.match(/<([^>]+)>/)?.[1] || value.trim();
+}
+
+// One SMTP conversation: commands go out a line at a time and each resolves
+// with the server's (possibly multi-line) reply
+function openSession(initialSocket: Socket, host: string) {
+  let socket = initialSocket;
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const responses: SmtpResponse[] = [];
+  const waiting: Array<{ resolve: (response: SmtpResponse) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = {
+          code: Number(line.slice(0, 3)),
+          message: lines.map((item) => item.slice(4)).join('\n'),
+        };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(response);
+        else responses.push(response);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = failure || error;
+    waiting.splice(0).forEach((waiter) => waiter.reject(failure!));
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+  const onTimeout = () => socket.destroy(new Error('SMTP server timed out'));
+
+  const attach = (target: Socket) => {
+    target.setTimeout(TIMEOUT_MS);
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('close', onClose);
+    target.on('timeout', onTimeout);
+  };
+
+  const detach = (target: Socket) => {
+    target.off('data', onData);
+    target.off('error', onError);
+    target.off('close', onClose);
+    target.off('timeout', onTimeout);
+  };
+
+  const read = () =>
+    new Promise<SmtpResponse>((resolve, reject) => {
+      const response = responses.shift();
+      if (response) resolve(response);
+      else if (failure) reject(failure);
+      else waiting.push({ resolve, reject });
+    });
+
+  const expect = async (expected: number[], step: string) => {
+    const response = await read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${step} failed: ${response.code} ${response.message}`);
+    }
+    return response;
+  };
+
+  attach(socket);
+
+  return {
+    expect,
+
+    // Only the command's verb goes into errors, so credentials never do
+    command(line: string, expected: number[]) {
+      socket.write(`${line}\r\n`);
+      return expect(expected, line.split(' ')[0]);
+    },
+
+    write(data: string) {
+      socket.write(data);
+    },
+
+    upgrade() {
+      detach(socket);
+      return new Promise<void>((resolve, reject) => {
+        const secured = connectTls({ socket, servername: host }, () => {
+          secured.off('error', reject);
+          resolve();
+        });
+        secured.once('error', reject);
+        socket = secured;
+        attach(secured);
+      });
+    },
+
+    close() {
+      detach(socket);
+      socket.end();
+    },
+
+    destroy() {
+      detach(socket);
+      socket.destroy();
+    },
+  };
+}
+
+function connect({ host, port, secure }: SmtpOptions) {
+  return new Promise<Socket>((resolve, reject) => {
+    const onConnect = () => {
+      socket.off('error', reject);
+      resolve(socket);
+    };
+    const socket = secure
+      ? connectTls({ host, port, servername: host }, onConnect)
+      : connectTcp({ host, port }, onConnect);
+    socket.once('error', reject);
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+  });
+}
+
+/**
+ * Send through any SMTP server, e.g. a local Mailpit for development or a
+ * relay in production. One connection per message.
+ */
+export function createSmtpProvider(options: SmtpOptions): EmailProvider {
+  return {
+    name: 'smtp',
+
+    async send(email) {
+      let session: ReturnType<typeof openSession> | null = null;
+
+      try {
+        session = openSession(await connect(options), options.host);
+        const from = envelopeAddress(email.from);
+        const messageId = `${randomBytes(12).toString('hex')}@${from.split('@')[1] || options.host}`;
+
+        // EHLO names this machine, not the server
+        const client = hostname() || 'localhost';
+        await session.expect([220], 'greeting');
+        const hello = await session.command(`EHLO ${client}`, [250]);
+
+        let encrypted = options.secure;
+        if (!encrypted && /^STARTTLS$/im.test(hello.message)) {
+          await session.command('STARTTLS', [220]);
+          await session.upgrade();
+          encrypted = true;
+          // The server forgets everything said before the upgrade
+          await session.command(`EHLO ${client}`, [250]);
+        }
+
+        if (options.user) {
+          if (!encrypted && !options.allowInsecureAuth) {
+            throw new Error(
+              'SMTP server does not offer STARTTLS; refusing to send credentials unencrypted'
+            );
+          }
+          const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+          await session.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await session.command(`MAIL FROM:<${from}>`, [250]);
+        for (const recipient of toRecipientList(email.to)) {
+          await session.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251]);
+        }
+
+        await session.command('DATA', [354]);
+        // Lines starting with a dot are doubled so none ends the message early
+        session.write(buildMimeMessage(email, messageId).replace(/^\./gm, '..'));
+        await session.command('.', [250]);
+        await session.command('QUIT', [221]);
+        session.close();
+
+        return { success: true, id: messageId };
+      } catch (error) {
+        session?.destroy();
+        console.error('Email send error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to send email',
+        };
+      }
+    },
+  };
+}
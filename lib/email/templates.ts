@@ -0,0 +1,269 @@
+import { format, parseISO } from 'date-fns';
+import type { ApplicationStatus } from '@/lib/application-status';
+
+const SITE_NAME = 'Colorado Trades Jobs';
+
+// Messages are written once as blocks and rendered to both HTML and text
+type EmailBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'button'; label: string; url: string }
+  | { kind: 'details'; rows: Array<[label: string, value: string]> }
+  | { kind: 'links'; items: Array<{ label: string; url: string; detail?: string }> };
+
+interface EmailContent {
+  subject: string;
+  blocks: EmailBlock[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Props of each message, keyed by template name
+export interface EmailTemplates {
+  // To the employer
+  applicationReceived: {
+    jobTitle: string;
+    applicantName: string;
+    applicantEmail: string;
+    applicantPhone: string;
+    knockedOut: boolean;
+    inboxUrl: string;
+  };
+  // To the applicant
+  applicationConfirmation: {
+    applicantName: string;
+    jobTitle: string;
+    companyName: string;
+    jobUrl: string;
+  };
+  // To the applicant
+  applicationStatusChanged: {
+    applicantName: string;
+    jobTitle: string;
+    companyName: string;
+    status: Exclude<ApplicationStatus, 'new'>;
+  };
+  // To the employer
+  postingExpiring: {
+    companyName?: string;
+    jobTitle: string;
+    expiresAt: string;
+    daysLeft: number;
+    renewalDays: number;
+    dashboardUrl: string;
+    jobUrl: string;
+  };
+  // To a job seeker with a saved search
+  jobAlert: {
+    userName?: string;
+    searchName: string;
+    jobs: Array<{ title: string; companyName: string; location: string; url: string }>;
+    // Only the newest jobs are listed when there are more
+    hasMore: boolean;
+    searchUrl: string;
+    manageUrl: string;
+    unsubscribeUrl: string;
+  };
+  // To a job seeker who saved a job they haven't applied to
+  savedJobDeadline: {
+    userName?: string;
+    jobTitle: string;
+    companyName: string;
+    applicationDeadline: string;
+    daysLeft: number;
+    jobUrl: string;
+    savedJobsUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+const paragraph = (text: string): EmailBlock => ({ kind: 'paragraph', text });
+
+const STATUS_MESSAGES: Record<EmailTemplates['applicationStatusChanged']['status'], (company: string) => string> = {
+  reviewed: (company) => `${company} has reviewed your application.`,
+  interviewing: (company) => `${company} would like to interview you. They'll send a link to pick a time.`,
+  hired: (company) => `Congratulations! ${company} has marked you as hired. They'll be in touch about next steps.`,
+  rejected: (company) => `${company} has decided to move forward with other candidates. Thank you for applying, and good luck with your search.`,
+};
+
+const templates: { [T in EmailTemplateName]: (props: EmailTemplates[T]) => EmailContent } = {
+  applicationReceived: (props) => ({
+    subject: `New application for ${props.jobTitle}`,
+    blocks: [
+      paragraph(`${props.applicantName} applied for ${props.jobTitle}.`),
+      {
+        kind: 'details',
+        rows: [
+          ['Email', props.applicantEmail],
+          ['Phone', props.applicantPhone],
+        ],
+      },
+      ...(props.knockedOut ? [paragraph('One or more screening answers failed a knockout question.')] : []),
+      { kind: 'button', label: 'Review the application', url: props.inboxUrl },
+    ],
+  }),
+
+  applicationConfirmation: (props) => ({
+    subject: `We sent your application for ${props.jobTitle}`,
+    blocks: [
+      paragraph(`Hi ${props.applicantName},`),
+      paragraph(`Your application for ${props.jobTitle} at ${props.companyName} has been sent. We'll email you when the employer updates it.`),
+      { kind: 'button', label: 'View the job', url: props.jobUrl },
+    ],
+  }),
+
+  applicationStatusChanged: (props) => ({
+    subject: `Update on your application for ${props.jobTitle}`,
+    blocks: [
+      paragraph(`Hi ${props.applicantName},`),
+      paragraph(STATUS_MESSAGES[props.status](props.companyName)),
+    ],
+  }),
+
+  postingExpiring: (props) => ({
+    subject: `"${props.jobTitle}" expires in ${props.daysLeft} day${props.daysLeft === 1 ? '' : 's'}`,
+    blocks: [
+      paragraph(`Hi ${props.companyName || 'there'},`),
+      paragraph(
+        `Your job posting "${props.jobTitle}" will stop accepting applicants on ${format(new Date(props.expiresAt), 'MMMM d, yyyy')}. ` +
+          `Renew it for another ${props.renewalDays} days from your dashboard.`
+      ),
+      { kind: 'button', label: 'Renew the posting', url: props.dashboardUrl },
+      paragraph(`View the posting: ${props.jobUrl}`),
+    ],
+  }),
+
+  jobAlert: (props) => ({
+    subject: props.hasMore || props.jobs.length > 1
+      ? `${props.jobs.length}${props.hasMore ? '+' : ''} new jobs for "${props.searchName}"`
+      : `A new job for "${props.searchName}"`,
+    blocks: [
+      paragraph(`Hi ${props.userName || 'there'},`),
+      paragraph(`New jobs matching your saved search "${props.searchName}":`),
+      {
+        kind: 'links',
+        items: props.jobs.map((job) => ({
+          label: job.title,
+          url: job.url,
+          detail: `${job.companyName} · ${job.location}`,
+        })),
+      },
+      { kind: 'button', label: props.hasMore ? 'See all new jobs' : 'See all matching jobs', url: props.searchUrl },
+      {
+        kind: 'links',
+        items: [
+          { label: 'Manage your job alerts', url: props.manageUrl },
+          { label: 'Unsubscribe from this alert', url: props.unsubscribeUrl },
+        ],
+      },
+    ],
+  }),
+
+  savedJobDeadline: (props) => ({
+    subject: props.daysLeft === 0
+      ? `Last day to apply: ${props.jobTitle}`
+      : `Applications for ${props.jobTitle} close in ${props.daysLeft} day${props.daysLeft === 1 ? '' : 's'}`,
+    blocks: [
+      paragraph(`Hi ${props.userName || 'there'},`),
+      paragraph(
+        `You saved a job you haven't applied to yet. Applications for ${props.jobTitle} at ${props.companyName} ` +
+          `close on ${format(parseISO(props.applicationDeadline), 'MMMM d, yyyy')}.`
+      ),
+      { kind: 'button', label: 'Apply now', url: props.jobUrl },
+      paragraph(`See all your saved jobs: ${props.savedJobsUrl}`),
+    ],
+  }),
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderText(blocks: EmailBlock[]) {
+  return blocks
+    .map((block) => {
+      switch (block.kind) {
+        case 'paragraph':
+          return block.text;
+        case 'button':
+          return `${block.label}: ${block.url}`;
+        case 'details':
+          return block.rows.map(([label, value]) => `${label}: ${value}`).join('\n');
+        case 'links':
+          return block.items
+            .map((item) => [item.label, item.detail, item.url].filter(Boolean).join('\n'))
+            .join('\n\n');
+      }
+    })
+    .join('\n\n');
+}
+
+// Inline styles and tables, which is what mail clients reliably support
+function renderHtml(subject: string, blocks: EmailBlock[]) {
+  const content = blocks
+    .map((block) => {
+      switch (block.kind) {
+        case 'paragraph':
+          return `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(block.text)}</p>`;
+        case 'button':
+          return (
+            `<p style="margin:0 0 16px"><a href="${escapeHtml(block.url)}" ` +
+            'style="display:inline-block;padding:10px 18px;background:#1d4ed8;color:#ffffff;' +
+            `border-radius:6px;text-decoration:none;font-weight:600">${escapeHtml(block.label)}</a></p>`
+          );
+        case 'details':
+          return (
+            '<table role="presentation" style="margin:0 0 16px;border-collapse:collapse">' +
+            block.rows
+              .map(
+                ([label, value]) =>
+                  `<tr><td style="padding:2px 16px 2px 0;color:#6b7280">${escapeHtml(label)}</td>` +
+                  `<td style="padding:2px 0">${escapeHtml(value)}</td></tr>`
+              )
+              .join('') +
+            '</table>'
+          );
+        case 'links':
+          return block.items
+            .map(
+              (item) =>
+                `<p style="margin:0 0 16px;line-height:1.5"><a href="${escapeHtml(item.url)}" ` +
+                `style="color:#1d4ed8;font-weight:600">${escapeHtml(item.label)}</a>` +
+                (item.detail ? `<br><span style="color:#6b7280">${escapeHtml(item.detail)}</span>` : '') +
+                '</p>'
+            )
+            .join('');
+      }
+    })
+    .join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">',
+    '<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px">',
+    `<tr><td style="padding:20px 24px;border-bottom:1px solid #e5e7eb;font-weight:700">${SITE_NAME}</td></tr>`,
+    `<tr><td style="padding:24px">${content}</td></tr>`,
+    '</table>',
+    `<p style="text-align:center;font-size:12px;color:#6b7280">Sent by ${SITE_NAME}</p>`,
+    '</body></html>',
+  ].join('\n');
+}
+
+export function renderEmail<T extends EmailTemplateName>(template: T, props: EmailTemplates[T]): RenderedEmail {
+  const { subject, blocks } = templates[template](props);
+  return {
+    subject,
+    text: renderText(blocks),
+    html: renderHtml(subject, blocks),
+  };
+}
@@ -0,0 +1,34 @@
+export interface EmailData {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+  // Extra message headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+// A message with its sender filled in, ready for a provider
+export interface OutgoingEmail extends EmailData {
+  from: string;
+  replyTo?: string;
+}
+
+export interface EmailProvider {
+  // Shown in logs, e.g. "resend"
+  name: string;
+  // Resolves a failed result rather than throwing
+  send(email: OutgoingEmail): Promise<EmailResult>;
+}
@@ -1,3 +1,6 @@
+// Which transport sends email: resend (default), smtp, file or console
+const emailProvider = (process.env.EMAIL_PROVIDER || 'resend') as 'resend' | 'smtp' | 'file' | 'console'
+
 // Validate required environment variables
 const requiredEnvVars = {
   // Public vars (exposed to client)
@@ -10,8 +13,9 @@ const requiredEnvVars = {
   NEXTAUTH_SECRET: process.env.NEXTAUTH_SECRET,
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
-  RESEND_API_KEY: process.env.RESEND_API_KEY,
   EMAIL_FROM: process.env.EMAIL_FROM,
+  ...(emailProvider === 'resend' && { RESEND_API_KEY: process.env.RESEND_API_KEY }),
+  ...(emailProvider === 'smtp' && { SMTP_HOST: process.env.SMTP_HOST }),
 }
 
 // Check for missing vars
@@ -27,6 +31,9 @@ if (missingVars.length > 0 && process.env.NODE_ENV === 'production') {
 
 // Export validated env vars
 export const env = {
+  data: {
+    backend: (process.env.DATA_BACKEND === 'memory' ? 'memory' : 'sanity') as 'sanity' | 'memory',
+  },
   sanity: {
     projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID!,
     dataset: process.env.NEXT_PUBLIC_SANITY_DATASET!,
@@ -41,8 +48,22 @@ export const env = {
     clientId: process.env.GOOGLE_CLIENT_ID!,
     clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
   },
+  cron: {
+    secret: process.env.CRON_SECRET!,
+  },
   email: {
+    provider: emailProvider,
     resendApiKey: process.env.RESEND_API_KEY!,
+    smtp: {
+      host: process.env.SMTP_HOST!,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    },
+    // Where the file provider writes messages
+    outputDir: process.env.EMAIL_OUTPUT_DIR || '.emails',
     from: process.env.EMAIL_FROM!,
     replyTo: process.env.EMAIL_REPLY_TO || process.env.EMAIL_FROM!,
   },
@@ -0,0 +1,90 @@
+import type { InterviewBooking } from '@/types';
+
+export interface InterviewEvent {
+  // Stable across reschedules so calendar apps update the same event
+  uid: string;
+  interview: InterviewBooking;
+  summary: string;
+  description?: string;
+  organizer: { name?: string; email: string };
+  attendees: Array<{ name?: string; email: string }>;
+}
+
+// 20261019T150000Z
+function formatUtc(value: string | Date) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// TEXT values escape backslashes, separators and line breaks (RFC 5545 3.3.11)
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values with separators must be quoted, and may not hold quotes
+function quoteParam(value: string) {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function person(property: string, { name, email }: { name?: string; email: string }, extra = '') {
+  const cn = name ? `;CN=${quoteParam(name)}` : '';
+  return `${property}${cn}${extra}:mailto:${email}`;
+}
+
+/**
+ * Calendar invite for an interview. A cancelled booking produces a CANCEL
+ * for the same event, so it drops off the calendars it was added to.
+ */
+export function buildInterviewIcs(event: InterviewEvent, now = new Date()) {
+  const { interview } = event;
+  const cancelled = Boolean(interview.cancelledAt);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Colorado Trades Jobs//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${interview.sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(interview.startsAt)}`,
+    `DTEND:${formatUtc(interview.endsAt)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(interview.location ? [`LOCATION:${escapeText(interview.location)}`] : []),
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    person('ORGANIZER', event.organizer),
+    ...event.attendees.map((attendee) =>
+      person('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION')
+    ),
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,261 @@
+import { createHash, randomBytes } from 'crypto';
+import { getRepository } from '@/lib/data';
+import type { InterviewSlot } from '@/lib/data';
+import { sendEmail, type EmailResult } from '@/lib/email/client';
+import { env } from '@/lib/env';
+import { buildInterviewIcs } from '@/lib/ics';
+import type { InterviewBooking, JobApplication } from '@/types';
+
+// Interview times in emails are spelled out in the board's local time
+export const INTERVIEW_TIME_ZONE = 'America/Denver';
+
+export type BookingResult = 'booked' | 'unavailable';
+
+// Only the hash is stored, so a leaked dataset doesn't hand out working links
+export function hashSchedulingToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getSchedulingUrl(token: string) {
+  return `${env.nextAuth.url}/interviews/${token}`;
+}
+
+// A booking that still holds its slot
+export function isActiveInterview(interview?: InterviewBooking): interview is InterviewBooking {
+  return !!interview && !interview.cancelledAt;
+}
+
+// Slots an applicant can still pick: in the future and not taken by anyone else
+export function getOpenSlots(slots: InterviewSlot[], now = new Date()) {
+  return slots.filter((slot) => !slot.applicationId && new Date(slot.startsAt) > now);
+}
+
+/**
+ * The application a scheduling link belongs to. Links only work while the
+ * application is at the interviewing stage.
+ */
+export async function getApplicationBySchedulingToken(token: string) {
+  const application = await getRepository().applications.getBySchedulingToken(
+    hashSchedulingToken(token)
+  );
+  return application?.status === 'interviewing' ? application : null;
+}
+
+// Replaces any earlier link, which stops working
+async function issueSchedulingToken(applicationId: string) {
+  const token = randomBytes(32).toString('base64url');
+  await getRepository().applications.update(applicationId, {
+    schedulingTokenHash: hashSchedulingToken(token),
+  });
+  return token;
+}
+
+function formatInterviewTime(interview: Pick<InterviewBooking, 'startsAt' | 'endsAt'>) {
+  const date = new Intl.DateTimeFormat('en-US', {
+    timeZone: INTERVIEW_TIME_ZONE,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(interview.startsAt));
+  const end = new Intl.DateTimeFormat('en-US', {
+    timeZone: INTERVIEW_TIME_ZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(interview.endsAt));
+
+  return `${date} - ${end}`;
+}
+
+// "Name <address>" or a bare address
+function emailAddress(value?: string) {
+  return value?.match(/<([^>]+)>/)?.[1] || value;
+}
+
+// Email the applicant and the employer, each with the same calendar event so
+// later updates replace it
+async function sendInterviewEmails(
+  application: JobApplication,
+  interview: InterviewBooking,
+  messages: {
+    applicant: { subject: string; text: string };
+    employer: { subject: string; text: string };
+  }
+) {
+  const { applicantInfo, job } = application;
+  const recipients = await getRepository().companies.listContactEmails(job.company._id);
+  const host = env.nextAuth.url ? new URL(env.nextAuth.url).host : 'localhost';
+
+  const ics = buildInterviewIcs({
+    uid: `interview-${application._id}@${host}`,
+    interview,
+    summary: `Interview: ${job.title} at ${job.company.name}`,
+    description: `Interview with ${applicantInfo.name} for ${job.title}`,
+    organizer: {
+      name: job.company.name,
+      email: emailAddress(env.email.from) || recipients[0] || applicantInfo.email,
+    },
+    attendees: [
+      { name: applicantInfo.name, email: applicantInfo.email },
+      ...recipients.map((email) => ({ email })),
+    ],
+  });
+  const method = interview.cancelledAt ? 'CANCEL' : 'REQUEST';
+  const attachments = [
+    { filename: 'interview.ics', content: ics, contentType: `text/calendar; method=${method}` },
+  ];
+
+  const results: EmailResult[] = await Promise.all([
+    sendEmail({ to: applicantInfo.email, ...messages.applicant, attachments }),
+    recipients.length > 0
+      ? sendEmail({ to: recipients, ...messages.employer, attachments })
+      : Promise.resolve({ success: true }),
+  ]);
+
+  results
+    .filter((result) => !result.success)
+    .forEach((result) => console.error('Interview email failed:', result.error));
+}
+
+/**
+ * Email the applicant a fresh link for picking an interview slot. Called when
+ * they are moved to interviewing and when the employer resends the link.
+ */
+export async function sendSchedulingInvite(application: JobApplication) {
+  const token = await issueSchedulingToken(application._id);
+  const { applicantInfo, job } = application;
+
+  return sendEmail({
+    to: applicantInfo.email,
+    subject: `Schedule your interview for ${job.title}`,
+    text: [
+      `Hi ${applicantInfo.name},`,
+      '',
+      `${job.company.name} would like to interview you for ${job.title}.`,
+      'Pick a time that works for you:',
+      getSchedulingUrl(token),
+      '',
+      'You can use the same link to reschedule or cancel.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Book the application into a slot of its job, moving it out of its current
+ * slot when rescheduling. Resolves 'unavailable' when the slot is taken, in
+ * the past or belongs to another job.
+ */
+export async function bookInterview(
+  application: JobApplication,
+  slotId: string,
+  now = new Date()
+): Promise<BookingResult> {
+  const { interviews } = getRepository();
+  const slot = await interviews.get(slotId);
+  const previous = application.interview;
+
+  if (!slot || slot.jobId !== application.job._id || new Date(slot.startsAt) <= now) {
+    return 'unavailable';
+  }
+  if (slot.applicationId) {
+    return slot.applicationId === application._id ? 'booked' : 'unavailable';
+  }
+
+  const interview: InterviewBooking = {
+    slotId: slot._id,
+    startsAt: slot.startsAt,
+    endsAt: slot.endsAt,
+    location: slot.location,
+    sequence: previous ? previous.sequence + 1 : 0,
+  };
+  const rescheduled = isActiveInterview(previous);
+
+  const booked = await interviews.book(
+    slot._id,
+    application._id,
+    interview,
+    rescheduled ? previous.slotId : undefined
+  );
+  if (!booked) return 'unavailable';
+
+  const when = formatInterviewTime(interview);
+  const where = interview.location ? [`Location: ${interview.location}`] : [];
+  const { applicantInfo, job } = application;
+
+  await sendInterviewEmails(application, interview, {
+    applicant: {
+      subject: `Interview ${rescheduled ? 'rescheduled' : 'confirmed'}: ${job.title}`,
+      text: [
+        `Hi ${applicantInfo.name},`,
+        '',
+        `Your interview with ${job.company.name} for ${job.title} is ${rescheduled ? 'now ' : ''}on ${when}.`,
+        ...where,
+        '',
+        'The attached invite adds it to your calendar.',
+      ].join('\n'),
+    },
+    employer: {
+      subject: `Interview ${rescheduled ? 'rescheduled' : 'booked'}: ${applicantInfo.name} for ${job.title}`,
+      text: [
+        `${applicantInfo.name} ${rescheduled ? 'moved their interview to' : 'booked an interview for'} ${when}.`,
+        ...where,
+        '',
+        `View the application: ${env.nextAuth.url}/dashboard/applications?job=${job._id}`,
+      ].join('\n'),
+    },
+  });
+
+  return 'booked';
+}
+
+/**
+ * Call off the application's interview and free its slot. When the employer
+ * cancels, the applicant gets a fresh link to pick another time. Resolves
+ * false when there is no interview to cancel.
+ */
+export async function cancelInterview(
+  application: JobApplication,
+  cancelledBy: 'applicant' | 'employer',
+  now = new Date()
+) {
+  const current = application.interview;
+  if (!isActiveInterview(current)) return false;
+
+  const interview: InterviewBooking = {
+    ...current,
+    sequence: current.sequence + 1,
+    cancelledAt: now.toISOString(),
+  };
+  await getRepository().interviews.cancel(application._id, interview);
+
+  const when = formatInterviewTime(interview);
+  const { applicantInfo, job } = application;
+  const rebookLink =
+    cancelledBy === 'employer'
+      ? ['Pick another time here:', getSchedulingUrl(await issueSchedulingToken(application._id))]
+      : [];
+
+  await sendInterviewEmails(application, interview, {
+    applicant: {
+      subject: `Interview cancelled: ${job.title}`,
+      text: [
+        `Hi ${applicantInfo.name},`,
+        '',
+        cancelledBy === 'employer'
+          ? `${job.company.name} had to cancel your interview on ${when}.`
+          : `Your interview on ${when} has been cancelled.`,
+        ...rebookLink,
+      ].join('\n'),
+    },
+    employer: {
+      subject: `Interview cancelled: ${applicantInfo.name} for ${job.title}`,
+      text: cancelledBy === 'employer'
+        ? `The interview with ${applicantInfo.name} on ${when} was cancelled and they have been sent a link to pick another time.`
+        : `${applicantInfo.name} cancelled their interview on ${when}.`,
+    },
+  });
+
+  return true;
+}
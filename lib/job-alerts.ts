@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { env } from '@/lib/env';
+import type { SavedSearch } from '@/lib/data';
+
+export interface UnsubscribeGrant {
+  searchId: string;
+  userId: string;
+}
+
+function signUnsubscribe(payload: string) {
+  return createHmac('sha256', env.nextAuth.secret).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+/**
+ * Link that deletes a saved search without signing in. It names the search's
+ * owner so a forged ID can't remove someone else's alert, and doesn't expire
+ * because it's in emails people read weeks later.
+ */
+export function getUnsubscribeUrl(search: Pick<SavedSearch, '_id'>, userId: string) {
+  const grant: UnsubscribeGrant = { searchId: search._id, userId };
+  const payload = Buffer.from(JSON.stringify(grant)).toString('base64url');
+  return `${env.nextAuth.url}/api/saved-searches/unsubscribe/${payload}.${signUnsubscribe(payload)}`;
+}
+
+// The search behind an unsubscribe link, or null when it was tampered with
+export function verifyUnsubscribeToken(token: string): UnsubscribeGrant | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !env.nextAuth.secret) return null;
+
+  const expected = Buffer.from(signUnsubscribe(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,156 @@
+import { addDays } from 'date-fns';
+import { getRepository } from '@/lib/data';
+import type { JobBatchOperation, JobDocument, JobInput, RevisionActor } from '@/lib/data';
+import { getPublishFields, isPastDeadline } from '@/lib/job-lifecycle';
+import { diffJobFields } from '@/lib/job-revisions';
+import type { BulkJobAction } from '@/lib/validations/job';
+
+// Jobs written per transaction; a chunk that fails is retried job by job
+const BULK_CHUNK_SIZE = 25;
+
+export interface BulkFailure {
+  id: string;
+  reason: string;
+}
+
+export interface BulkActionResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+}
+
+type PlannedChange = { data: JobInput } | { delete: true } | { error: string };
+
+// What the action does to one job, or why it can't be applied to it
+function planChange(job: JobDocument, action: BulkJobAction, now: Date): PlannedChange {
+  switch (action.action) {
+    case 'delete':
+      return { delete: true };
+
+    case 'publish':
+      if (job.status === 'published') return { error: 'Already published' };
+      if (job.status === 'filled') return { error: 'Filled jobs must be reposted instead' };
+      // A future publishAt schedules the job instead of publishing now
+      if (action.publishAt && new Date(action.publishAt) > now) {
+        return { data: { status: 'scheduled', publishAt: action.publishAt } };
+      }
+      if (isPastDeadline(job, now)) return { error: 'The application deadline has passed' };
+      return { data: getPublishFields(job, now) };
+
+    case 'expire':
+      if (job.status !== 'published' && job.status !== 'scheduled') {
+        return { error: 'Only published or scheduled jobs can be expired' };
+      }
+      return { data: { status: 'expired' } };
+
+    case 'fill':
+      if (job.status !== 'published' && job.status !== 'expired') {
+        return { error: 'Only published or expired jobs can be marked filled' };
+      }
+      return { data: { status: 'filled' } };
+
+    case 'setCategory':
+      return { data: { category: action.categoryId } };
+
+    case 'setUrgent':
+      return { data: { isUrgent: action.value } };
+
+    case 'setFeatured':
+      return { data: { featured: action.value } };
+
+    case 'extendExpiry': {
+      if (job.status !== 'published') return { error: 'Only published jobs can be extended' };
+      if (isPastDeadline(job, now)) return { error: 'The application deadline has passed' };
+
+      const current = job.expiresAt ? new Date(job.expiresAt) : now;
+      return { data: { expiresAt: addDays(current > now ? current : now, action.days).toISOString() } };
+    }
+  }
+}
+
+function toOperation(
+  job: JobDocument,
+  change: { data: JobInput } | { delete: true },
+  actor: RevisionActor,
+  now: Date
+): JobBatchOperation {
+  if ('delete' in change) {
+    return { type: 'delete', jobId: job._id };
+  }
+
+  const changes = diffJobFields(job, change.data);
+  return {
+    type: 'update',
+    jobId: job._id,
+    data: change.data,
+    ...(changes.length > 0 && {
+      revision: { jobId: job._id, actor, changes, createdAt: now.toISOString() }
+    })
+  };
+}
+
+function describeError(error: unknown) {
+  return error instanceof Error && error.message ? error.message : 'Update failed';
+}
+
+/**
+ * Apply a bulk action to a company's jobs. Changes are committed in
+ * transactions of BULK_CHUNK_SIZE jobs, each logged in the job's revision
+ * history. Jobs that don't qualify or fail to save are reported with a reason
+ * instead of failing the whole request.
+ */
+export async function runBulkAction(
+  action: BulkJobAction,
+  jobIds: string[],
+  companyId: string,
+  actor: RevisionActor
+): Promise<BulkActionResult> {
+  const { jobs } = getRepository();
+  const ids = Array.from(new Set(jobIds));
+  const now = new Date();
+
+  const owned = new Map(
+    (await jobs.listByIdsForCompany(ids, companyId)).map((job) => [job._id, job])
+  );
+
+  const succeeded: string[] = [];
+  const failed: BulkFailure[] = [];
+  const operations: JobBatchOperation[] = [];
+
+  ids.forEach((id) => {
+    const job = owned.get(id);
+    if (!job) {
+      failed.push({ id, reason: 'Job not found' });
+      return;
+    }
+
+    const change = planChange(job, action, now);
+    if ('error' in change) {
+      failed.push({ id, reason: change.error });
+      return;
+    }
+
+    operations.push(toOperation(job, change, actor, now));
+  });
+
+  for (let i = 0; i < operations.length; i += BULK_CHUNK_SIZE) {
+    const chunk = operations.slice(i, i + BULK_CHUNK_SIZE);
+
+    try {
+      await jobs.commitBatch(chunk);
+      succeeded.push(...chunk.map((operation) => operation.jobId));
+    } catch (error) {
+      console.error('Error committing bulk chunk, retrying jobs one by one:', error);
+
+      for (const operation of chunk) {
+        try {
+          await jobs.commitBatch([operation]);
+          succeeded.push(operation.jobId);
+        } catch (error) {
+          failed.push({ id: operation.jobId, reason: describeError(error) });
+        }
+      }
+    }
+  }
+
+  return { succeeded, failed };
+}
@@ -0,0 +1,109 @@
+import { format } from 'date-fns';
+import { getRepository } from '@/lib/data';
+import type { JobExportFilter, JobExportRow } from '@/lib/data';
+import { toCsvRow, type CsvValue } from '@/lib/csv';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Jobs fetched per query while streaming, keeping each request short
+const EXPORT_PAGE_SIZE = 100;
+
+const CSV_COLUMNS: Array<[header: string, value: (row: JobExportRow) => CsvValue]> = [
+  ['ID', (row) => row._id],
+  ['Title', (row) => row.title],
+  ['Status', (row) => row.status],
+  ['Category', (row) => row.category],
+  ['Created', (row) => row.createdAt],
+  ['Published', (row) => row.publishedAt],
+  ['Expires', (row) => row.expiresAt],
+  ['Application Deadline', (row) => row.applicationDeadline],
+  ['City', (row) => row.location?.city],
+  ['County', (row) => row.location?.county],
+  ['ZIP Code', (row) => row.location?.zipCode],
+  ['Salary Type', (row) => row.salaryType],
+  ['Salary Min', (row) => row.salaryMin],
+  ['Salary Max', (row) => row.salaryMax],
+  ['Views', (row) => row.viewCount],
+  ['Applications', (row) => row.applicationCount],
+  ['Conversion Rate (%)', (row) => getConversionRate(row)],
+  ['New', (row) => row.applicationsByStatus.new],
+  ['Reviewed', (row) => row.applicationsByStatus.reviewed],
+  ['Interviewing', (row) => row.applicationsByStatus.interviewing],
+  ['Hired', (row) => row.applicationsByStatus.hired],
+  ['Rejected', (row) => row.applicationsByStatus.rejected],
+];
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Applications per hundred views, to two decimals
+export function getConversionRate({ viewCount, applicationCount }: JobExportRow) {
+  return viewCount ? Math.round((applicationCount / viewCount) * 10000) / 100 : 0;
+}
+
+export function getExportFileName(exportFormat: ExportFormat, now = new Date()) {
+  return `jobs-${format(now, 'yyyy-MM-dd')}.${exportFormat}`;
+}
+
+async function* listExportRows(companyId: string, filter: JobExportFilter) {
+  let after: string | null = null;
+
+  while (true) {
+    const page: JobExportRow[] = await getRepository().analytics.listJobExportRows(
+      companyId,
+      filter,
+      after,
+      EXPORT_PAGE_SIZE
+    );
+
+    yield* page;
+
+    if (page.length < EXPORT_PAGE_SIZE) return;
+    after = page[page.length - 1]._id;
+  }
+}
+
+/**
+ * Stream a company's jobs with their performance numbers as CSV or a JSON
+ * array. Rows are fetched a page at a time, so the response starts right
+ * away however many jobs there are.
+ */
+export function createJobExportStream(
+  companyId: string,
+  exportFormat: ExportFormat,
+  filter: JobExportFilter = {}
+) {
+  const encoder = new TextEncoder();
+  const rows = listExportRows(companyId, filter);
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (text: string) => controller.enqueue(encoder.encode(text));
+
+      try {
+        if (exportFormat === 'csv') {
+          // BOM so Excel reads the file as UTF-8
+          write(`\uFEFF${toCsvRow(CSV_COLUMNS.map(([header]) => header))}`);
+          for await (const row of rows) {
+            write(toCsvRow(CSV_COLUMNS.map(([, value]) => value(row))));
+          }
+        } else {
+          let first = true;
+          write('[');
+          for await (const row of rows) {
+            write(`${first ? '' : ','}\n${JSON.stringify({ ...row, conversionRate: getConversionRate(row) })}`);
+            first = false;
+          }
+          write('\n]\n');
+        }
+        controller.close();
+      } catch (error) {
+        console.error('Error streaming job export:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
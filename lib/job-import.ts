@@ -0,0 +1,233 @@
+import { format } from 'date-fns';
+import type { ZodIssue } from 'zod';
+import { parseCsv } from '@/lib/csv';
+import { jobFormSchema, type JobFormValues } from '@/lib/validations/job';
+
+// Most rows accepted in a single upload
+export const MAX_IMPORT_ROWS = 500;
+
+// Posting fields a CSV column can be mapped to, with alternative header names
+// used to suggest a mapping
+export const IMPORT_FIELDS = {
+  title: { label: 'Job Title', required: true, aliases: ['title', 'job title', 'position'] },
+  description: { label: 'Description', required: true, aliases: ['description', 'job description'] },
+  requirements: { label: 'Requirements', required: true, aliases: ['requirements', 'qualifications'] },
+  category: { label: 'Category', required: true, aliases: ['category', 'trade'] },
+  city: { label: 'City', required: true, aliases: ['city'] },
+  county: { label: 'County', required: true, aliases: ['county'] },
+  zipCode: { label: 'ZIP Code', required: true, aliases: ['zip', 'zip code', 'zipcode', 'postal code'] },
+  jobType: { label: 'Job Type', required: true, aliases: ['job type', 'type', 'employment type'] },
+  experienceLevel: { label: 'Experience Level', required: true, aliases: ['experience level', 'experience', 'level'] },
+  salaryType: { label: 'Salary Type', required: true, aliases: ['salary type', 'pay type'] },
+  salaryMin: { label: 'Minimum Salary', required: true, aliases: ['salary min', 'min salary', 'minimum salary', 'pay min', 'salary'] },
+  salaryMax: { label: 'Maximum Salary', required: false, aliases: ['salary max', 'max salary', 'maximum salary', 'pay max'] },
+  benefits: { label: 'Benefits', required: false, aliases: ['benefits'] },
+  applicationDeadline: { label: 'Application Deadline', required: false, aliases: ['application deadline', 'deadline', 'closing date'] },
+  isUrgent: { label: 'Urgent', required: false, aliases: ['urgent', 'is urgent', 'urgently hiring'] },
+  featured: { label: 'Featured', required: false, aliases: ['featured'] },
+} as const;
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+// Posting field -> CSV header it is read from
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportCategory {
+  _id: string;
+  name: string;
+  slug: { current: string };
+}
+
+export interface ImportRowResult {
+  // Line in the spreadsheet, counting the header as line 1
+  row: number;
+  title?: string;
+  status: 'valid' | 'invalid' | 'created' | 'failed';
+  errors: string[];
+  jobId?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export interface ValidatedImportRow {
+  row: number;
+  title?: string;
+  values?: JobFormValues;
+  errors: string[];
+}
+
+const IMPORT_FIELD_KEYS = Object.keys(IMPORT_FIELDS) as ImportField[];
+
+function normalizeHeader(value: string) {
+  return value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Split an uploaded CSV into its header row and data rows.
+ */
+export function readImportFile(text: string) {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+/**
+ * Match headers to posting fields by name, e.g. "Zip Code" -> zipCode.
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELD_KEYS.forEach((field) => {
+    const aliases: readonly string[] = IMPORT_FIELDS[field].aliases;
+    const header = headers.find((candidate) => {
+      const normalized = normalizeHeader(candidate);
+      return normalized === field.toLowerCase() || aliases.includes(normalized);
+    });
+    if (header) mapping[field] = header;
+  });
+
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: ImportColumnMapping) {
+  return IMPORT_FIELD_KEYS.filter((field) => IMPORT_FIELDS[field].required && !mapping[field]);
+}
+
+function parseNumber(value: string) {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  return cleaned === '' ? undefined : Number(cleaned);
+}
+
+function parseBoolean(value: string) {
+  return ['yes', 'y', 'true', '1', 'x'].includes(value.trim().toLowerCase());
+}
+
+// "Full Time" -> "full-time"
+function parseOption(value: string) {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+// Deadlines are calendar dates ("YYYY-MM-DD"). ISO dates keep the day as
+// written; other formats ("03/01/2026") parse as local midnight
+function parseDate(value: string) {
+  const isoDate = /^\d{4}-\d{2}-\d{2}/.exec(value.trim());
+  if (isoDate) return isoDate[0];
+
+  const time = Date.parse(value);
+  return isNaN(time) ? value : format(time, 'yyyy-MM-dd');
+}
+
+function resolveCategory(value: string, categories: ImportCategory[]) {
+  const needle = value.trim().toLowerCase();
+  return categories.find(
+    (category) =>
+      category._id === value.trim() ||
+      category.name.toLowerCase() === needle ||
+      category.slug.current === needle
+  );
+}
+
+function formatIssue(issue: ZodIssue) {
+  const [field, nested] = issue.path;
+  const key = (field === 'location' ? nested : field) as ImportField;
+  const label = IMPORT_FIELDS[key]?.label || String(field);
+
+  if (issue.code === 'invalid_enum_value') {
+    return `${label}: "${issue.received}" should be one of ${issue.options.join(', ')}`;
+  }
+  if (issue.code === 'invalid_type' && issue.received === 'nan') {
+    return `${label}: should be a number`;
+  }
+  return `${label}: ${issue.message}`;
+}
+
+/**
+ * Convert one data row into form values using the column mapping and check
+ * it against the same rules as the job form. Imported postings start as drafts.
+ */
+export function validateImportRow(
+  cells: string[],
+  headers: string[],
+  mapping: ImportColumnMapping,
+  categories: ImportCategory[]
+): Omit<ValidatedImportRow, 'row'> {
+  const read = (field: ImportField) => {
+    const column = mapping[field] ? headers.indexOf(mapping[field]!) : -1;
+    return column === -1 ? '' : (cells[column] ?? '').trim();
+  };
+
+  const errors: string[] = [];
+
+  const categoryName = read('category');
+  const category = categoryName ? resolveCategory(categoryName, categories) : undefined;
+  if (categoryName && !category) {
+    errors.push(`Category: "${categoryName}" does not match any category`);
+  }
+
+  const input = {
+    title: read('title'),
+    description: read('description'),
+    requirements: read('requirements'),
+    location: {
+      city: read('city'),
+      county: read('county'),
+      zipCode: read('zipCode'),
+    },
+    salaryMin: parseNumber(read('salaryMin')),
+    salaryMax: parseNumber(read('salaryMax')),
+    salaryType: parseOption(read('salaryType')),
+    jobType: parseOption(read('jobType')),
+    experienceLevel: parseOption(read('experienceLevel')),
+    category: category?._id || '',
+    benefits: read('benefits')
+      .split(/[;|,]/)
+      .map((benefit) => benefit.trim())
+      .filter(Boolean),
+    applicationDeadline: read('applicationDeadline') ? parseDate(read('applicationDeadline')) : undefined,
+    isUrgent: parseBoolean(read('isUrgent')),
+    featured: parseBoolean(read('featured')),
+    status: 'draft',
+  };
+
+  const result = jobFormSchema.safeParse(input);
+
+  if (!result.success) {
+    result.error.issues
+      // The unresolved category is already reported above
+      .filter((issue) => !(categoryName && issue.path[0] === 'category'))
+      .forEach((issue) => errors.push(formatIssue(issue)));
+  }
+
+  if (input.applicationDeadline && isNaN(Date.parse(input.applicationDeadline))) {
+    errors.push(`Application Deadline: "${read('applicationDeadline')}" is not a valid date`);
+  }
+
+  const title = input.title || undefined;
+
+  return errors.length === 0 && result.success
+    ? { title, values: result.data, errors }
+    : { title, errors };
+}
+
+/**
+ * Validate every data row of an uploaded CSV.
+ */
+export function validateImportFile(
+  text: string,
+  mapping: ImportColumnMapping,
+  categories: ImportCategory[]
+): ValidatedImportRow[] {
+  const { headers, rows } = readImportFile(text);
+
+  return rows.map((cells, index) => ({
+    row: index + 2,
+    ...validateImportRow(cells, headers, mapping, categories),
+  }));
+}
@@ -0,0 +1,72 @@
+import { addDays } from 'date-fns';
+import { uniqueSlug } from '@/lib/utils';
+import type { JobDocument, JobInput } from '@/lib/data';
+
+// How long a posting stays live after publishing or renewing
+export const LISTING_DURATION_DAYS = 30;
+
+// Employers are reminded this many days before a posting lapses
+export const EXPIRY_REMINDER_DAYS = 3;
+
+export function getListingExpiry(from = new Date()) {
+  return addDays(from, LISTING_DURATION_DAYS).toISOString();
+}
+
+/**
+ * Fields to set when a job goes live. Keeps the original publish date and any
+ * expiry still in the future, otherwise starts a fresh listing period.
+ */
+export function getPublishFields(
+  job?: Pick<JobDocument, 'publishedAt' | 'expiresAt'> | null,
+  now = new Date()
+) {
+  const hasFutureExpiry = !!job?.expiresAt && new Date(job.expiresAt) > now;
+
+  return {
+    status: 'published' as const,
+    publishedAt: job?.publishedAt || now.toISOString(),
+    expiresAt: hasFutureExpiry ? job!.expiresAt : getListingExpiry(now),
+  };
+}
+
+// Applications close at the end of the deadline day
+export function isPastDeadline(job: Pick<JobDocument, 'applicationDeadline'>, now = new Date()) {
+  return !!job.applicationDeadline && job.applicationDeadline < now.toISOString().slice(0, 10);
+}
+
+/**
+ * Copyable content of a posting: everything except system fields, counters,
+ * dates, status and slug
+ */
+export function getDuplicateFields(job: JobDocument): JobInput {
+  const {
+    _id,
+    _type,
+    company,
+    category,
+    slug,
+    status,
+    viewCount,
+    applicationCount,
+    publishAt,
+    publishedAt,
+    expiresAt,
+    expiryReminderSentFor,
+    applicationDeadline,
+    startDate,
+    repostOf,
+    createdAt,
+    ...content
+  } = job;
+
+  // Drop Sanity metadata (_rev, _createdAt, _updatedAt) as well
+  const fields = Object.fromEntries(
+    Object.entries(content).filter(([key]) => !key.startsWith('_'))
+  );
+
+  return {
+    ...fields,
+    category: category?._ref,
+    slug: { current: uniqueSlug(job.title) },
+  };
+}
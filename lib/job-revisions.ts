@@ -0,0 +1,135 @@
+import type { FieldChange, JobDocument, JobInput, JobRevision, RevisionActor } from '@/lib/data';
+
+// Editable posting fields that are tracked in the revision log
+export const TRACKED_FIELDS = {
+  title: 'Title',
+  description: 'Description',
+  requirements: 'Requirements',
+  responsibilities: 'Responsibilities',
+  category: 'Category',
+  jobType: 'Job Type',
+  experienceLevel: 'Experience Level',
+  location: 'Location',
+  remoteOptions: 'Remote Options',
+  salaryType: 'Salary Type',
+  salaryMin: 'Minimum Salary',
+  salaryMax: 'Maximum Salary',
+  showSalary: 'Show Salary',
+  benefits: 'Benefits',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  applicationDeadline: 'Application Deadline',
+  startDate: 'Start Date',
+  isUrgent: 'Urgent',
+  featured: 'Featured',
+  status: 'Status',
+  publishAt: 'Publish At',
+  expiresAt: 'Expires At',
+  screeningQuestions: 'Screening Questions',
+  autoRejectKnockouts: 'Auto-reject Knockouts',
+} as const;
+
+export type TrackedField = keyof typeof TRACKED_FIELDS;
+
+export const SYSTEM_ACTOR: RevisionActor = { id: 'system', name: 'System' };
+
+export function toRevisionActor(user: { id: string; name?: string | null; email?: string | null }): RevisionActor {
+  return {
+    id: user.id,
+    ...(user.name && { name: user.name }),
+    ...(user.email && { email: user.email }),
+  };
+}
+
+function isTracked(field: string): field is TrackedField {
+  return field in TRACKED_FIELDS;
+}
+
+// Stored value in the same shape the update input uses (category as an ID)
+function currentValue(job: JobDocument, field: TrackedField): unknown {
+  return field === 'category' ? job.category?._ref : job[field];
+}
+
+/**
+ * Field-level changes an update would make. `unset` lists fields being cleared.
+ */
+export function diffJobFields(job: JobDocument, data: JobInput, unset: string[] = []): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  (Object.keys(TRACKED_FIELDS) as TrackedField[]).forEach((field) => {
+    const isUnset = unset.includes(field);
+    if (!(field in data) && !isUnset) return;
+
+    const before = currentValue(job, field);
+    const after = isUnset ? undefined : data[field];
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, before, after });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Values that take a posting back to how it looked right after `revisionId`,
+ * by undoing every later change. Revisions must be newest first.
+ */
+export function getRestoreValues(revisions: JobRevision[], revisionId: string) {
+  const index = revisions.findIndex((revision) => revision._id === revisionId);
+  if (index === -1) return null;
+
+  const values: Record<string, unknown> = {};
+  const unset: string[] = [];
+
+  // Walk later revisions oldest first so each field gets its earliest `before`
+  revisions
+    .slice(0, index)
+    .reverse()
+    .forEach((revision) => {
+      revision.changes.forEach(({ field, before }) => {
+        if (!isTracked(field) || field in values || unset.includes(field)) return;
+
+        if (before === undefined) {
+          unset.push(field);
+        } else {
+          values[field] = before;
+        }
+      });
+    });
+
+  return { values: values as JobInput, unset };
+}
+
+export function getFieldLabel(field: string) {
+  return isTracked(field) ? TRACKED_FIELDS[field] : field;
+}
+
+// Short, human readable rendering of a stored value for the history list
+export function formatRevisionValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    // Portable text blocks
+    if (value.some((item) => item?._type === 'block')) {
+      return formatRevisionValue(
+        value.map((block) => block.children?.map((child: { text?: string }) => child.text).join('')).join(' ')
+      );
+    }
+    // Screening questions
+    if (value.some((item) => typeof item?.prompt === 'string')) {
+      return formatRevisionValue(value.map((question) => question.prompt).join(', '));
+    }
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  if (typeof value === 'object') {
+    const { city, county, zipCode } = value as Record<string, string>;
+    if (city || county) {
+      return [city, county, zipCode].filter(Boolean).join(', ');
+    }
+    return JSON.stringify(value);
+  }
+
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
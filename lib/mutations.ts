@@ -1,68 +1,288 @@
-import { client } from './sanity';
+import { randomBytes } from 'crypto';
+import { getRepository } from './data';
+import type {
+  ApplicationInput,
+  ApplicationPatch,
+  CompanyInput,
+  JobDocument,
+  JobInput,
+  RevisionActor
+} from './data';
+import { getDuplicateFields, getListingExpiry, getPublishFields } from './job-lifecycle';
+import { SYSTEM_ACTOR, diffJobFields, getRestoreValues } from './job-revisions';
+import {
+  validateImportFile,
+  type ImportColumnMapping,
+  type ImportReport,
+  type ImportRowResult
+} from './job-import';
+import { canTransition, type ApplicationStatus } from './application-status';
+import { evaluateScreening } from './screening';
+import type { Scorecard, ScreeningQuestion } from '@/types';
+import type { ApplicationUpdateValues } from './validations/application';
+import type { ScorecardCriteriaValues, ScreeningQuestionValues } from './validations/job';
 
 // Job mutations
-export async function createJob(data: any, companyId: string) {
-  return client.create({
-    _type: 'jobPosting',
-    ...data,
-    company: { _ref: companyId },
-    status: 'draft',
-    viewCount: 0,
-    applicationCount: 0,
-    createdAt: new Date().toISOString(),
+export async function createJob(data: JobInput, companyId: string) {
+  return getRepository().jobs.create({ ...data, status: 'draft' }, companyId);
+}
+
+export async function updateJob(jobId: string, data: JobInput) {
+  return getRepository().jobs.update(jobId, data);
+}
+
+// Update a job and log the field-level changes against the actor
+export async function updateJobWithRevision(
+  job: JobDocument,
+  data: JobInput,
+  actor: RevisionActor,
+  options: { unset?: string[]; restoredFrom?: string } = {}
+) {
+  const { jobs, revisions } = getRepository();
+  const { unset = [], restoredFrom } = options;
+
+  const changes = diffJobFields(job, data, unset);
+  const updatedJob = await jobs.update(job._id, data, unset);
+
+  if (changes.length > 0) {
+    await revisions.create({
+      jobId: job._id,
+      actor,
+      changes,
+      restoredFrom,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  return updatedJob;
+}
+
+// Undo every change made after the given revision; returns null if it doesn't exist
+export async function restoreJobRevision(
+  job: JobDocument,
+  revisionId: string,
+  actor: RevisionActor
+) {
+  const revisions = await getRepository().revisions.listForJob(job._id);
+  const restore = getRestoreValues(revisions, revisionId);
+  if (!restore) return null;
+
+  return updateJobWithRevision(job, restore.values, actor, {
+    unset: restore.unset,
+    restoredFrom: revisionId
   });
 }
 
-export async function updateJob(jobId: string, data: any) {
-  return client.patch(jobId).set(data).commit();
+/**
+ * Validate an uploaded CSV and, unless `dryRun`, create every valid row as a
+ * draft. Rows are reported individually so one bad row doesn't block the rest.
+ */
+export async function importJobs(
+  csv: string,
+  mapping: ImportColumnMapping,
+  companyId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const { dryRun = false } = options;
+  const categories = await getRepository().categories.list();
+  const validated = validateImportFile(csv, mapping, categories);
+
+  const rows: ImportRowResult[] = [];
+
+  // Sequential to keep the write rate within the backend's limits
+  for (const { row, title, values, errors } of validated) {
+    if (!values) {
+      rows.push({ row, title, status: 'invalid', errors });
+      continue;
+    }
+
+    if (dryRun) {
+      rows.push({ row, title, status: 'valid', errors });
+      continue;
+    }
+
+    try {
+      const job = await createJob(
+        { ...values, screeningQuestions: toScreeningQuestions(values.screeningQuestions) },
+        companyId
+      );
+      rows.push({ row, title, status: 'created', errors, jobId: job._id });
+    } catch (error) {
+      console.error(`Error importing job on row ${row}:`, error);
+      rows.push({ row, title, status: 'failed', errors: ['Could not save this job'] });
+    }
+  }
+
+  const count = (status: ImportRowResult['status']) =>
+    rows.filter((result) => result.status === status).length;
+
+  return {
+    dryRun,
+    total: rows.length,
+    valid: validated.filter((result) => result.values).length,
+    invalid: count('invalid'),
+    created: count('created'),
+    failed: count('failed'),
+    rows
+  };
+}
+
+// Publishes immediately, or schedules the job when `publishAt` is in the future
+export async function publishJob(jobId: string, publishAt?: string) {
+  const { jobs } = getRepository();
+
+  if (publishAt && new Date(publishAt) > new Date()) {
+    return jobs.update(jobId, { status: 'scheduled', publishAt });
+  }
+
+  const job = await jobs.getById(jobId);
+  return jobs.update(jobId, getPublishFields(job));
 }
 
-export async function publishJob(jobId: string) {
-  return client
-    .patch(jobId)
-    .set({ 
-      status: 'published',
-      publishedAt: new Date().toISOString()
-    })
-    .commit();
+// Put a job back up for a full listing period starting now
+export async function renewJob(job: JobDocument, actor: RevisionActor) {
+  return updateJobWithRevision(job, {
+    status: 'published',
+    expiresAt: getListingExpiry()
+  }, actor);
 }
 
 export async function deleteJob(jobId: string) {
-  return client.delete(jobId);
+  return getRepository().jobs.delete(jobId);
+}
+
+// Copy a job into a new draft, or with `repost` publish the copy straight
+// away and link it back to the original
+export async function duplicateJob(job: JobDocument, mode: 'duplicate' | 'repost' = 'duplicate') {
+  const fields = getDuplicateFields(job);
+
+  if (mode === 'repost') {
+    return getRepository().jobs.create(
+      {
+        ...fields,
+        ...getPublishFields(),
+        repostOf: { _type: 'reference', _ref: job._id }
+      },
+      job.company._ref
+    );
+  }
+
+  return getRepository().jobs.create({ ...fields, status: 'draft' }, job.company._ref);
+}
+
+// Replace a job's scorecard criteria. Existing criteria keep their keys so
+// scores already given still line up; new ones get a fresh key
+export async function updateScorecardCriteria(jobId: string, values: ScorecardCriteriaValues) {
+  const scorecardCriteria = values.criteria.map(({ _key, label, kind }) => ({
+    _key: _key || randomBytes(6).toString('hex'),
+    label,
+    kind,
+  }));
+
+  return getRepository().jobs.update(jobId, { scorecardCriteria });
+}
+
+// Screening questions as stored. Existing questions keep their keys so
+// answers already given still line up; fields that don't apply to the
+// question's kind are dropped
+export function toScreeningQuestions(values: ScreeningQuestionValues[]): ScreeningQuestion[] {
+  return values.map(({ _key, prompt, kind, options, requiredAnswer, minimumAnswer }) => ({
+    _key: _key || randomBytes(6).toString('hex'),
+    prompt,
+    kind,
+    ...(kind === 'multipleChoice' && { options }),
+    ...(kind === 'number'
+      ? minimumAnswer !== undefined && { minimumAnswer }
+      : requiredAnswer && { requiredAnswer }),
+  }));
 }
 
 // Application mutations
+// `unchanged` when asked to move an application to the stage it's in;
+// `conflict` when the application is no longer in the expected stage;
+// `not-allowed` when the move isn't in the transition graph
+export type StatusChangeResult = 'updated' | 'unchanged' | 'conflict' | 'not-allowed';
+
+// Save an application to `job`, scoring its screening answers (keyed by
+// question). Returns a message for the applicant instead when the answers
+// don't fit the questions. Knocked-out applicants are rejected straight away
+// when the job asks for it
+export async function createApplication(
+  job: JobDocument,
+  data: Omit<ApplicationInput, 'jobId' | 'screeningAnswers' | 'knockedOut'>,
+  answers: Record<string, string>
+) {
+  const screening = evaluateScreening(job.screeningQuestions || [], answers);
+  if (typeof screening === 'string') return screening;
+
+  const { applications } = getRepository();
+  const application = await applications.create({ ...data, ...screening, jobId: job._id });
+
+  if (screening.knockedOut && job.autoRejectKnockouts) {
+    await applications.updateStatus(application._id, {
+      from: 'new',
+      to: 'rejected',
+      at: new Date().toISOString(),
+      by: SYSTEM_ACTOR,
+    });
+  }
+
+  return application;
+}
+
+// Move an application to another stage and record the move in its history.
+// Moves outside the transition graph need `override`
 export async function updateApplicationStatus(
   applicationId: string,
-  status: string
-) {
-  return client
-    .patch(applicationId)
-    .set({ status })
-    .commit();
+  status: ApplicationStatus,
+  expectedStatus: ApplicationStatus,
+  actor: RevisionActor,
+  { override = false }: { override?: boolean } = {}
+): Promise<StatusChangeResult> {
+  if (status === expectedStatus) return 'unchanged';
+  if (!override && !canTransition(expectedStatus, status)) return 'not-allowed';
+
+  const updated = await getRepository().applications.updateStatus(applicationId, {
+    from: expectedStatus,
+    to: status,
+    at: new Date().toISOString(),
+    by: actor,
+  });
+  return updated ? 'updated' : 'conflict';
 }
 
 export async function addEmployerNotes(
   applicationId: string,
   notes: string
 ) {
-  return client
-    .patch(applicationId)
-    .set({ employerNotes: notes })
-    .commit();
+  return getRepository().applications.update(applicationId, { employerNotes: notes });
 }
 
-// Company mutations
-export async function createCompany(data: any, userId: string) {
-  return client.create({
-    _type: 'company',
-    ...data,
-    ownerId: userId,
-    verified: false,
-    createdAt: new Date().toISOString(),
+// Apply inbox edits; a null rating or interview date clears it
+export async function updateApplication(applicationId: string, values: ApplicationUpdateValues) {
+  const data: ApplicationPatch = {};
+  const unset: string[] = [];
+
+  Object.entries(values).forEach(([field, value]) => {
+    if (value === null) {
+      unset.push(field);
+    } else if (value !== undefined) {
+      Object.assign(data, { [field]: value });
+    }
   });
+
+  return getRepository().applications.update(applicationId, data, unset);
 }
 
-export async function updateCompany(companyId: string, data: any) {
-  return client.patch(companyId).set(data).commit();
-}
\ No newline at end of file
+export async function saveScorecard(applicationId: string, scorecard: Scorecard) {
+  return getRepository().applications.saveScorecard(applicationId, scorecard);
+}
+
+// Company mutations
+export async function createCompany(data: CompanyInput, userId: string) {
+  return getRepository().companies.create(data, userId);
+}
+
+export async function updateCompany(companyId: string, data: CompanyInput) {
+  return getRepository().companies.update(companyId, data);
+}
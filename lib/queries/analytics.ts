@@ -1,4 +1,5 @@
 import groq from 'groq';
+import { companyJobFilter } from './jobs';
 
 // Dashboard stats for employers
 export const employerStatsQuery = groq`
@@ -45,7 +46,10 @@ export const jobMetricsQuery = groq`
     viewCount,
     applicationCount,
     "conversionRate": applicationCount / viewCount * 100,
-    "viewsOverTime": [], // Would need custom aggregation
+    "viewsOverTime": *[_type == "jobViewStat" && job._ref == ^._id] | order(date asc) {
+      date,
+      "views": count
+    },
     "applicationsByStatus": {
       "new": count(*[_type == "jobApplication" && job._ref == ^._id && status == "new"]),
       "reviewed": count(*[_type == "jobApplication" && job._ref == ^._id && status == "reviewed"]),
@@ -54,4 +58,112 @@ export const jobMetricsQuery = groq`
       "rejected": count(*[_type == "jobApplication" && job._ref == ^._id && status == "rejected"])
     }
   }
-`;
\ No newline at end of file
+`;
+
+// Page of a company's jobs with performance numbers for export, keyed by _id
+export const companyJobExportQuery = groq`
+  *[${companyJobFilter}
+    && (!defined($jobIds) || _id in $jobIds)
+    && (!defined($after) || _id > $after)
+  ] | order(_id asc) [0...$limit] {
+    _id,
+    title,
+    status,
+    "category": category->name,
+    createdAt,
+    publishedAt,
+    expiresAt,
+    applicationDeadline,
+    location,
+    salaryType,
+    salaryMin,
+    salaryMax,
+    "viewCount": coalesce(viewCount, 0),
+    "applicationCount": coalesce(applicationCount, 0),
+    "applicationsByStatus": {
+      "new": count(*[_type == "jobApplication" && job._ref == ^._id && status == "new"]),
+      "reviewed": count(*[_type == "jobApplication" && job._ref == ^._id && status == "reviewed"]),
+      "interviewing": count(*[_type == "jobApplication" && job._ref == ^._id && status == "interviewing"]),
+      "hired": count(*[_type == "jobApplication" && job._ref == ^._id && status == "hired"]),
+      "rejected": count(*[_type == "jobApplication" && job._ref == ^._id && status == "rejected"])
+    }
+  }
+`;
+
+// Dashboard overview counts for a company
+export const companyStatsQuery = groq`
+  {
+    "totalJobs": count(*[_type == "jobPosting" && company._ref == $companyId]),
+    "activeJobs": count(*[_type == "jobPosting" && company._ref == $companyId && status == "published"]),
+    "totalApplications": count(*[_type == "jobApplication" && job->company._ref == $companyId]),
+    "newApplications": count(*[_type == "jobApplication" && job->company._ref == $companyId && appliedDate > $since]),
+    "totalViews": math::sum(*[_type == "jobPosting" && company._ref == $companyId].viewCount)
+  }
+`;
+
+// Hired applications with when they were moved to hired, for time to hire
+export const hiredApplicationsQuery = groq`
+  *[_type == "jobApplication"
+    && job->company._ref == $companyId
+    && status == "hired"
+    && count(statusHistory[to == "hired"]) > 0
+  ] {
+    appliedDate,
+    "hiredAt": statusHistory[to == "hired"][-1].at
+  }
+`;
+
+// Recent applications as dashboard activity
+export const recentApplicationActivityQuery = groq`
+  *[_type == "jobApplication" && job->company._ref == $companyId] | order(appliedDate desc) [0...$limit] {
+    _id,
+    "type": "application",
+    "title": "New application received",
+    "description": applicantInfo.name + " applied for " + job->title,
+    "timestamp": appliedDate,
+    "metadata": {
+      "jobTitle": job->title,
+      "applicantName": applicantInfo.name,
+      "jobId": job->_id
+    }
+  }
+`;
+
+// Recently published jobs as dashboard activity
+export const recentJobActivityQuery = groq`
+  *[_type == "jobPosting" && company._ref == $companyId && status == "published"] | order(publishedAt desc) [0...$limit] {
+    _id,
+    "type": "job_posted",
+    "title": "Job posted",
+    "description": title + " is now live",
+    "timestamp": publishedAt,
+    "metadata": {
+      "jobTitle": title,
+      "jobId": _id
+    }
+  }
+`;
+
+// Best performing published jobs by views
+export const topJobsQuery = groq`
+  *[_type == "jobPosting" && company._ref == $companyId && status == "published"] | order(viewCount desc) [0...$limit] {
+    "jobId": _id,
+    title,
+    "views": coalesce(viewCount, 0),
+    "applications": coalesce(applicationCount, 0),
+    "conversionRate": select(viewCount > 0 => applicationCount / viewCount * 100, 0)
+  }
+`;
+
+// Application dates since a given time, for trend charts
+export const applicationDatesQuery = groq`
+  *[_type == "jobApplication" && job->company._ref == $companyId && appliedDate > $since].appliedDate
+`;
+
+// Daily view buckets for a company's jobs since a given date (YYYY-MM-DD)
+export const companyDailyViewsQuery = groq`
+  *[_type == "jobViewStat" && job->company._ref == $companyId && date >= $since] {
+    date,
+    "views": count
+  }
+`;
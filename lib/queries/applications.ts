@@ -1,4 +1,5 @@
 import groq from 'groq';
+import type { ApplicationListQuery } from '@/lib/validations/application';
 
 // Base application projection
 const applicationProjection = groq`
@@ -7,6 +8,14 @@ const applicationProjection = groq`
     name,
     email,
     phone,
+    skills,
+    certifications,
+    "resume": resume.asset->{
+      "assetId": _id,
+      "filename": originalFilename,
+      mimeType,
+      size
+    },
     resumeUrl,
     linkedIn
   },
@@ -16,12 +25,27 @@ const applicationProjection = groq`
   appliedDate,
   employerNotes,
   interviewDate,
+  statusHistory[] { to, at, by, defined(from) => { from } },
+  interview {
+    "slotId": slot._ref,
+    startsAt,
+    endsAt,
+    location,
+    sequence,
+    cancelledAt
+  },
+  scorecards[] { _key, reviewer, scores[] { criterionKey, label, score }, comment, submittedAt },
+  scorecardAverage,
+  resumeDownloads[] { _key, viewer, downloadedAt },
+  screeningAnswers[] { _key, prompt, answer, passed },
+  knockedOut,
   "job": job->{
     _id,
     title,
     slug,
     location,
     jobType,
+    scorecardCriteria[] { _key, label, kind },
     "company": company->{
       _id,
       name,
@@ -40,12 +64,43 @@ export const applicationsByJobQuery = groq`
   }
 `;
 
-// Get applications for a company
-export const applicationsByCompanyQuery = groq`
-  *[_type == "jobApplication" 
+// Applications to a company's jobs matching the inbox filters; "" and 0 mean
+// "any" and dates are compared as ISO strings
+const companyApplicationFilter = groq`
+  _type == "jobApplication"
     && job->company._ref == $companyId
+    && ($jobId == "" || job._ref == $jobId)
     && ($status == "" || status == $status)
-  ] | order(appliedDate desc) [($page - 1) * $pageSize...$page * $pageSize] {
+    && ($appliedFrom == "" || appliedDate >= $appliedFrom)
+    && ($appliedTo == "" || appliedDate <= $appliedTo)
+    && ($minRating == 0 || rating >= $minRating)
+    && ($minScore == 0 || scorecardAverage >= $minScore)
+    && ($search == "" || resumeText match $search || applicantInfo.name match $search)
+`;
+
+// Unscored applications sort after scored ones
+const companyApplicationSortExpressions: Record<ApplicationListQuery['sort'], string> = {
+  appliedDate: 'appliedDate desc',
+  score: 'coalesce(scorecardAverage, 0) desc, appliedDate desc',
+};
+
+// Get a page of a company's applications. The sort order is picked from the
+// whitelist above since GROQ can't take it as a parameter
+export function companyApplicationsQuery(sort: ApplicationListQuery['sort']) {
+  return groq`
+    *[${companyApplicationFilter}] | order(${companyApplicationSortExpressions[sort]}) [$start...$end] {
+      ${applicationProjection}
+    }
+  `;
+}
+
+export const companyApplicationsCountQuery = groq`
+  count(*[${companyApplicationFilter}])
+`;
+
+// Get an application only if it was made to one of the company's jobs
+export const companyApplicationByIdQuery = groq`
+  *[_type == "jobApplication" && _id == $id && job->company._ref == $companyId][0] {
     ${applicationProjection}
   }
 `;
@@ -57,11 +112,34 @@ export const applicationByIdQuery = groq`
   }
 `;
 
-// Check if user already applied
+// Get the application a scheduling link was issued for
+export const applicationBySchedulingTokenQuery = groq`
+  *[_type == "jobApplication" && schedulingTokenHash == $tokenHash][0] {
+    ${applicationProjection}
+  }
+`;
+
+// Current scorecards and revision, for recomputing the average safely
+export const applicationScorecardsQuery = groq`
+  *[_type == "jobApplication" && _id == $id][0] { _rev, scorecards[] { _key, scores } }
+`;
+
+// Stored resume file, for streaming it to an employer
+export const resumeAssetQuery = groq`
+  *[_type == "sanity.fileAsset" && _id == $id][0] { url, originalFilename, mimeType }
+`;
+
+// Current status and revision, for compare-and-set status changes
+export const applicationStatusQuery = groq`
+  *[_type == "jobApplication" && _id == $id][0] { _rev, status }
+`;
+
+// Check if user already applied; $email is lowercased and $phone formatted
+// by the submission schema, and older applications may have mixed-case emails
 export const hasAppliedQuery = groq`
   count(*[_type == "jobApplication" 
     && job._ref == $jobId 
-    && applicantInfo.email == $email
+    && (lower(applicantInfo.email) == $email || applicantInfo.phone == $phone)
   ]) > 0
 `;
 
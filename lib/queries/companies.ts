@@ -102,4 +102,16 @@ export const jobsByCompanyQuery = groq`
       verified
     }
   }
-`;
\ No newline at end of file
+`;
+// Get company slugs for static generation
+export const companySlugsQuery = groq`
+  *[_type == "company"].slug.current
+`;
+
+// Company contact email plus the emails of its employer users
+export const companyContactEmailsQuery = groq`
+  array::compact(
+    [*[_type == "company" && _id == $companyId][0].email]
+      + *[_type == "user" && companyId == $companyId && role == "employer"].email
+  )
+`;
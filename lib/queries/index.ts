@@ -3,4 +3,7 @@ export * from './jobs';
 export * from './companies';
 export * from './applications';
 export * from './categories';
-export * from './analytics';
\ No newline at end of file
+export * from './analytics';
+export * from './users';
+export * from './templates';
+export * from './interviews';
\ No newline at end of file
@@ -0,0 +1,30 @@
+import groq from 'groq';
+
+const interviewSlotProjection = `
+  _id,
+  "jobId": job._ref,
+  startsAt,
+  endsAt,
+  location,
+  "applicationId": application._ref,
+  createdAt
+`;
+
+// Get a job's interview slots, earliest first
+export const jobInterviewSlotsQuery = groq`
+  *[_type == "interviewSlot" && job._ref == $jobId] | order(startsAt asc) {
+    ${interviewSlotProjection}
+  }
+`;
+
+// Get a single interview slot
+export const interviewSlotByIdQuery = groq`
+  *[_type == "interviewSlot" && _id == $slotId][0] {
+    ${interviewSlotProjection}
+  }
+`;
+
+// Current booking and revision, for claiming a slot only while it is free
+export const interviewSlotBookingQuery = groq`
+  *[_type == "interviewSlot" && _id == $slotId][0] { _rev, "applicationId": application._ref }
+`;
@@ -1,7 +1,8 @@
 import groq from 'groq';
+import type { JobSortField } from '@/lib/validations/job';
 
 // Base job projection
-const jobProjection = groq`
+export const jobProjection = groq`
   _id,
   title,
   slug,
@@ -33,6 +34,8 @@ const jobProjection = groq`
   applicationCount,
   publishedAt,
   expiresAt,
+  // Knockout rules stay private to the employer
+  screeningQuestions[] { _key, prompt, kind, options },
   "category": category->{
     _id,
     name,
@@ -50,9 +53,9 @@ const jobProjection = groq`
   }
 `;
 
-// Get all published jobs with filters
-export const jobsQuery = groq`
-  *[_type == "jobPosting" 
+// Live jobs matching the public search filters; empty filters match everything
+const jobSearchFilter = groq`
+  _type == "jobPosting"
     && status == "published"
     && (expiresAt > now() || !defined(expiresAt))
     && ($category == "" || category->slug.current == $category)
@@ -61,7 +64,11 @@ export const jobsQuery = groq`
     && ($experienceLevel == "" || experienceLevel == $experienceLevel)
     && ($salaryMin == 0 || salaryMin >= $salaryMin)
     && ($search == "" || title match $search || company->name match $search)
-  ] | order(
+`;
+
+// Get all published jobs with filters
+export const jobsQuery = groq`
+  *[${jobSearchFilter}] | order(
     featured desc,
     isUrgent desc,
     publishedAt desc
@@ -72,16 +79,14 @@ export const jobsQuery = groq`
 
 // Count total jobs for pagination
 export const jobsCountQuery = groq`
-  count(*[_type == "jobPosting" 
-    && status == "published"
-    && (expiresAt > now() || !defined(expiresAt))
-    && ($category == "" || category->slug.current == $category)
-    && ($location == "" || location.city == $location || location.county == $location)
-    && ($jobType == "" || jobType == $jobType)
-    && ($experienceLevel == "" || experienceLevel == $experienceLevel)
-    && ($salaryMin == 0 || salaryMin >= $salaryMin)
-    && ($search == "" || title match $search || company->name match $search)
-  ])
+  count(*[${jobSearchFilter}])
+`;
+
+// Jobs matching a saved search that were published since it last ran
+export const jobsPublishedSinceQuery = groq`
+  *[${jobSearchFilter} && publishedAt > $since] | order(publishedAt desc) [0...$limit] {
+    ${jobProjection}
+  }
 `;
 
 // Get single job by slug
@@ -121,4 +126,115 @@ export const urgentJobsQuery = groq`
   ] | order(publishedAt desc) [0...10] {
     ${jobProjection}
   }
-`;
\ No newline at end of file
+`;
+// Get published job slugs for static generation
+export const publishedJobSlugsQuery = groq`
+  *[_type == "jobPosting" && status == "published"].slug.current
+`;
+
+// Filters of the employer jobs table, shared with its export. Empty params
+// match everything; date bounds are compared as ISO strings
+export const companyJobFilter = groq`
+  _type == "jobPosting" && company._ref == $companyId
+    && ($status == "" || status == $status)
+    && ($search == "" || title match $search)
+    && ($postedFrom == "" || publishedAt >= $postedFrom)
+    && ($postedTo == "" || publishedAt <= $postedTo)
+    && ($expiresFrom == "" || expiresAt >= $expiresFrom)
+    && ($expiresTo == "" || expiresAt <= $expiresTo)
+`;
+
+const companyJobSortExpressions: Record<JobSortField, string> = {
+  title: 'lower(title)',
+  status: 'status',
+  applicationCount: 'coalesce(applicationCount, 0)',
+  viewCount: 'coalesce(viewCount, 0)',
+  publishedAt: 'publishedAt',
+  expiresAt: 'expiresAt',
+};
+
+const companyJobSummaryProjection = groq`
+  _id,
+  title,
+  status,
+  viewCount,
+  applicationCount,
+  publishAt,
+  publishedAt,
+  applicationDeadline,
+  expiresAt,
+  "repostOf": repostOf._ref,
+  "slug": slug.current
+`;
+
+// Page of an employer's jobs (dashboard table). GROQ can't take the sort
+// order as a parameter, so it is picked from the whitelist above
+export function companyJobsQuery(sort: JobSortField, direction: 'asc' | 'desc') {
+  return groq`
+    *[${companyJobFilter}] | order(${companyJobSortExpressions[sort]} ${direction}, _id asc) [$start...$end] {
+      ${companyJobSummaryProjection}
+    }
+  `;
+}
+
+// Count an employer's jobs matching the table filters
+export const companyJobsCountQuery = groq`
+  count(*[${companyJobFilter}])
+`;
+
+// Get a single job document by ID
+export const jobByIdQuery = groq`
+  *[_type == "jobPosting" && _id == $jobId][0]
+`;
+
+// Get a single job document owned by a company
+export const companyJobQuery = groq`
+  *[_type == "jobPosting" && _id == $jobId && company._ref == $companyId][0]
+`;
+
+// Get the job documents in a list of IDs that a company owns
+export const companyJobsByIdsQuery = groq`
+  *[_type == "jobPosting" && _id in $jobIds && company._ref == $companyId]
+`;
+
+
+// Published jobs past their expiry or application deadline
+export const jobsDueForExpiryQuery = groq`
+  *[_type == "jobPosting" && status == "published" && (
+    expiresAt <= $now || applicationDeadline < $today
+  )]._id
+`;
+
+// Scheduled jobs whose publish time has arrived
+export const jobsDueForPublishQuery = groq`
+  *[_type == "jobPosting" && status == "scheduled" && publishAt <= $now]._id
+`;
+
+// Published jobs expiring soon that haven't been reminded for this expiry date
+export const jobsExpiringSoonQuery = groq`
+  *[_type == "jobPosting"
+    && status == "published"
+    && expiresAt > $now
+    && expiresAt <= $until
+    && expiryReminderSentFor != expiresAt
+  ] | order(expiresAt asc) {
+    _id,
+    title,
+    "slug": slug.current,
+    expiresAt,
+    "companyName": company->name,
+    "recipients": array::compact([company->email] + *[_type == "user" && companyId == ^.company._ref && role == "employer"].email)
+  }
+`;
+
+// Revision log for a job, newest first
+export const jobRevisionsQuery = groq`
+  *[_type == "jobRevision" && job._ref == $jobId] | order(createdAt desc) {
+    _id,
+    "jobId": job._ref,
+    actor,
+    changes,
+    restoredFrom,
+    createdAt
+  }
+`;
@@ -0,0 +1,36 @@
+import groq from 'groq';
+
+const templateProjection = `
+  _id,
+  name,
+  "shared": !defined(company),
+  title,
+  description,
+  requirements,
+  salaryType,
+  salaryMin,
+  salaryMax,
+  jobType,
+  experienceLevel,
+  "category": category._ref,
+  benefits
+`;
+
+// Get a company's own templates plus the shared trade templates
+export const companyTemplatesQuery = groq`
+  *[_type == "jobTemplate" && (company._ref == $companyId || !defined(company))] | order(name asc) {
+    ${templateProjection}
+  }
+`;
+
+// Get a single template by ID
+export const templateByIdQuery = groq`
+  *[_type == "jobTemplate" && _id == $templateId][0] {
+    ${templateProjection}
+  }
+`;
+
+// Get a template ID only if the company owns it
+export const ownedTemplateIdQuery = groq`
+  *[_type == "jobTemplate" && _id == $templateId && company._ref == $companyId][0]._id
+`;
@@ -0,0 +1,104 @@
+import groq from 'groq';
+import { jobProjection } from './jobs';
+
+// Get user by email
+export const userByEmailQuery = groq`
+  *[_type == "user" && email == $email][0] {
+    _id,
+    email,
+    name,
+    image,
+    role,
+    companyId,
+    createdAt
+  }
+`;
+
+// Get a user's saved jobs table views
+export const userSavedViewsQuery = groq`
+  *[_type == "savedJobView" && user._ref == $userId] | order(name asc) {
+    _id,
+    name,
+    filters,
+    createdAt
+  }
+`;
+
+// Get a saved view ID only if the user owns it
+export const ownedSavedViewIdQuery = groq`
+  *[_type == "savedJobView" && _id == $viewId && user._ref == $userId][0]._id
+`;
+
+const savedSearchProjection = groq`
+  _id,
+  name,
+  filters,
+  frequency,
+  createdAt,
+  lastRunAt
+`;
+
+// Get a user's saved job searches
+export const userSavedSearchesQuery = groq`
+  *[_type == "savedSearch" && user._ref == $userId] | order(name asc) {
+    ${savedSearchProjection}
+  }
+`;
+
+// Get a saved search ID only if the user owns it
+export const ownedSavedSearchIdQuery = groq`
+  *[_type == "savedSearch" && _id == $searchId && user._ref == $userId][0]._id
+`;
+
+// Every saved search with its owner's address, for the alert runner
+export const savedSearchAlertsQuery = groq`
+  *[_type == "savedSearch" && defined(user->email)] {
+    ${savedSearchProjection},
+    "userId": user._ref,
+    "email": user->email,
+    "userName": user->name
+  }
+`;
+
+// Get a user's saved jobs, skipping any deleted since (the reference is weak)
+export const userSavedJobsQuery = groq`
+  *[_type == "savedJob" && user._ref == $userId && defined(job->_id)] | order(savedAt desc) {
+    _id,
+    savedAt,
+    "job": job->{
+      ${jobProjection}
+    }
+  }
+`;
+
+export const userSavedJobIdsQuery = groq`
+  *[_type == "savedJob" && user._ref == $userId && defined(job->_id)].job._ref
+`;
+
+// Get a saved job ID only if the user saved that job
+export const ownedSavedJobIdQuery = groq`
+  *[_type == "savedJob" && job._ref == $jobId && user._ref == $userId][0]._id
+`;
+
+// Saved jobs closing soon that the saver hasn't applied to yet
+export const savedJobDeadlinesQuery = groq`
+  *[_type == "savedJob"
+    && job->status == "published"
+    && job->applicationDeadline >= $today
+    && job->applicationDeadline <= $until
+    && deadlineReminderSentFor != job->applicationDeadline
+    && defined(user->email)
+    && count(*[_type == "jobApplication"
+      && job._ref == ^.job._ref
+      && lower(applicantInfo.email) == lower(^.user->email)
+    ]) == 0
+  ] | order(job->applicationDeadline asc) {
+    _id,
+    "email": user->email,
+    "userName": user->name,
+    "jobTitle": job->title,
+    "jobSlug": job->slug.current,
+    "companyName": job->company->name,
+    "applicationDeadline": job->applicationDeadline
+  }
+`;
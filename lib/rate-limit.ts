@@ -0,0 +1,45 @@
+// Fixed-window request counting, kept in memory. Each server instance counts
+// on its own, which is enough to slow down a script hammering one endpoint
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Stop tracking expired windows once this many keys pile up
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Allow `limit` requests per key every `windowMs`. The returned check counts
+ * a request and gives the seconds to wait when the key is over its limit,
+ * or 0 when the request is allowed.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, RateLimitWindow>();
+
+  return function check(key: string, now = Date.now()) {
+    if (windows.size >= MAX_TRACKED_KEYS) {
+      windows.forEach((entry, trackedKey) => {
+        if (entry.resetAt <= now) windows.delete(trackedKey);
+      });
+    }
+
+    const entry = windows.get(key);
+    if (!entry || entry.resetAt <= now) {
+      windows.set(key, { count: 1, resetAt: now + windowMs });
+      return 0;
+    }
+
+    entry.count++;
+    return entry.count > limit ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+  };
+}
+
+// The client address as reported by the proxy in front of the app
+export function getClientIp(headers: Headers) {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
@@ -0,0 +1,275 @@
+import { inflateSync } from 'zlib';
+import { detectResumeType } from '@/lib/resumes';
+import { TRADE_CERTIFICATIONS, TRADE_SKILLS, findTradeTerms } from '@/lib/trade-vocabulary';
+import { ZipEntryTooLargeError, inflateZipEntry, readZipEntries } from '@/lib/zip';
+import { MAX_RESUME_TEXT_LENGTH } from '@/lib/validations/resume';
+import type { ResumeDetails } from '@/types';
+
+// Words that head a resume without being the applicant's name
+const NOT_A_NAME = /\b(resume|résumé|curriculum|vitae|cv|objective|summary|profile|experience|contact|skills|references)\b/i;
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Most a compressed PDF stream or .docx part may inflate to. Uploads are
+// public, so a small file mustn't be able to expand to gigabytes
+const MAX_INFLATED_BYTES = 2 * 1024 * 1024;
+
+// Most PDF content streams or .docx parts read from one resume
+const MAX_TEXT_PARTS = 50;
+
+// Decoded string operands in a PDF content stream, with line breaks where the
+// text moves to a new line. Only fonts with single-byte encodings come out
+// readable, which covers what word processors and resume builders export
+function readPdfContent(content: string) {
+  let text = '';
+  let index = 0;
+  // String and number operands since the last operator
+  let operands: string[] = [];
+  let numbers: number[] = [];
+  let inArray = false;
+
+  const readLiteral = () => {
+    let value = '';
+    let depth = 1;
+    index++;
+    while (index < content.length && depth > 0) {
+      const char = content[index];
+      if (char === '\\') {
+        const next = content[index + 1];
+        if (/[0-7]/.test(next)) {
+          const octal = content.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)![0];
+          value += String.fromCharCode(parseInt(octal, 8));
+          index += 1 + octal.length;
+          continue;
+        }
+        // A backslash before a line break continues the string
+        if (next !== '\r' && next !== '\n') value += PDF_ESCAPES[next] ?? next ?? '';
+        index += 2;
+        continue;
+      }
+      if (char === '(') depth++;
+      if (char === ')' && --depth === 0) break;
+      value += char;
+      index++;
+    }
+    index++;
+    return value;
+  };
+
+  const readHex = () => {
+    const end = content.indexOf('>', index);
+    const hex = content.slice(index + 1, end === -1 ? undefined : end).replace(/[^0-9a-f]/gi, '');
+    index = end === -1 ? content.length : end + 1;
+    const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return bytes.subarray(2, bytes.length - (bytes.length % 2)).swap16().toString('utf16le');
+    }
+    // Two-byte glyph ids without a byte order mark aren't text we can read
+    return bytes.some((byte) => byte < 0x09) ? '' : bytes.toString('latin1');
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '(') {
+      operands.push(readLiteral());
+    } else if (char === '<') {
+      // `<<` opens a dictionary, such as marked-content properties
+      if (content[index + 1] === '<') index += 2;
+      else operands.push(readHex());
+    } else if (char === '[' || char === ']') {
+      inArray = char === '[';
+      index++;
+    } else if (char === '%') {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(index).match(/^[A-Za-z'"*]+/)![0];
+      index += operator.length;
+
+      if (operator === 'Tj' || operator === 'TJ') {
+        text += operands.join('');
+      } else if (operator === "'" || operator === '"') {
+        text += `\n${operands.join('')}`;
+      } else if (operator === 'Td' || operator === 'TD') {
+        // Moving along the same baseline is a gap, moving down a new line
+        text += numbers[numbers.length - 1] ? '\n' : ' ';
+      } else if (operator === 'T*' || operator === 'Tm' || operator === 'ET') {
+        text += '\n';
+      }
+      operands = [];
+      numbers = [];
+    } else if (/[-+0-9.]/.test(char)) {
+      const number = content.slice(index).match(/^[-+]?[0-9.]+/);
+      index += number ? number[0].length : 1;
+      if (!number) continue;
+      // A large negative kern inside a TJ array is the gap between words
+      if (inArray && Number(number[0]) < -200) operands.push(' ');
+      else numbers.push(Number(number[0]));
+    } else {
+      index++;
+    }
+  }
+
+  return text;
+}
+
+function extractPdfText(data: Buffer) {
+  const source = data.toString('latin1');
+  const pattern = /stream\r?\n/g;
+  const parts: string[] = [];
+  let streams = 0;
+  let length = 0;
+  let match: RegExpExecArray | null;
+
+  while (length < MAX_RESUME_TEXT_LENGTH && (match = pattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+    pattern.lastIndex = end + 'endstream'.length;
+
+    // The stream's dictionary sits between the object header and `stream`
+    const dictionary = source.slice(Math.max(0, source.lastIndexOf(' obj', match.index)), match.index);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+    if (filters && filters.replace(/[\[\]\s]/g, '') !== '/FlateDecode') continue;
+    // Every stream read counts, with text or not, so many small ones can't add up
+    if (++streams > MAX_TEXT_PARTS) break;
+
+    const raw = data.subarray(start, end);
+    let content: string;
+    try {
+      content = (filters ? inflateSync(raw, { maxOutputLength: MAX_INFLATED_BYTES }) : raw).toString('latin1');
+    } catch (error) {
+      // A stream inflating past the limit means no text is read from the file
+      if (error instanceof RangeError) return '';
+      // Truncated or unusual streams are skipped rather than failing the upload
+      continue;
+    }
+
+    if (/\bBT\b/.test(content)) {
+      const text = readPdfContent(content);
+      parts.push(text);
+      length += text.length;
+    }
+  }
+
+  return parts.join('\n');
+}
+
+function decodeXmlEntities(value: string) {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCharCode(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Text runs of one WordprocessingML part, a line per paragraph
+function readWordXml(xml: string) {
+  let text = '';
+  const pattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>|<\/w:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else if (match[0] === '<w:tab/>') text += '\t';
+    else text += '\n';
+  }
+
+  return text;
+}
+
+function extractDocxText(data: Buffer) {
+  const entries = readZipEntries(data);
+  // Contact details are often kept in the page header
+  const parts = entries
+    .filter((entry) => /^word\/header\d*\.xml$/.test(entry.name))
+    .concat(entries.filter((entry) => entry.name === 'word/document.xml'))
+    .slice(0, MAX_TEXT_PARTS);
+
+  const texts: string[] = [];
+  let length = 0;
+
+  for (const entry of parts) {
+    if (length >= MAX_RESUME_TEXT_LENGTH) break;
+
+    let xml: string;
+    try {
+      xml = inflateZipEntry(entry, MAX_INFLATED_BYTES).toString('utf8');
+    } catch (error) {
+      // A part inflating past the limit means no text is read from the file
+      if (error instanceof ZipEntryTooLargeError) return '';
+      throw error;
+    }
+
+    const text = readWordXml(xml);
+    texts.push(text);
+    length += text.length;
+  }
+
+  return texts.join('\n');
+}
+
+// Trimmed lines with runs of spaces collapsed and blank lines dropped
+function normalizeText(text: string) {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_RESUME_TEXT_LENGTH);
+}
+
+/**
+ * Plain text of a PDF or .docx resume, read locally so the file never leaves
+ * the server. Empty for .doc files, scanned PDFs and anything unreadable.
+ */
+export function extractResumeText(data: Buffer) {
+  try {
+    switch (detectResumeType(data)) {
+      case 'pdf':
+        return normalizeText(extractPdfText(data));
+      case 'docx':
+        return normalizeText(extractDocxText(data));
+      default:
+        return '';
+    }
+  } catch (error) {
+    console.error('Error extracting resume text:', error);
+    return '';
+  }
+}
+
+// "JANE DOE" -> "Jane Doe"; mixed case is left as written
+function toNameCase(value: string) {
+  if (value !== value.toUpperCase()) return value;
+  return value.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, separator, letter) => separator + letter.toUpperCase());
+}
+
+// Name, contact details and trade terms found in resume text, for prefilling
+// the application form
+export function parseResumeDetails(text: string): ResumeDetails {
+  const lines = text.split('\n');
+
+  const name = lines
+    .slice(0, 5)
+    .map((line) => line.trim())
+    .find((line) => /^[A-Za-z][A-Za-z'.-]*(?: [A-Za-z][A-Za-z'.-]*){1,3}$/.test(line) && !NOT_A_NAME.test(line));
+
+  const email = text.match(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i)?.[0];
+  const phone = text.match(/(?:\+?1[\s.-]?)?\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-]?(\d{4})\b/);
+
+  return {
+    name: name ? toNameCase(name) : undefined,
+    email: email?.toLowerCase(),
+    // Written the way the form's placeholder shows
+    phone: phone ? `(${phone[1]}) ${phone[2]}-${phone[3]}` : undefined,
+    skills: findTradeTerms(text, TRADE_SKILLS),
+    certifications: findTradeTerms(text, TRADE_CERTIFICATIONS),
+  };
+}
@@ -0,0 +1,267 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getRepository, type ResumeUpload } from '@/lib/data';
+import { env } from '@/lib/env';
+import { MAX_RESUME_BYTES, RESUME_TYPES, type ResumeType } from '@/lib/validations/resume';
+import {
+  MAX_ZIP_ENTRY_BYTES,
+  createZipEntry,
+  inflateZipEntry,
+  readZipEntries,
+  writeZip,
+  ZipEntryTooLargeError,
+  type ZipEntry,
+} from '@/lib/zip';
+import type { ResumeDownload } from '@/types';
+
+// D0 CF 11 E0 A1 B1 1A E1, the OLE2 compound file header of .doc
+const OLE2_SIGNATURE = Buffer.from('d0cf11e0a1b11ae1', 'hex');
+// ZIP local file header, the start of every .docx
+const ZIP_SIGNATURE = Buffer.from('504b0304', 'hex');
+
+// PDF document information entries that can identify the author or their machine
+const PDF_INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer'];
+
+const EMPTY_CORE_PROPERTIES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+  '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"/>';
+
+const EMPTY_CUSTOM_PROPERTIES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+  '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+  'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"/>';
+
+function isDocx(data: Buffer) {
+  try {
+    return readZipEntries(data).some((entry) => entry.name === 'word/document.xml');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format of a resume judged by its leading bytes, or null for anything
+ * that isn't a PDF or Word document.
+ */
+export function detectResumeType(data: Buffer): ResumeType | null {
+  // Readers accept a little junk before the header
+  if (data.subarray(0, 1024).includes('%PDF-')) return 'pdf';
+
+  if (data.subarray(0, 8).equals(OLE2_SIGNATURE)) {
+    // Excel and PowerPoint files are OLE2 too; Word ones have this stream
+    return data.includes(Buffer.from('WordDocument', 'utf16le')) ? 'doc' : null;
+  }
+
+  if (data.subarray(0, 4).equals(ZIP_SIGNATURE) && isDocx(data)) return 'docx';
+
+  return null;
+}
+
+// Byte ranges of stream data, which may be binary and mustn't be touched
+function findPdfStreams(text: string) {
+  const ranges: Array<[number, number]> = [];
+  const pattern = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end === -1) break;
+    ranges.push([start, end]);
+    pattern.lastIndex = end;
+  }
+
+  return ranges;
+}
+
+// End (exclusive) of the literal or hex string starting at `start`
+function findPdfStringEnd(text: string, start: number) {
+  if (text[start] === '<') {
+    const end = text.indexOf('>', start);
+    return end === -1 ? -1 : end + 1;
+  }
+
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') index++;
+    else if (char === '(') depth++;
+    else if (char === ')' && --depth === 0) return index + 1;
+  }
+  return -1;
+}
+
+/**
+ * Blank out the document information strings and XMP metadata of a PDF.
+ * Everything is overwritten with spaces in place, so the byte offsets in the
+ * cross-reference table stay valid. Metadata inside compressed object
+ * streams is left alone.
+ */
+function stripPdfMetadata(data: Buffer) {
+  // latin1 maps each byte to one character, so string offsets are byte offsets
+  const text = data.toString('latin1');
+  const output = Buffer.from(data);
+  const streams = findPdfStreams(text);
+  const inStream = (offset: number) => streams.some(([start, end]) => offset >= start && offset < end);
+
+  const blank = (start: number, end: number) => {
+    for (let index = start; index < end; index++) {
+      if (text[index] !== '\r' && text[index] !== '\n') output[index] = 0x20;
+    }
+  };
+
+  const infoPattern = new RegExp(`/(?:${PDF_INFO_KEYS.join('|')})\\s*(?=\\(|<(?!<))`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = infoPattern.exec(text))) {
+    const start = match.index + match[0].length;
+    if (inStream(start)) continue;
+
+    const end = findPdfStringEnd(text, start);
+    // Keep the delimiters so the value becomes an empty (or blank) string
+    if (end !== -1) blank(start + 1, end - 1);
+  }
+
+  // XMP packets are usually stored uncompressed so tools can find them
+  const xmpPattern = /<x:xmpmeta[\s\S]*?<\/x:xmpmeta>/g;
+  while ((match = xmpPattern.exec(text))) {
+    blank(match.index, match.index + match[0].length);
+  }
+
+  return output;
+}
+
+// Replace the author, company and custom properties of a .docx
+function stripDocxMetadata(data: Buffer) {
+  const entries = readZipEntries(data);
+  // Checked on every part, not only the ones rewritten here, since the text
+  // of the others is read later
+  const oversized = entries.find((entry) => entry.size > MAX_ZIP_ENTRY_BYTES);
+  if (oversized) throw new ZipEntryTooLargeError(oversized.name, MAX_ZIP_ENTRY_BYTES);
+
+  const stripped = entries.map((entry): ZipEntry => {
+    switch (entry.name) {
+      case 'docProps/core.xml':
+        return createZipEntry(entry.name, Buffer.from(EMPTY_CORE_PROPERTIES), entry);
+      case 'docProps/custom.xml':
+        return createZipEntry(entry.name, Buffer.from(EMPTY_CUSTOM_PROPERTIES), entry);
+      case 'docProps/app.xml': {
+        const xml = inflateZipEntry(entry)
+          .toString('utf8')
+          .replace(/<(Company|Manager)>[\s\S]*?<\/\1>/g, '<$1></$1>');
+        return createZipEntry(entry.name, Buffer.from(xml), entry);
+      }
+      default:
+        return entry;
+    }
+  });
+
+  return writeZip(stripped);
+}
+
+function stripMetadata(data: Buffer, type: ResumeType) {
+  try {
+    if (type === 'pdf') return stripPdfMetadata(data);
+    if (type === 'docx') return stripDocxMetadata(data);
+  } catch (error) {
+    // Except one that inflates past the limit, which is refused
+    if (error instanceof ZipEntryTooLargeError) throw error;
+    // A file we can't rewrite is still a valid resume
+    console.error('Error stripping resume metadata:', error);
+  }
+  // .doc metadata lives in OLE2 property streams, which aren't rewritten
+  return data;
+}
+
+// "My Resume (final).PDF" -> "My-Resume-final.pdf", with the extension
+// matching the detected format
+function toResumeFilename(filename: string, type: ResumeType) {
+  const base = filename
+    .replace(/\.[^.]*$/, '')
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+
+  return `${base || 'resume'}.${RESUME_TYPES[type].extension}`;
+}
+
+/**
+ * Check an uploaded resume and get it ready for storage. Returns a message
+ * for the applicant instead when the file is too large or not a PDF or Word
+ * document.
+ */
+export function prepareResume(data: Buffer, filename: string): ResumeUpload | string {
+  if (data.length === 0) return 'The resume file is empty';
+  if (data.length > MAX_RESUME_BYTES) return 'Resume must be less than 5MB';
+
+  const type = detectResumeType(data);
+  if (!type) return 'Please upload a PDF or Word document';
+
+  let stripped: Buffer;
+  try {
+    stripped = stripMetadata(data, type);
+  } catch (error) {
+    if (error instanceof ZipEntryTooLargeError) return 'This document is too large to process';
+    throw error;
+  }
+
+  return {
+    data: stripped,
+    filename: toResumeFilename(filename, type),
+    mimeType: RESUME_TYPES[type].mimeType,
+  };
+}
+
+// Long enough to open the file, short enough that a copied link goes stale
+const DOWNLOAD_URL_TTL_MS = 5 * 60 * 1000;
+
+interface ResumeDownloadGrant {
+  applicationId: string;
+  // Checked again on download, in case the application changed hands
+  companyId: string;
+  viewer: ResumeDownload['viewer'];
+  expiresAt: number;
+}
+
+function signDownload(payload: string) {
+  return createHmac('sha256', env.nextAuth.secret).update(payload).digest('base64url');
+}
+
+/**
+ * Short-lived link to an application's resume for one employer. The link
+ * carries who it was issued to, so the download can be logged against them.
+ */
+export function getResumeDownloadUrl(
+  access: Omit<ResumeDownloadGrant, 'expiresAt'>,
+  now = Date.now()
+) {
+  const grant: ResumeDownloadGrant = { ...access, expiresAt: now + DOWNLOAD_URL_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(grant)).toString('base64url');
+  return `/api/resumes/${payload}.${signDownload(payload)}`;
+}
+
+// The grant behind a download link, or null when it was tampered with or has expired
+export function verifyResumeDownloadToken(token: string, now = Date.now()): ResumeDownloadGrant | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !env.nextAuth.secret) return null;
+
+  const expected = Buffer.from(signDownload(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const grant: ResumeDownloadGrant = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return grant.expiresAt > now ? grant : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordResumeDownload(grant: ResumeDownloadGrant, now = new Date()) {
+  await getRepository().applications.appendResumeDownload(grant.applicationId, {
+    _key: randomBytes(6).toString('hex'),
+    viewer: grant.viewer,
+    downloadedAt: now.toISOString(),
+  });
+}
@@ -0,0 +1,111 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'sanity-webhook-signature';
+
+// Reject signatures older than this to limit replayed deliveries
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Body sent by the Sanity webhook. Configure the webhook projection as:
+ * {_id, _type, "slug": slug.current, "companySlug": company->slug.current, "jobSlug": job->slug.current}
+ */
+export interface SanityWebhookPayload {
+  _id: string;
+  _type: string;
+  slug?: string | null;
+  companySlug?: string | null;
+  jobSlug?: string | null;
+}
+
+export interface RevalidationTargets {
+  tags: string[];
+  paths: string[];
+}
+
+function sign(payload: string, timestamp: string, secret: string) {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Verify a `t=<timestamp>,v1=<signature>` header against the raw request body
+ */
+export function isValidSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now = Date.now()
+): boolean {
+  if (!header || !secret) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.trim().split('=') as [string, string])
+  );
+  const timestamp = parts.t;
+  const signature = parts.v1;
+
+  if (!timestamp || !signature) return false;
+  if (Math.abs(now - Number(timestamp)) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const expected = Buffer.from(sign(body, timestamp, secret));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Map a changed document to the fetch cache tags and routes that render it
+ */
+export function getRevalidationTargets(payload: SanityWebhookPayload): RevalidationTargets {
+  const tags = new Set<string>();
+  const paths = new Set<string>();
+
+  switch (payload._type) {
+    case 'jobPosting':
+      tags.add('jobs');
+      tags.add('categories');
+      tags.add('companies');
+      paths.add('/jobs');
+      if (payload.slug) {
+        tags.add(`job-${payload.slug}`);
+        paths.add(`/jobs/${payload.slug}`);
+      }
+      if (payload.companySlug) {
+        tags.add(`company-${payload.companySlug}`);
+        paths.add(`/companies/${payload.companySlug}`);
+      }
+      break;
+
+    case 'company':
+      // Job listings embed company details
+      tags.add('companies');
+      tags.add('jobs');
+      paths.add('/companies');
+      paths.add('/jobs');
+      if (payload.slug) {
+        tags.add(`company-${payload.slug}`);
+        paths.add(`/companies/${payload.slug}`);
+      }
+      break;
+
+    case 'jobCategory':
+      tags.add('categories');
+      tags.add('jobs');
+      paths.add('/jobs');
+      break;
+
+    case 'jobApplication':
+      paths.add('/dashboard');
+      if (payload.jobSlug) {
+        tags.add(`job-${payload.jobSlug}`);
+        paths.add(`/jobs/${payload.jobSlug}`);
+      }
+      break;
+  }
+
+  return { tags: Array.from(tags), paths: Array.from(paths) };
+}
@@ -1,6 +1,5 @@
-import { client, sanityFetch } from './sanity';
-import * as queries from './queries';
-import type { Job, Company, JobApplication, JobCategory } from '@/types';
+import { getRepository } from './data';
+import type { Job, Company, JobCategory } from '@/types';
 
 // Job fetching functions
 export async function getJobs(params: {
@@ -24,26 +23,16 @@ export async function getJobs(params: {
     search = '',
   } = params;
 
-  const [jobs, total] = await Promise.all([
-    sanityFetch<Job[]>(queries.jobsQuery, {
-      page,
-      pageSize,
-      category,
-      location,
-      jobType,
-      experienceLevel,
-      salaryMin,
-      search: search ? `*${search}*` : '',
-    }, ['jobs']),
-    sanityFetch<number>(queries.jobsCountQuery, {
-      category,
-      location,
-      jobType,
-      experienceLevel,
-      salaryMin,
-      search: search ? `*${search}*` : '',
-    }, ['jobs']),
-  ]);
+  const { jobs, total } = await getRepository().jobs.search({
+    page,
+    pageSize,
+    category,
+    location,
+    jobType,
+    experienceLevel,
+    salaryMin,
+    search,
+  });
 
   return {
     jobs,
@@ -54,25 +43,10 @@ export async function getJobs(params: {
 
 export async function getJobBySlug(slug: string): Promise<Job | null> {
   try {
-    const job = await sanityFetch<Job>(
-      queries.jobBySlugQuery,
-      { slug },
-      ['jobs', `job-${slug}`]
-    );
-    
-    // Increment view count
-    if (job) {
-      await client
-        .patch(job._id)
-        .inc({ viewCount: 1 })
-        .commit();
-    }
-    
-    return job;
+    // Views are counted by the client beacon (see app/api/views), not on render
+    return await getRepository().jobs.getBySlug(slug);
   } catch (error) {
     console.error('Error fetching job by slug:', error);
-    // In development, you might want to return mock data
-    // For production, return null to show 404
     return null;
   }
 }
@@ -83,11 +57,7 @@ export async function getRelatedJobs(
   city: string
 ): Promise<Job[]> {
   try {
-    return await sanityFetch<Job[]>(
-      queries.relatedJobsQuery,
-      { currentSlug, categoryId, city },
-      ['jobs']
-    );
+    return await getRepository().jobs.listRelated(currentSlug, categoryId, city);
   } catch (error) {
     console.error('Error fetching related jobs:', error);
     return [];
@@ -101,7 +71,7 @@ export async function getCompanies(params: {
   search?: string;
   size?: string;
   location?: string;
-}) {
+}): Promise<Company[]> {
   const {
     page = 1,
     pageSize = 20,
@@ -110,163 +80,22 @@ export async function getCompanies(params: {
     location = '',
   } = params;
 
-  try {
-    const companies = await sanityFetch<Company[]>(
-      queries.companiesQuery,
-      {
-        page,
-        pageSize,
-        search: search ? `*${search}*` : '',
-        size,
-        location,
-      },
-      ['companies']
-    );
-
-    return companies;
-  } catch (error) {
-    console.error('Error fetching companies from Sanity, using mock data:', error);
-    // Fallback to mock data
-    const { mockCompanies } = await import('@/components/Public/mock-data');
-    
-    // Apply basic filtering to mock data
-    let filteredCompanies = mockCompanies;
-    
-    if (search) {
-      filteredCompanies = filteredCompanies.filter(company =>
-        company.name.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    if (size) {
-      filteredCompanies = filteredCompanies.filter(company => company.size === size);
-    }
-    
-    if (location) {
-      filteredCompanies = filteredCompanies.filter(company =>
-        company.locations?.some(loc => 
-          loc.city.toLowerCase().includes(location.toLowerCase())
-        )
-      );
-    }
-    
-    // Apply pagination
-    const startIndex = (page - 1) * pageSize;
-    const endIndex = startIndex + pageSize;
-    
-    return filteredCompanies.slice(startIndex, endIndex);
-  }
+  return getRepository().companies.search({ page, pageSize, search, size, location });
 }
 
 export async function getCompanyBySlug(slug: string): Promise<Company | null> {
-  try {
-    return await sanityFetch<Company>(
-      queries.companyBySlugQuery,
-      { slug },
-      ['companies', `company-${slug}`]
-    );
-  } catch (error) {
-    console.error('Error fetching company from Sanity, using mock data:', error);
-    // Fallback to mock data
-    const { mockCompanies } = await import('@/components/Public/mock-data');
-    return mockCompanies.find(company => company.slug.current === slug) || null;
-  }
+  return getRepository().companies.getBySlug(slug);
 }
 
 export async function getJobsByCompany(companySlug: string): Promise<Job[]> {
-  try {
-    return await sanityFetch<Job[]>(
-      queries.jobsByCompanyQuery,
-      { companySlug },
-      ['jobs', `company-${companySlug}`]
-    );
-  } catch (error) {
-    console.error('Error fetching company jobs from Sanity, using mock data:', error);
-    // Fallback to mock data
-    const { mockJobs } = await import('@/components/Public/mock-data');
-    return mockJobs.filter(job => job.company.slug.current === companySlug);
-  }
-}
-
-// Application functions
-export async function createApplication(data: {
-  jobId: string;
-  applicantInfo: {
-    name: string;
-    email: string;
-    phone: string;
-    resumeUrl?: string;
-    linkedIn?: string;
-  };
-  coverMessage?: string;
-}) {
-  try {
-    // Check if already applied
-    const hasApplied = await sanityFetch<boolean>(
-      queries.hasAppliedQuery,
-      { jobId: data.jobId, email: data.applicantInfo.email }
-    );
-
-    if (hasApplied) {
-      throw new Error('You have already applied to this job');
-    }
-
-    // Create application
-    const application = await client.create({
-      _type: 'jobApplication',
-      job: { _ref: data.jobId },
-      applicantInfo: data.applicantInfo,
-      coverMessage: data.coverMessage,
-      status: 'new',
-      appliedDate: new Date().toISOString(),
-    });
-
-    // Increment application count
-    await client
-      .patch(data.jobId)
-      .inc({ applicationCount: 1 })
-      .commit();
-
-    return application;
-  } catch (error) {
-    console.error('Error creating application:', error);
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Failed to submit application. Please try again.');
-  }
+  return getRepository().jobs.listByCompanySlug(companySlug);
 }
 
 // Category functions
 export async function getCategories(): Promise<JobCategory[]> {
-  return sanityFetch<JobCategory[]>(
-    queries.categoriesQuery,
-    {},
-    ['categories']
-  );
+  return getRepository().categories.list();
 }
 
 export async function getPopularCategories(): Promise<JobCategory[]> {
-  return sanityFetch<JobCategory[]>(
-    queries.popularCategoriesQuery,
-    {},
-    ['categories']
-  );
+  return getRepository().categories.listPopular();
 }
-
-// Analytics functions
-export async function getEmployerStats(userId: string) {
-  return sanityFetch(
-    queries.employerStatsQuery,
-    { userId },
-    ['analytics']
-  );
-}
-
-export async function getRecentActivity(userId: string) {
-  return sanityFetch(
-    queries.recentActivityQuery,
-    { userId },
-    ['analytics']
-  );
-}
\ No newline at end of file
@@ -4,8 +4,8 @@ import { env } from './env';
 
 // Initialize Sanity client
 export const client = createClient({
-  projectId: env.sanity.projectId,
-  dataset: env.sanity.dataset,
+  projectId: env.sanity.projectId || 'placeholder',
+  dataset: env.sanity.dataset || 'production',
   apiVersion: '2024-01-01',
   useCdn: process.env.NODE_ENV === 'production',
   token: env.sanity.apiToken, // Needed for mutations
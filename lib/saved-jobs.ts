@@ -0,0 +1,44 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { isPastDeadline } from '@/lib/job-lifecycle';
+import type { Job } from '@/types';
+
+// Job seekers hear about a saved job's application deadline this many days ahead
+export const DEADLINE_REMINDER_DAYS = 3;
+
+export interface SavedJobNotice {
+  // closed: can't apply any more; deadline: can, but not for long
+  tone: 'closed' | 'deadline';
+  message: string;
+}
+
+// Days from today until an application deadline (a YYYY-MM-DD date)
+export function getDaysUntilDeadline(applicationDeadline: string, now = new Date()) {
+  return differenceInCalendarDays(parseISO(applicationDeadline), parseISO(now.toISOString().slice(0, 10)));
+}
+
+// Why a saved job can't be applied to any more, or that it closes soon
+export function getSavedJobNotice(job: Job, now = new Date()): SavedJobNotice | null {
+  if (job.status === 'filled') {
+    return { tone: 'closed', message: 'This position has been filled' };
+  }
+
+  const hasExpired = !!job.expiresAt && new Date(job.expiresAt) <= now;
+  if (job.status !== 'published' || hasExpired || isPastDeadline(job, now)) {
+    return { tone: 'closed', message: 'No longer accepting applications' };
+  }
+
+  if (job.applicationDeadline) {
+    const daysLeft = getDaysUntilDeadline(job.applicationDeadline, now);
+    if (daysLeft <= DEADLINE_REMINDER_DAYS) {
+      const deadline = format(parseISO(job.applicationDeadline), 'MMM d');
+      return {
+        tone: 'deadline',
+        message: daysLeft === 0
+          ? 'Applications close today'
+          : `Applications close ${deadline}, in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import type { SavedSearch } from '@/lib/data';
+import type { AlertFrequency, JobSearchFilters } from '@/lib/validations/job';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAX_SAVED_SEARCHES = 20;
+
+// intervalMs is the least time between two alerts; instant alerts go out on
+// every scheduler run that finds new jobs
+export const alertFrequencyConfig: Record<AlertFrequency, { label: string; intervalMs: number }> = {
+  instant: { label: 'As soon as jobs are posted', intervalMs: 0 },
+  daily: { label: 'Daily', intervalMs: 24 * HOUR_MS },
+  weekly: { label: 'Weekly', intervalMs: 7 * 24 * HOUR_MS },
+};
+
+export function isAlertDue(search: Pick<SavedSearch, 'frequency' | 'lastRunAt'>, now = new Date()) {
+  return now.getTime() - new Date(search.lastRunAt).getTime() >= alertFrequencyConfig[search.frequency].intervalMs;
+}
+
+// Query string of the /jobs page showing a search, without empty filters
+export function toJobsSearchQuery(filters: JobSearchFilters) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+// A default name for a search, e.g. "welder jobs in Denver"
+export function describeSearch(filters: JobSearchFilters, categoryName?: string) {
+  const subject = [filters.search, categoryName || filters.category].filter(Boolean).join(' ');
+  const parts = [
+    subject ? `${subject} jobs` : 'All jobs',
+    filters.location && `in ${filters.location}`,
+    filters.salaryMin > 0 && `paying $${filters.salaryMin.toLocaleString('en-US')}+`,
+  ];
+  return parts.filter(Boolean).join(' ').slice(0, 60);
+}
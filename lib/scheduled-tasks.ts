@@ -0,0 +1,259 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { getRepository } from '@/lib/data';
+import type { JobDocument, JobInput } from '@/lib/data';
+import { sendEmail, sendTemplateEmail } from '@/lib/email/client';
+import { renderEmail } from '@/lib/email/templates';
+import { env } from '@/lib/env';
+import { getUnsubscribeUrl } from '@/lib/job-alerts';
+import {
+  EXPIRY_REMINDER_DAYS,
+  LISTING_DURATION_DAYS,
+  getPublishFields,
+} from '@/lib/job-lifecycle';
+import { SYSTEM_ACTOR } from '@/lib/job-revisions';
+import { updateJobWithRevision } from '@/lib/mutations';
+import { DEADLINE_REMINDER_DAYS, getDaysUntilDeadline } from '@/lib/saved-jobs';
+import { isAlertDue, toJobsSearchQuery } from '@/lib/saved-searches';
+
+// Most jobs listed in one alert; the rest are a click away on /jobs
+const ALERT_JOB_LIMIT = 20;
+
+export interface TaskFailure {
+  id: string;
+  reason: string;
+}
+
+export interface ScheduledTasksReport {
+  ranAt: string;
+  published: {
+    updated: string[];
+    failed: TaskFailure[];
+  };
+  expired: {
+    updated: string[];
+    failed: TaskFailure[];
+  };
+  reminders: {
+    sent: string[];
+    failed: TaskFailure[];
+  };
+  alerts: {
+    sent: string[];
+    failed: TaskFailure[];
+  };
+  deadlineReminders: {
+    sent: string[];
+    failed: TaskFailure[];
+  };
+}
+
+/**
+ * Apply an automatic change to each job, recorded in its history as the
+ * system. One job failing is logged and reported without stopping the others
+ * or the tasks after this one; it's picked up again on the next run.
+ */
+async function updateJobsAsSystem(jobIds: string[], getData: (job: JobDocument) => JobInput) {
+  const { jobs } = getRepository();
+
+  const results = await Promise.allSettled(
+    jobIds.map(async (id) => {
+      const job = await jobs.getById(id);
+      if (job) await updateJobWithRevision(job, getData(job), SYSTEM_ACTOR);
+    })
+  );
+
+  const updated: string[] = [];
+  const failed: TaskFailure[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      updated.push(jobIds[index]);
+      return;
+    }
+
+    console.error(`Error updating job ${jobIds[index]}:`, result.reason);
+    failed.push({
+      id: jobIds[index],
+      reason: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    });
+  });
+
+  return { updated, failed };
+}
+
+// Publish scheduled jobs whose publishAt has passed, keeping any expiry the
+// employer set that's still ahead and otherwise starting a fresh listing period
+export async function publishScheduledJobs(now = new Date()) {
+  const { jobs } = getRepository();
+  const jobIds = await jobs.listDueForPublish(now.toISOString());
+
+  return updateJobsAsSystem(jobIds, (job) => getPublishFields(job, now));
+}
+
+// Mark published jobs past expiresAt or applicationDeadline as expired
+export async function expireJobs(now = new Date()) {
+  const { jobs } = getRepository();
+  const jobIds = await jobs.listDueForExpiry(now.toISOString(), now.toISOString().slice(0, 10));
+
+  return updateJobsAsSystem(jobIds, () => ({ status: 'expired' }));
+}
+
+// Email employers whose postings lapse within EXPIRY_REMINDER_DAYS, once per expiry date
+export async function sendExpiryReminders(now = new Date()) {
+  const { jobs } = getRepository();
+  const expiring = await jobs.listExpiringSoon(
+    now.toISOString(),
+    addDays(now, EXPIRY_REMINDER_DAYS).toISOString()
+  );
+
+  const sent: string[] = [];
+  const failed: TaskFailure[] = [];
+
+  // Sequential to stay within the email provider's rate limit
+  for (const job of expiring) {
+    if (job.recipients.length === 0) {
+      failed.push({ id: job._id, reason: 'No contact email for company' });
+      continue;
+    }
+
+    const result = await sendTemplateEmail(job.recipients, 'postingExpiring', {
+      companyName: job.companyName,
+      jobTitle: job.title,
+      expiresAt: job.expiresAt,
+      daysLeft: Math.max(differenceInCalendarDays(new Date(job.expiresAt), now), 1),
+      renewalDays: LISTING_DURATION_DAYS,
+      dashboardUrl: `${env.nextAuth.url}/dashboard/jobs`,
+      jobUrl: `${env.nextAuth.url}/jobs/${job.slug}`,
+    });
+
+    if (!result.success) {
+      failed.push({ id: job._id, reason: result.error || 'Failed to send email' });
+      continue;
+    }
+
+    await jobs.update(job._id, { expiryReminderSentFor: job.expiresAt });
+    sent.push(job._id);
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Email job seekers the jobs posted since their saved search last ran, for
+ * each search whose daily or weekly interval has passed (instant searches
+ * run every time). Searches only move on once their alert is sent, so a
+ * failed send is retried with the same jobs.
+ */
+export async function sendSavedSearchAlerts(now = new Date()) {
+  const { jobs, savedSearches } = getRepository();
+  const due = (await savedSearches.listForAlerts()).filter((search) => isAlertDue(search, now));
+  const runAt = now.toISOString();
+
+  const sent: string[] = [];
+  const failed: TaskFailure[] = [];
+
+  // Sequential to stay within the email provider's rate limit
+  for (const search of due) {
+    // One extra to tell whether there are more than we list
+    const matches = await jobs.listPublishedSince(search.filters, search.lastRunAt, ALERT_JOB_LIMIT + 1);
+
+    if (matches.length === 0) {
+      // Instant searches keep their window open rather than writing on every run
+      if (search.frequency !== 'instant') await savedSearches.markRun(search._id, runAt);
+      continue;
+    }
+
+    const unsubscribeUrl = getUnsubscribeUrl(search, search.userId);
+    const query = toJobsSearchQuery(search.filters);
+    const result = await sendEmail({
+      to: search.email,
+      ...renderEmail('jobAlert', {
+        userName: search.userName,
+        searchName: search.name,
+        jobs: matches.slice(0, ALERT_JOB_LIMIT).map((job) => ({
+          title: job.title,
+          companyName: job.company.name,
+          location: job.location.city,
+          url: `${env.nextAuth.url}/jobs/${job.slug.current}`,
+        })),
+        hasMore: matches.length > ALERT_JOB_LIMIT,
+        searchUrl: `${env.nextAuth.url}/jobs${query ? `?${query}` : ''}`,
+        manageUrl: `${env.nextAuth.url}/alerts`,
+        unsubscribeUrl,
+      }),
+      // One-click unsubscribe from the mail client (RFC 8058)
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+
+    if (!result.success) {
+      failed.push({ id: search._id, reason: result.error || 'Failed to send email' });
+      continue;
+    }
+
+    await savedSearches.markRun(search._id, runAt);
+    sent.push(search._id);
+  }
+
+  return { sent, failed };
+}
+
+// Remind job seekers of saved jobs they haven't applied to before applications
+// close, once per deadline
+export async function sendSavedJobDeadlineReminders(now = new Date()) {
+  const { savedJobs } = getRepository();
+  const closing = await savedJobs.listDeadlineReminders(
+    now.toISOString().slice(0, 10),
+    addDays(now, DEADLINE_REMINDER_DAYS).toISOString().slice(0, 10)
+  );
+
+  const sent: string[] = [];
+  const failed: TaskFailure[] = [];
+
+  // Sequential to stay within the email provider's rate limit
+  for (const saved of closing) {
+    const result = await sendTemplateEmail(saved.email, 'savedJobDeadline', {
+      userName: saved.userName,
+      jobTitle: saved.jobTitle,
+      companyName: saved.companyName,
+      applicationDeadline: saved.applicationDeadline,
+      daysLeft: getDaysUntilDeadline(saved.applicationDeadline, now),
+      jobUrl: `${env.nextAuth.url}/jobs/${saved.jobSlug}`,
+      savedJobsUrl: `${env.nextAuth.url}/saved`,
+    });
+
+    if (!result.success) {
+      failed.push({ id: saved._id, reason: result.error || 'Failed to send email' });
+      continue;
+    }
+
+    await savedJobs.markDeadlineReminded(saved._id, saved.applicationDeadline);
+    sent.push(saved._id);
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Run every scheduled job-board task. Safe to call repeatedly: each task only
+ * picks up work that hasn't been done yet.
+ */
+export async function runScheduledTasks(now = new Date()): Promise<ScheduledTasksReport> {
+  const published = await publishScheduledJobs(now);
+  const expired = await expireJobs(now);
+  const reminders = await sendExpiryReminders(now);
+  // After publishing, so jobs going live this run are included
+  const alerts = await sendSavedSearchAlerts(now);
+  const deadlineReminders = await sendSavedJobDeadlineReminders(now);
+
+  return {
+    ranAt: now.toISOString(),
+    published,
+    expired,
+    reminders,
+    alerts,
+    deadlineReminders,
+  };
+}
@@ -0,0 +1,73 @@
+import type { Scorecard, ScorecardCriterion } from '@/types';
+
+// How yes/no answers count towards the 1-5 scale
+export const YES_SCORE = 5;
+export const NO_SCORE = 1;
+
+export const scorecardKindConfig: Record<ScorecardCriterion['kind'], { label: string }> = {
+  rating: { label: '1-5 rating' },
+  yesNo: { label: 'Yes / No' },
+};
+
+// Overall score of one reviewer's scorecard
+export function getScorecardScore(scorecard: Pick<Scorecard, 'scores'>) {
+  const { scores } = scorecard;
+  if (scores.length === 0) return 0;
+  return scores.reduce((sum, { score }) => sum + score, 0) / scores.length;
+}
+
+/**
+ * Mean of the reviewers' overall scores to one decimal, so each reviewer
+ * counts the same however many criteria they scored. Undefined until someone
+ * has submitted a scorecard.
+ */
+export function getScorecardAverage(scorecards: Array<Pick<Scorecard, 'scores'>> = []) {
+  if (scorecards.length === 0) return undefined;
+  const total = scorecards.reduce((sum, scorecard) => sum + getScorecardScore(scorecard), 0);
+  return Math.round((total / scorecards.length) * 10) / 10;
+}
+
+// Scorecards are keyed by reviewer, so submitting again replaces the earlier one
+export function getScorecardKey(reviewerId: string) {
+  return reviewerId.replace(/[^a-zA-Z0-9_-]/g, '-');
+}
+
+/**
+ * Scorecard from a reviewer's answers, labelled with the job's current
+ * criteria, or a message when a criterion is missing, unknown or out of range.
+ */
+export function buildScorecard(
+  criteria: ScorecardCriterion[],
+  values: { scores: Array<{ criterionKey: string; score: number }>; comment?: string },
+  reviewer: Scorecard['reviewer'],
+  now = new Date()
+): Scorecard | string {
+  const unknown = values.scores.find(
+    (score) => !criteria.some((criterion) => criterion._key === score.criterionKey)
+  );
+  if (unknown) return 'The scorecard criteria have changed. Reload and try again';
+
+  const missing = criteria.find(
+    (criterion) => !values.scores.some((score) => score.criterionKey === criterion._key)
+  );
+  if (missing) return `Score "${missing.label}"`;
+
+  const invalid = values.scores.find((score) => {
+    const criterion = criteria.find((item) => item._key === score.criterionKey)!;
+    return criterion.kind === 'yesNo' && score.score !== YES_SCORE && score.score !== NO_SCORE;
+  });
+  if (invalid) return 'Yes / no criteria must be answered yes or no';
+
+  return {
+    _key: getScorecardKey(reviewer.id),
+    reviewer,
+    // In the job's criteria order
+    scores: criteria.map((criterion) => ({
+      criterionKey: criterion._key,
+      label: criterion.label,
+      score: values.scores.find((score) => score.criterionKey === criterion._key)!.score,
+    })),
+    comment: values.comment || undefined,
+    submittedAt: now.toISOString(),
+  };
+}
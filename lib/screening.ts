@@ -0,0 +1,69 @@
+import type { ScreeningAnswer, ScreeningQuestion } from '@/types';
+
+export const screeningKindConfig: Record<ScreeningQuestion['kind'], { label: string }> = {
+  yesNo: { label: 'Yes / No' },
+  multipleChoice: { label: 'Multiple choice' },
+  number: { label: 'Number' },
+  text: { label: 'Short text' },
+};
+
+// Questions without a knockout rule always pass
+export function passesKnockout(question: ScreeningQuestion, answer: string) {
+  if (question.kind === 'number') {
+    return question.minimumAnswer === undefined || Number(answer) >= question.minimumAnswer;
+  }
+  if (!question.requiredAnswer) return true;
+  return answer.trim().toLowerCase() === question.requiredAnswer.trim().toLowerCase();
+}
+
+export function hasKnockoutRule(question: ScreeningQuestion) {
+  return question.kind === 'number' ? question.minimumAnswer !== undefined : !!question.requiredAnswer;
+}
+
+// "Must answer Yes", "Must be at least 2"
+export function describeKnockoutRule(question: ScreeningQuestion) {
+  if (question.kind === 'number') return `Must be at least ${question.minimumAnswer}`;
+  if (question.kind === 'yesNo') return `Must answer ${question.requiredAnswer === 'yes' ? 'Yes' : 'No'}`;
+  return `Must answer "${question.requiredAnswer}"`;
+}
+
+/**
+ * Check an applicant's answers, keyed by question, against the job's
+ * screening questions. Returns a message instead when a question is
+ * unanswered or the answer doesn't fit the question.
+ */
+export function evaluateScreening(
+  questions: ScreeningQuestion[],
+  answers: Record<string, string> = {}
+): { screeningAnswers: ScreeningAnswer[]; knockedOut: boolean } | string {
+  const screeningAnswers: ScreeningAnswer[] = [];
+
+  for (let index = 0; index < questions.length; index++) {
+    const question = questions[index];
+    const answer = (answers[question._key] || '').trim();
+
+    if (!answer) return `Answer "${question.prompt}"`;
+    if (question.kind === 'yesNo' && answer !== 'yes' && answer !== 'no') {
+      return `Answer "${question.prompt}" with yes or no`;
+    }
+    if (question.kind === 'multipleChoice' && !(question.options || []).includes(answer)) {
+      return `Pick one of the choices for "${question.prompt}"`;
+    }
+    if (question.kind === 'number' && !Number.isFinite(Number(answer))) {
+      return `Answer "${question.prompt}" with a number`;
+    }
+    if (answer.length > 500) return `Keep your answer to "${question.prompt}" under 500 characters`;
+
+    screeningAnswers.push({
+      _key: question._key,
+      prompt: question.prompt,
+      answer,
+      passed: passesKnockout(question, answer),
+    });
+  }
+
+  return {
+    screeningAnswers,
+    knockedOut: screeningAnswers.some((answer) => !answer.passed),
+  };
+}
@@ -0,0 +1,118 @@
+// Skills and certifications recognised in resumes, across the board's trade
+// categories. Aliases are the other ways applicants write the same thing
+
+export interface TradeTerm {
+  label: string;
+  aliases?: string[];
+}
+
+export const TRADE_SKILLS: TradeTerm[] = [
+  // Construction
+  { label: 'Blueprint Reading', aliases: ['blueprints', 'reading blueprints', 'print reading'] },
+  { label: 'Carpentry', aliases: ['carpenter', 'framing', 'finish carpentry'] },
+  { label: 'Concrete', aliases: ['concrete finishing', 'flatwork', 'formwork'] },
+  { label: 'Drywall', aliases: ['sheetrock', 'taping', 'mudding'] },
+  { label: 'Roofing', aliases: ['roofer', 'shingles'] },
+  { label: 'Masonry', aliases: ['bricklaying', 'mason', 'block laying'] },
+  { label: 'Heavy Equipment Operation', aliases: ['excavator', 'backhoe', 'skid steer', 'bulldozer', 'wheel loader'] },
+  { label: 'Crew Leadership', aliases: ['foreman', 'crew lead', 'supervised crew', 'team lead'] },
+  { label: 'Power Tools' },
+  // Electrical
+  { label: 'Electrical Wiring', aliases: ['wiring', 'conduit bending', 'pulling wire', 'rough-in wiring'] },
+  { label: 'National Electrical Code', aliases: ['NEC'] },
+  { label: 'Troubleshooting', aliases: ['diagnostics'] },
+  { label: 'PLC Programming', aliases: ['PLC', 'PLCs', 'programmable logic controllers'] },
+  { label: 'Solar Installation', aliases: ['solar', 'photovoltaic', 'PV installation'] },
+  // Plumbing
+  { label: 'Pipefitting', aliases: ['pipe fitting', 'pipefitter'] },
+  { label: 'Soldering', aliases: ['sweat fittings', 'brazing'] },
+  { label: 'Backflow Testing', aliases: ['backflow'] },
+  { label: 'Water Heaters', aliases: ['water heater', 'tankless'] },
+  // HVAC
+  { label: 'HVAC Service', aliases: ['HVAC', 'HVAC/R', 'HVACR'] },
+  { label: 'Refrigeration', aliases: ['refrigerant', 'refrigerant recovery'] },
+  { label: 'Ductwork', aliases: ['duct work', 'sheet metal'] },
+  { label: 'Boilers', aliases: ['boiler', 'hydronic'] },
+  // Manufacturing
+  { label: 'CNC Machining', aliases: ['CNC', 'CNC operator', 'machinist'] },
+  { label: 'Assembly', aliases: ['assembly line', 'production line'] },
+  { label: 'Quality Control', aliases: ['quality inspection', 'QC'] },
+  { label: 'Precision Measuring', aliases: ['calipers', 'micrometers'] },
+  { label: 'Lean Manufacturing', aliases: ['lean production', '5S', 'six sigma'] },
+  // Welding
+  { label: 'MIG Welding', aliases: ['MIG', 'GMAW'] },
+  { label: 'TIG Welding', aliases: ['TIG', 'GTAW'] },
+  { label: 'Stick Welding', aliases: ['SMAW'] },
+  { label: 'Flux-Core Welding', aliases: ['flux core', 'FCAW'] },
+  { label: 'Fabrication', aliases: ['metal fabrication', 'fabricator'] },
+  { label: 'Torch Cutting', aliases: ['oxy-fuel', 'plasma cutting', 'oxy-acetylene'] },
+  // Trucking
+  { label: 'Pre-Trip Inspections', aliases: ['pre-trip', 'pretrip', 'DOT inspections'] },
+  { label: 'ELD Logging', aliases: ['ELD', 'electronic logging', 'hours of service'] },
+  { label: 'Route Planning', aliases: ['route delivery', 'local delivery'] },
+  { label: 'Flatbed', aliases: ['load securement', 'tarping'] },
+  // Warehouse
+  { label: 'Forklift Operation', aliases: ['forklift', 'fork lift', 'reach truck', 'pallet jack'] },
+  { label: 'Inventory Management', aliases: ['inventory', 'cycle counts', 'cycle counting'] },
+  { label: 'Shipping and Receiving', aliases: ['shipping', 'receiving'] },
+  { label: 'Order Picking', aliases: ['picking', 'pick and pack', 'order fulfillment'] },
+  { label: 'RF Scanners', aliases: ['RF scanner', 'RF scanning'] },
+  // Landscaping
+  { label: 'Irrigation', aliases: ['sprinkler systems', 'sprinklers'] },
+  { label: 'Lawn Care', aliases: ['mowing', 'lawn maintenance'] },
+  { label: 'Hardscaping', aliases: ['hardscape', 'pavers', 'retaining walls'] },
+  { label: 'Tree Trimming', aliases: ['pruning', 'arborist'] },
+  { label: 'Snow Removal', aliases: ['snow plowing', 'plowing'] },
+  // Automotive
+  { label: 'Engine Repair', aliases: ['engine diagnostics', 'engine rebuild'] },
+  { label: 'Brakes', aliases: ['brake repair', 'brake service'] },
+  { label: 'Diesel Repair', aliases: ['diesel', 'diesel mechanic'] },
+  { label: 'Electrical Diagnostics', aliases: ['scan tools', 'OBD-II', 'OBD'] },
+  { label: 'Preventive Maintenance', aliases: ['PM service', 'oil changes', 'preventative maintenance'] },
+  // Across trades
+  { label: 'Customer Service', aliases: ['customer-facing', 'customer facing'] },
+  { label: 'Spanish', aliases: ['Spanish-speaking', 'bilingual Spanish'] },
+];
+
+export const TRADE_CERTIFICATIONS: TradeTerm[] = [
+  { label: 'OSHA 10', aliases: ['OSHA-10', 'OSHA 10-hour', 'OSHA 10 hour'] },
+  { label: 'OSHA 30', aliases: ['OSHA-30', 'OSHA 30-hour', 'OSHA 30 hour'] },
+  { label: 'First Aid/CPR', aliases: ['CPR', 'First Aid', 'AED'] },
+  { label: 'Journeyman Electrician License', aliases: ['journeyman electrician', 'journeyman electrical'] },
+  { label: 'Master Electrician License', aliases: ['master electrician'] },
+  { label: 'Journeyman Plumber License', aliases: ['journeyman plumber'] },
+  { label: 'Master Plumber License', aliases: ['master plumber'] },
+  { label: 'EPA 608', aliases: ['EPA 608 certification', 'EPA Section 608', 'EPA Universal', 'Universal EPA'] },
+  { label: 'NATE', aliases: ['NATE certified', 'NATE certification'] },
+  { label: 'AWS Certified Welder', aliases: ['AWS certified', 'AWS D1.1', 'AWS certification'] },
+  { label: 'ASE Certified', aliases: ['ASE', 'ASE certification', 'ASE Master'] },
+  { label: 'CDL Class A', aliases: ['Class A CDL', 'CDL-A', 'CDL A'] },
+  { label: 'CDL Class B', aliases: ['Class B CDL', 'CDL-B', 'CDL B'] },
+  { label: 'Hazmat Endorsement', aliases: ['hazmat', 'HAZMAT endorsement'] },
+  { label: 'Tanker Endorsement', aliases: ['tanker'] },
+  { label: 'DOT Medical Card', aliases: ['DOT medical', 'DOT physical'] },
+  { label: 'Forklift Certification', aliases: ['forklift certified', 'certified forklift'] },
+  { label: 'NCCER', aliases: ['NCCER certified'] },
+  { label: 'Flagger Certification', aliases: ['flagger', 'certified flagger'] },
+  { label: 'Backflow Prevention Certification', aliases: ['backflow certified', 'certified backflow tester'] },
+  { label: 'Qualified Applicator License', aliases: ['pesticide applicator', 'qualified applicator'] },
+  { label: 'Certified Irrigation Technician', aliases: ['irrigation technician'] },
+];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, so "PLC" doesn't match inside "replace" and spacing or
+// hyphens between words don't matter
+function termPattern(term: TradeTerm) {
+  const phrases = [term.label, ...(term.aliases || [])].map((phrase) =>
+    phrase.split(/[\s-]+/).map(escapeRegExp).join('[\\s-]*')
+  );
+  return new RegExp(`(?:^|[^a-z0-9])(?:${phrases.join('|')})(?![a-z0-9])`, 'i');
+}
+
+// Labels of the terms mentioned in `text`, in vocabulary order
+export function findTradeTerms(text: string, terms: TradeTerm[]) {
+  return terms.filter((term) => termPattern(term).test(text)).map((term) => term.label);
+}
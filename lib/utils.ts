@@ -3,4 +3,15 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+}
+
+// Slug with a short random suffix, for copies that share a title
+export function uniqueSlug(value: string) {
+  return `${slugify(value)}-${Math.random().toString(36).slice(2, 7)}`
+}
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { MAX_RESUME_TEXT_LENGTH, resumeFileSchema } from './resume';
+
+export const APPLICATION_STATUSES = ['new', 'reviewed', 'interviewing', 'hired', 'rejected'] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD dates');
+
+// Filters of the employer applications inbox; the date range is inclusive
+export const applicationListQuerySchema = z.object({
+  jobId: z.string().optional(),
+  status: z.enum(APPLICATION_STATUSES).optional(),
+  appliedFrom: isoDate.optional(),
+  appliedTo: isoDate.optional(),
+  // Applications rated at least this many stars
+  minRating: z.coerce.number().int().min(1).max(5).optional(),
+  // Applications whose scorecard average is at least this
+  minScore: z.coerce.number().min(1).max(5).optional(),
+  // Words in the applicant's name or resume text
+  search: z.string().trim().max(100).optional(),
+  sort: z.enum(['appliedDate', 'score']).default('appliedDate'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type ApplicationListQuery = z.infer<typeof applicationListQuerySchema>;
+
+// Emails are compared case-insensitively, so they're stored lowercased
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+// "303.555.0142", "+1 303 555 0142" -> "(303) 555-0142", or null when it
+// isn't a US number
+export function normalizePhone(phone: string) {
+  const digits = phone.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  if (digits.length !== 10) return null;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+const termsSchema = z.array(z.string().trim().min(1).max(100)).max(50).default([]);
+
+// An application as submitted from a job page. `website` is a honeypot that
+// people never see, and `startedAt` is when the form was opened
+export const applicationSubmissionSchema = z.object({
+  jobId: z.string().min(1, 'Missing job'),
+  applicantInfo: z.object({
+    name: z.string().trim()
+      .min(2, 'Name must be at least 2 characters')
+      .max(100, 'Name must be less than 100 characters'),
+    email: z.string().trim().email('Invalid email address').transform(normalizeEmail),
+    phone: z.string().transform((phone, ctx) => {
+      const normalized = normalizePhone(phone);
+      if (!normalized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Please enter a valid phone number' });
+        return z.NEVER;
+      }
+      return normalized;
+    }),
+    linkedIn: z.string().trim().url('Invalid LinkedIn URL').optional().or(z.literal('')),
+    resume: resumeFileSchema.optional(),
+    skills: termsSchema,
+    certifications: termsSchema,
+  }),
+  coverMessage: z.string().max(5000, 'Cover message must be less than 5000 characters').optional(),
+  resumeText: z.string().max(MAX_RESUME_TEXT_LENGTH).optional(),
+  // Screening answers keyed by question
+  answers: z.record(z.string().max(500)).default({}),
+  website: z.string().optional(),
+  startedAt: z.number().int().positive().optional(),
+});
+
+export type ApplicationSubmission = z.infer<typeof applicationSubmissionSchema>;
+
+// Employer-side changes from the inbox; null clears a rating or interview date.
+// Status changes go through `applicationStatusSchema` instead
+export const applicationUpdateSchema = z.object({
+  employerNotes: z.string().max(5000, 'Notes must be less than 5000 characters').optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  interviewDate: z.string().datetime('Invalid interview date').nullable().optional(),
+}).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'Nothing to update' }
+);
+
+export type ApplicationUpdateValues = z.infer<typeof applicationUpdateSchema>;
+
+// Moving an application between pipeline stages. `expectedStatus` is the stage
+// the employer saw it in, so a move made meanwhile by a teammate isn't
+// overwritten; `override` allows moves outside the usual pipeline
+export const applicationStatusSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES),
+  expectedStatus: z.enum(APPLICATION_STATUSES),
+  override: z.boolean().default(false),
+});
+
+// A reviewer's scorecard; every criterion of the job must be scored
+export const scorecardSchema = z.object({
+  scores: z.array(z.object({
+    criterionKey: z.string().min(1),
+    score: z.number().int().min(1).max(5),
+  })).min(1, 'Score at least one criterion'),
+  comment: z.string().max(2000, 'Comment must be less than 2000 characters').optional(),
+});
+
+export type ScorecardValues = z.infer<typeof scorecardSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Availability an employer adds for a job
+export const interviewSlotSchema = z.object({
+  startsAt: z.string().datetime('Invalid start time'),
+  durationMinutes: z.number()
+    .int()
+    .min(15, 'Interviews must be at least 15 minutes')
+    .max(240, 'Interviews must be at most 4 hours'),
+  location: z.string().max(200, 'Location must be less than 200 characters').optional(),
+});
+
+export type InterviewSlotValues = z.infer<typeof interviewSlotSchema>;
+
+// An applicant picking (or switching to) a slot through their scheduling link
+export const bookInterviewSchema = z.object({
+  slotId: z.string().min(1, 'Pick a time'),
+});
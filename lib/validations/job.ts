@@ -1,6 +1,38 @@
 import { z } from 'zod';
 
-export const jobFormSchema = z.object({
+// A screening question as edited on the job form; new questions come
+// without a key
+export const screeningQuestionSchema = z.object({
+  _key: z.string().optional(),
+  prompt: z.string()
+    .trim()
+    .min(1, 'Every screening question needs a question')
+    .max(200, 'Screening questions must be less than 200 characters'),
+  kind: z.enum(['yesNo', 'multipleChoice', 'number', 'text']).default('yesNo'),
+  options: z.array(
+    z.string().trim().min(1, 'Choices can\'t be empty').max(100, 'Choices must be less than 100 characters')
+  ).max(10, 'Use at most 10 choices').default([]),
+  requiredAnswer: z.string().trim().max(100).optional(),
+  minimumAnswer: z.number().optional(),
+}).refine((question) => question.kind !== 'multipleChoice' || question.options.length >= 2, {
+  message: 'Multiple choice questions need at least 2 choices',
+  path: ['options'],
+}).refine((question) => {
+  if (!question.requiredAnswer) return true;
+  if (question.kind === 'yesNo') return ['yes', 'no'].includes(question.requiredAnswer);
+  if (question.kind === 'multipleChoice') return question.options.includes(question.requiredAnswer);
+  return true;
+}, {
+  message: 'The required answer must be one of the choices',
+  path: ['requiredAnswer'],
+});
+
+export type ScreeningQuestionValues = z.infer<typeof screeningQuestionSchema>;
+
+export const screeningQuestionsSchema = z.array(screeningQuestionSchema)
+  .max(10, 'Use at most 10 screening questions');
+
+const jobFieldsSchema = z.object({
   title: z.string()
     .min(5, 'Job title must be at least 5 characters')
     .max(100, 'Job title must be less than 100 characters'),
@@ -42,15 +74,184 @@ export const jobFormSchema = z.object({
   applicationDeadline: z.string().optional(),
   isUrgent: z.boolean().default(false),
   featured: z.boolean().default(false),
-  status: z.enum(['draft', 'published'])
-}).refine((data) => {
-  if (data.salaryMax) {
+  status: z.enum(['draft', 'scheduled', 'published']),
+  publishAt: z.string().datetime().optional(),
+  screeningQuestions: screeningQuestionsSchema.default([]),
+  autoRejectKnockouts: z.boolean().default(false)
+});
+
+// Rules across fields, shared by new postings and edits. Edits may leave
+// either side out, in which case there's nothing to compare
+function hasValidSalaryRange(data: { salaryMin?: number; salaryMax?: number }) {
+  if (data.salaryMax && data.salaryMin !== undefined) {
     return data.salaryMax >= data.salaryMin;
   }
   return true;
-}, {
+}
+
+function hasFuturePublishAt(data: { status?: string; publishAt?: string }) {
+  if (data.status === 'scheduled') {
+    return !!data.publishAt && new Date(data.publishAt) > new Date();
+  }
+  return true;
+}
+
+const salaryRangeError = {
   message: 'Maximum salary must be greater than minimum salary',
   path: ['salaryMax']
+};
+
+const publishAtError = {
+  message: 'Choose a future publish date and time',
+  path: ['publishAt']
+};
+
+export const jobFormSchema = jobFieldsSchema
+  .refine(hasValidSalaryRange, salaryRangeError)
+  .refine(hasFuturePublishAt, publishAtError);
+
+export type JobFormValues = z.infer<typeof jobFormSchema>;
+
+// Edits to an existing posting: only the fields sent are checked and saved,
+// and anything that isn't a posting field is dropped
+export const jobUpdateSchema = jobFieldsSchema
+  .partial()
+  .refine(hasValidSalaryRange, salaryRangeError)
+  .refine(hasFuturePublishAt, publishAtError);
+
+// Templates hold reusable posting content; every field is optional and
+// only checked against the posting limits when present
+export const jobTemplateSchema = jobFieldsSchema
+  .pick({
+    title: true,
+    description: true,
+    requirements: true,
+    salaryMin: true,
+    salaryMax: true,
+    salaryType: true,
+    jobType: true,
+    experienceLevel: true,
+    category: true,
+    benefits: true,
+  })
+  .partial()
+  .extend({
+    name: z.string()
+      .min(2, 'Template name must be at least 2 characters')
+      .max(80, 'Template name must be less than 80 characters'),
+    title: z.string().max(100, 'Job title must be less than 100 characters').optional(),
+    description: z.string().max(5000, 'Description must be less than 5000 characters').optional(),
+    requirements: z.string().max(3000, 'Requirements must be less than 3000 characters').optional(),
+  });
+
+export type JobTemplateValues = z.infer<typeof jobTemplateSchema>;
+// Actions the jobs table can apply to a selection of jobs
+export const bulkJobActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('delete') }),
+  z.object({ action: z.literal('publish'), publishAt: z.string().datetime().optional() }),
+  z.object({ action: z.literal('expire') }),
+  z.object({ action: z.literal('fill') }),
+  z.object({ action: z.literal('setCategory'), categoryId: z.string().min(1, 'Category is required') }),
+  z.object({ action: z.literal('setUrgent'), value: z.boolean() }),
+  z.object({ action: z.literal('setFeatured'), value: z.boolean() }),
+  z.object({
+    action: z.literal('extendExpiry'),
+    days: z.number().int().min(1, 'Extend by at least 1 day').max(90, 'Extend by at most 90 days'),
+  }),
+]);
+
+export type BulkJobAction = z.infer<typeof bulkJobActionSchema>;
+
+// Columns the employer jobs table can be sorted by
+export const JOB_SORT_FIELDS = [
+  'title',
+  'status',
+  'applicationCount',
+  'viewCount',
+  'publishedAt',
+  'expiresAt',
+] as const;
+
+export type JobSortField = (typeof JOB_SORT_FIELDS)[number];
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD dates');
+
+// Filters and sort order of the employer jobs table; date ranges are inclusive
+export const jobListFiltersSchema = z.object({
+  status: z.enum(['draft', 'scheduled', 'published', 'expired', 'filled']).optional(),
+  search: z.string().trim().max(100, 'Search must be less than 100 characters').optional(),
+  postedFrom: isoDate.optional(),
+  postedTo: isoDate.optional(),
+  expiresFrom: isoDate.optional(),
+  expiresTo: isoDate.optional(),
+  sort: z.enum(JOB_SORT_FIELDS).default('publishedAt'),
+  direction: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type JobListFilters = z.infer<typeof jobListFiltersSchema>;
+
+export const jobListQuerySchema = jobListFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+// A named set of table filters saved by an employer
+export const savedJobViewSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'View name is required')
+    .max(60, 'View name must be less than 60 characters'),
+  filters: jobListFiltersSchema,
+});
+
+export type SavedJobViewValues = z.infer<typeof savedJobViewSchema>;
+
+// A job's scorecard criteria; new criteria come without a key
+export const scorecardCriteriaSchema = z.object({
+  criteria: z.array(z.object({
+    _key: z.string().optional(),
+    label: z.string()
+      .trim()
+      .min(1, 'Every criterion needs a label')
+      .max(100, 'Criterion labels must be less than 100 characters'),
+    kind: z.enum(['rating', 'yesNo']).default('rating'),
+  })).max(20, 'Use at most 20 criteria'),
 });
 
-export type JobFormValues = z.infer<typeof jobFormSchema>;
\ No newline at end of file
+export type ScorecardCriteriaValues = z.infer<typeof scorecardCriteriaSchema>;
+
+// The public /jobs search, as held in its query string
+export const jobSearchFiltersSchema = z.object({
+  category: z.string().trim().default(''),
+  location: z.string().trim().default(''),
+  jobType: z.string().trim().default(''),
+  experienceLevel: z.string().trim().default(''),
+  salaryMin: z.coerce.number().int().min(0).default(0),
+  search: z.string().trim().max(100, 'Search must be less than 100 characters').default(''),
+});
+
+export type JobSearchFilters = z.infer<typeof jobSearchFiltersSchema>;
+
+export const ALERT_FREQUENCIES = ['instant', 'daily', 'weekly'] as const;
+
+export type AlertFrequency = (typeof ALERT_FREQUENCIES)[number];
+
+// A job seeker's saved search and how often to email them new matches
+export const savedSearchSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Search name is required')
+    .max(60, 'Search name must be less than 60 characters'),
+  filters: jobSearchFiltersSchema,
+  frequency: z.enum(ALERT_FREQUENCIES).default('daily'),
+});
+
+export type SavedSearchValues = z.infer<typeof savedSearchSchema>;
+
+export const savedSearchUpdateSchema = savedSearchSchema.pick({ frequency: true });
+
+export const saveJobSchema = z.object({
+  jobId: z.string().min(1, 'Job is required'),
+});
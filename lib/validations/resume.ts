@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+// Plenty for a few pages; anything longer is padding for search purposes
+export const MAX_RESUME_TEXT_LENGTH = 20000;
+
+// Accepted resume formats; uploads are checked by content, not by name or
+// the browser-reported type
+export const RESUME_TYPES = {
+  pdf: { mimeType: 'application/pdf', extension: 'pdf' },
+  doc: { mimeType: 'application/msword', extension: 'doc' },
+  docx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+  },
+} as const;
+
+export type ResumeType = keyof typeof RESUME_TYPES;
+
+export const RESUME_MIME_TYPES = Object.values(RESUME_TYPES).map((type) => type.mimeType) as string[];
+
+
+// A stored resume as referenced from an application
+export const resumeFileSchema = z.object({
+  assetId: z.string().min(1),
+  filename: z.string().min(1).max(200),
+  mimeType: z.string().refine((type) => RESUME_MIME_TYPES.includes(type), 'Please upload a PDF or Word document'),
+  size: z.number().int().positive().max(MAX_RESUME_BYTES, 'Resume must be less than 5MB'),
+});
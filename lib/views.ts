@@ -0,0 +1,51 @@
+// Job view tracking helpers shared by the beacon route and analytics
+
+export const RECENT_VIEWS_COOKIE = 'recent_job_views';
+
+// Repeat views of the same job inside this window count once
+export const VIEW_WINDOW_MS = 30 * 60 * 1000;
+
+// Cap the cookie so it never grows past a few hundred bytes
+const MAX_RECENT_VIEWS = 50;
+
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|bingpreview|facebookexternalhit|embedly|preview|headless|lighthouse|pingdom|monitor|curl|wget|python-requests|axios|node-fetch/i;
+
+export type RecentViews = Record<string, number>;
+
+export function isBot(userAgent: string | null) {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+// Cookie format: `<jobId>:<timestamp>|<jobId>:<timestamp>`
+export function parseRecentViews(value: string | undefined, now = Date.now()): RecentViews {
+  const views: RecentViews = {};
+  if (!value) return views;
+
+  value.split('|').forEach((entry) => {
+    const [jobId, timestamp] = entry.split(':');
+    const viewedAt = Number(timestamp);
+    if (jobId && viewedAt && now - viewedAt < VIEW_WINDOW_MS) {
+      views[jobId] = viewedAt;
+    }
+  });
+
+  return views;
+}
+
+export function serializeRecentViews(views: RecentViews) {
+  return Object.entries(views)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_RECENT_VIEWS)
+    .map(([jobId, viewedAt]) => `${jobId}:${viewedAt}`)
+    .join('|');
+}
+
+export function hasRecentView(views: RecentViews, jobId: string) {
+  return jobId in views;
+}
+
+// Daily buckets are keyed by UTC date
+export function toViewDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
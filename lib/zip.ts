@@ -0,0 +1,194 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+// Just enough of the ZIP format to read and rewrite Office documents. ZIP64
+// and encrypted archives aren't supported; resumes are well under 4GB
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Names are UTF-8 (general purpose flag bit 11)
+const UTF8_FLAG = 0x0800;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  size: number;
+  // Data as stored in the archive, compressed with `method`
+  compressed: Buffer;
+  time: number;
+  date: number;
+}
+
+const INVALID_ZIP = 'Not a valid ZIP archive';
+
+// Most an entry may inflate to. Office document parts are far smaller, so
+// anything above this is a decompression bomb rather than a real document
+export const MAX_ZIP_ENTRY_BYTES = 10 * 1024 * 1024;
+
+export class ZipEntryTooLargeError extends RangeError {
+  constructor(name: string, maxBytes: number) {
+    super(`ZIP entry ${name} is larger than ${maxBytes} bytes`);
+    this.name = 'ZipEntryTooLargeError';
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer) {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error(INVALID_ZIP);
+}
+
+// Entries in central directory order
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < 22) throw new Error(INVALID_ZIP);
+
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error(INVALID_ZIP);
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new Error(INVALID_ZIP);
+    }
+    // The local header has its own name and extra field lengths
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) throw new Error(INVALID_ZIP);
+
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      time: buffer.readUInt16LE(offset + 12),
+      date: buffer.readUInt16LE(offset + 14),
+      crc: buffer.readUInt32LE(offset + 16),
+      size: buffer.readUInt32LE(offset + 24),
+      compressed: buffer.subarray(dataStart, dataStart + compressedSize),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Uncompressed contents of an entry. Throws ZipEntryTooLargeError when the entry
+ * declares more than `maxBytes` or inflates past its declared size, without
+ * ever holding more than that in memory.
+ */
+export function inflateZipEntry(entry: ZipEntry, maxBytes = MAX_ZIP_ENTRY_BYTES) {
+  if (entry.size > maxBytes) throw new ZipEntryTooLargeError(entry.name, maxBytes);
+
+  if (entry.method === STORED) {
+    if (entry.compressed.length > entry.size) throw new ZipEntryTooLargeError(entry.name, maxBytes);
+    return entry.compressed;
+  }
+  if (entry.method === DEFLATED) {
+    try {
+      // Zero is not a valid limit, and an empty entry inflates to nothing anyway
+      return inflateRawSync(entry.compressed, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch (error) {
+      // ERR_BUFFER_TOO_LARGE: it holds more than it declares
+      if (error instanceof RangeError) throw new ZipEntryTooLargeError(entry.name, maxBytes);
+      throw error;
+    }
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+}
+
+// Entry holding `data`, deflated, with the timestamp of `like` if given
+export function createZipEntry(name: string, data: Buffer, like?: ZipEntry): ZipEntry {
+  return {
+    name,
+    method: DEFLATED,
+    crc: crc32(data),
+    size: data.length,
+    compressed: deflateRawSync(data),
+    time: like?.time ?? 0,
+    // 1980-01-01, the earliest date ZIP can hold
+    date: like?.date ?? 0x21,
+  };
+}
+
+export function writeZip(entries: ZipEntry[]) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = Buffer.from(entry.name, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(entry.method, 8);
+    local.writeUInt16LE(entry.time, 10);
+    local.writeUInt16LE(entry.date, 12);
+    local.writeUInt32LE(entry.crc, 14);
+    local.writeUInt32LE(entry.compressed.length, 18);
+    local.writeUInt32LE(entry.size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(entry.method, 10);
+    central.writeUInt16LE(entry.time, 12);
+    central.writeUInt16LE(entry.date, 14);
+    central.writeUInt32LE(entry.crc, 16);
+    central.writeUInt32LE(entry.compressed.length, 20);
+    central.writeUInt32LE(entry.size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, entry.compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + entry.compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
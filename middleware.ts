@@ -23,6 +23,13 @@ export default async function middleware(req: NextRequest) {
     }
   }
 
+  // Saved jobs and job alerts need an account; the unsubscribe pages don't
+  if (path === '/alerts' || path === '/saved') {
+    if (!session) {
+      return NextResponse.redirect(new URL('/auth/signin', req.url));
+    }
+  }
+
   return NextResponse.next();
 }
 
@@ -23,6 +23,13 @@ export default defineConfig({
                   .title('Job Postings')
                   .filter('_type == "jobPosting"')
               ),
+            S.listItem()
+              .title('Job Templates')
+              .child(
+                S.documentList()
+                  .title('Job Templates')
+                  .filter('_type == "jobTemplate"')
+              ),
             S.listItem()
               .title('Applications')
               .child(
@@ -0,0 +1,62 @@
+import {defineType, defineField} from 'sanity'
+
+// Interview time an employer has opened up for candidates to book
+export default defineType({
+  name: 'interviewSlot',
+  title: 'Interview Slot',
+  type: 'document',
+  fields: [
+    defineField({
+      name: 'job',
+      title: 'Job Posting',
+      type: 'reference',
+      to: [{type: 'jobPosting'}],
+      weak: true,
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'startsAt',
+      title: 'Starts At',
+      type: 'datetime',
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'endsAt',
+      title: 'Ends At',
+      type: 'datetime',
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'location',
+      title: 'Location',
+      type: 'string',
+      description: 'Address, phone number or video call link',
+    }),
+    defineField({
+      name: 'application',
+      title: 'Booked By',
+      type: 'reference',
+      to: [{type: 'jobApplication'}],
+      weak: true,
+      readOnly: true,
+    }),
+    defineField({
+      name: 'createdAt',
+      title: 'Created At',
+      type: 'datetime',
+    }),
+  ],
+  preview: {
+    select: {
+      job: 'job.title',
+      startsAt: 'startsAt',
+      applicant: 'application.applicantInfo.name',
+    },
+    prepare({job, startsAt, applicant}) {
+      return {
+        title: `${job} - ${new Date(startsAt).toLocaleString()}`,
+        subtitle: applicant ? `Booked by ${applicant}` : 'Open',
+      }
+    },
+  },
+})
@@ -35,18 +35,79 @@ export default defineType({
           type: 'string',
           validation: Rule => Rule.required(),
         },
+        {
+          name: 'resume',
+          title: 'Resume',
+          type: 'file',
+          options: {
+            accept: '.pdf,.doc,.docx',
+          },
+        },
         {
           name: 'resumeUrl',
           title: 'Resume URL',
           type: 'url',
+          description: 'Link from before resumes were uploaded as files',
+          readOnly: true,
         },
         {
           name: 'linkedIn',
           title: 'LinkedIn Profile',
           type: 'url',
         },
+        {
+          name: 'skills',
+          title: 'Skills',
+          type: 'array',
+          of: [{type: 'string'}],
+          options: {
+            layout: 'tags',
+          },
+        },
+        {
+          name: 'certifications',
+          title: 'Certifications',
+          type: 'array',
+          of: [{type: 'string'}],
+          options: {
+            layout: 'tags',
+          },
+        },
       ],
     }),
+    defineField({
+      name: 'resumeText',
+      title: 'Resume Text',
+      type: 'text',
+      description: 'Read from the uploaded resume, for searching applications',
+      readOnly: true,
+    }),
+    defineField({
+      name: 'screeningAnswers',
+      title: 'Screening Answers',
+      type: 'array',
+      readOnly: true,
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {name: 'prompt', title: 'Question', type: 'string'},
+            {name: 'answer', title: 'Answer', type: 'string'},
+            {name: 'passed', title: 'Passed', type: 'boolean'},
+          ],
+          preview: {
+            select: {title: 'prompt', subtitle: 'answer'},
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: 'knockedOut',
+      title: 'Knocked Out',
+      type: 'boolean',
+      description: 'An answer failed its question\'s knockout rule',
+      readOnly: true,
+    }),
     defineField({
       name: 'coverMessage',
       title: 'Cover Message',
@@ -95,6 +156,153 @@ export default defineType({
       title: 'Interview Date',
       type: 'datetime',
     }),
+    defineField({
+      name: 'interview',
+      title: 'Booked Interview',
+      type: 'object',
+      readOnly: true,
+      fields: [
+        {name: 'slot', title: 'Slot', type: 'reference', to: [{type: 'interviewSlot'}], weak: true},
+        {name: 'startsAt', title: 'Starts At', type: 'datetime'},
+        {name: 'endsAt', title: 'Ends At', type: 'datetime'},
+        {name: 'location', title: 'Location', type: 'string'},
+        {name: 'sequence', title: 'Calendar Sequence', type: 'number'},
+        {name: 'cancelledAt', title: 'Cancelled At', type: 'datetime'},
+      ],
+    }),
+    defineField({
+      name: 'scorecards',
+      title: 'Scorecards',
+      type: 'array',
+      description: 'One per reviewer',
+      readOnly: true,
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {
+              name: 'reviewer',
+              title: 'Reviewer',
+              type: 'object',
+              fields: [
+                {name: 'id', title: 'User ID', type: 'string'},
+                {name: 'name', title: 'Name', type: 'string'},
+                {name: 'email', title: 'Email', type: 'string'},
+              ],
+            },
+            {
+              name: 'scores',
+              title: 'Scores',
+              type: 'array',
+              of: [
+                {
+                  type: 'object',
+                  fields: [
+                    {name: 'criterionKey', title: 'Criterion Key', type: 'string'},
+                    {name: 'label', title: 'Criterion', type: 'string'},
+                    {name: 'score', title: 'Score', type: 'number'},
+                  ],
+                },
+              ],
+            },
+            {name: 'comment', title: 'Comment', type: 'text'},
+            {name: 'submittedAt', title: 'Submitted At', type: 'datetime'},
+          ],
+          preview: {
+            select: {name: 'reviewer.name', email: 'reviewer.email', at: 'submittedAt'},
+            prepare({name, email, at}) {
+              return {
+                title: name || email || 'Reviewer',
+                subtitle: at && new Date(at).toLocaleString(),
+              }
+            },
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: 'scorecardAverage',
+      title: 'Scorecard Average',
+      type: 'number',
+      description: 'Mean of the reviewers\' overall scores',
+      readOnly: true,
+    }),
+    defineField({
+      name: 'schedulingTokenHash',
+      title: 'Scheduling Token Hash',
+      type: 'string',
+      hidden: true,
+    }),
+    defineField({
+      name: 'statusHistory',
+      title: 'Status History',
+      type: 'array',
+      description: 'Every move between stages, oldest first',
+      readOnly: true,
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {name: 'from', title: 'From', type: 'string'},
+            {name: 'to', title: 'To', type: 'string'},
+            {name: 'at', title: 'At', type: 'datetime'},
+            {
+              name: 'by',
+              title: 'By',
+              type: 'object',
+              fields: [
+                {name: 'id', title: 'User ID', type: 'string'},
+                {name: 'name', title: 'Name', type: 'string'},
+                {name: 'email', title: 'Email', type: 'string'},
+              ],
+            },
+          ],
+          preview: {
+            select: {from: 'from', to: 'to', at: 'at'},
+            prepare({from, to, at}) {
+              return {
+                title: from ? `${from} → ${to}` : `Applied (${to})`,
+                subtitle: at && new Date(at).toLocaleString(),
+              }
+            },
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: 'resumeDownloads',
+      title: 'Resume Downloads',
+      type: 'array',
+      description: 'Every time an employer opened the resume, oldest first',
+      readOnly: true,
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {
+              name: 'viewer',
+              title: 'Viewer',
+              type: 'object',
+              fields: [
+                {name: 'id', title: 'User ID', type: 'string'},
+                {name: 'name', title: 'Name', type: 'string'},
+                {name: 'email', title: 'Email', type: 'string'},
+              ],
+            },
+            {name: 'downloadedAt', title: 'Downloaded At', type: 'datetime'},
+          ],
+          preview: {
+            select: {name: 'viewer.name', email: 'viewer.email', at: 'downloadedAt'},
+            prepare({name, email, at}) {
+              return {
+                title: name || email || 'Employer',
+                subtitle: at && new Date(at).toLocaleString(),
+              }
+            },
+          },
+        },
+      ],
+    }),
   ],
   preview: {
     select: {
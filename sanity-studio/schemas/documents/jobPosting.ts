@@ -182,6 +182,102 @@ export default defineType({
       type: 'boolean',
       initialValue: false,
     }),
+    defineField({
+      name: 'scorecardCriteria',
+      title: 'Scorecard Criteria',
+      type: 'array',
+      description: 'What reviewers score applicants on',
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {
+              name: 'label',
+              title: 'Label',
+              type: 'string',
+              validation: Rule => Rule.required(),
+            },
+            {
+              name: 'kind',
+              title: 'Kind',
+              type: 'string',
+              options: {
+                list: [
+                  {title: '1-5 rating', value: 'rating'},
+                  {title: 'Yes / No', value: 'yesNo'},
+                ],
+              },
+              initialValue: 'rating',
+            },
+          ],
+        },
+      ],
+    }),
+    defineField({
+      name: 'screeningQuestions',
+      title: 'Screening Questions',
+      type: 'array',
+      description: 'Asked when applying; answers that break a knockout rule are flagged',
+      validation: Rule => Rule.max(10),
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {
+              name: 'prompt',
+              title: 'Question',
+              type: 'string',
+              validation: Rule => Rule.required().max(200),
+            },
+            {
+              name: 'kind',
+              title: 'Kind',
+              type: 'string',
+              options: {
+                list: [
+                  {title: 'Yes / No', value: 'yesNo'},
+                  {title: 'Multiple choice', value: 'multipleChoice'},
+                  {title: 'Number', value: 'number'},
+                  {title: 'Short text', value: 'text'},
+                ],
+              },
+              initialValue: 'yesNo',
+            },
+            {
+              name: 'options',
+              title: 'Choices',
+              type: 'array',
+              of: [{type: 'string'}],
+              hidden: ({parent}) => parent?.kind !== 'multipleChoice',
+            },
+            {
+              name: 'requiredAnswer',
+              title: 'Required Answer',
+              type: 'string',
+              description: 'Knockout rule: "yes"/"no", one of the choices, or the exact text',
+              hidden: ({parent}) => parent?.kind === 'number',
+            },
+            {
+              name: 'minimumAnswer',
+              title: 'Minimum Answer',
+              type: 'number',
+              description: 'Knockout rule for number questions',
+              hidden: ({parent}) => parent?.kind !== 'number',
+            },
+          ],
+          preview: {
+            select: {title: 'prompt', subtitle: 'kind'},
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: 'autoRejectKnockouts',
+      title: 'Auto-reject Knockouts',
+      type: 'boolean',
+      description: 'Reject applicants who fail a knockout question',
+      initialValue: false,
+    }),
     defineField({
       name: 'status',
       title: 'Status',
@@ -189,6 +285,7 @@ export default defineType({
       options: {
         list: [
           {title: 'Draft', value: 'draft'},
+          {title: 'Scheduled', value: 'scheduled'},
           {title: 'Published', value: 'published'},
           {title: 'Expired', value: 'expired'},
           {title: 'Filled', value: 'filled'},
@@ -210,6 +307,18 @@ export default defineType({
       initialValue: 0,
       readOnly: true,
     }),
+    defineField({
+      name: 'publishAt',
+      title: 'Publish At',
+      type: 'datetime',
+      description: 'When a scheduled posting goes live',
+      hidden: ({document}) => document?.status !== 'scheduled',
+      validation: Rule => Rule.custom((value, {document}) =>
+        document?.status === 'scheduled' && !value
+          ? 'Scheduled postings need a publish date'
+          : true
+      ),
+    }),
     defineField({
       name: 'publishedAt',
       title: 'Published At',
@@ -219,6 +328,24 @@ export default defineType({
       name: 'expiresAt',
       title: 'Expires At',
       type: 'datetime',
+      description: 'Defaults to 30 days after publishing',
+    }),
+    defineField({
+      name: 'repostOf',
+      title: 'Reposted From',
+      type: 'reference',
+      to: [{type: 'jobPosting'}],
+      description: 'Original posting this job was reposted from',
+      weak: true,
+      readOnly: true,
+    }),
+    defineField({
+      name: 'expiryReminderSentFor',
+      title: 'Expiry Reminder Sent For',
+      type: 'datetime',
+      description: 'Expiry date the last renewal reminder was sent for',
+      readOnly: true,
+      hidden: true,
     }),
   ],
   preview: {
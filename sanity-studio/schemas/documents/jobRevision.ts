@@ -0,0 +1,70 @@
+import {defineType, defineField} from 'sanity'
+
+// Change log entry for a job posting, written by the dashboard API
+export default defineType({
+  name: 'jobRevision',
+  title: 'Job Revision',
+  type: 'document',
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'job',
+      title: 'Job Posting',
+      type: 'reference',
+      to: [{type: 'jobPosting'}],
+      weak: true,
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'actor',
+      title: 'Changed By',
+      type: 'object',
+      fields: [
+        {name: 'id', title: 'User ID', type: 'string'},
+        {name: 'name', title: 'Name', type: 'string'},
+        {name: 'email', title: 'Email', type: 'string'},
+      ],
+    }),
+    defineField({
+      name: 'changes',
+      title: 'Changes',
+      type: 'array',
+      of: [
+        {
+          type: 'object',
+          fields: [
+            {name: 'field', title: 'Field', type: 'string'},
+            {name: 'before', title: 'Before (JSON)', type: 'text'},
+            {name: 'after', title: 'After (JSON)', type: 'text'},
+          ],
+          preview: {
+            select: {title: 'field'},
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: 'restoredFrom',
+      title: 'Restored From Revision',
+      type: 'string',
+    }),
+    defineField({
+      name: 'createdAt',
+      title: 'Created At',
+      type: 'datetime',
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'job.title',
+      actor: 'actor.name',
+      createdAt: 'createdAt',
+    },
+    prepare({title, actor, createdAt}) {
+      return {
+        title: title || 'Deleted job',
+        subtitle: `${actor || 'Unknown'} · ${createdAt ? new Date(createdAt).toLocaleString() : ''}`,
+      }
+    },
+  },
+})
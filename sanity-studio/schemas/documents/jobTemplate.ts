@@ -0,0 +1,120 @@
+import {defineType, defineField} from 'sanity'
+
+export default defineType({
+  name: 'jobTemplate',
+  title: 'Job Template',
+  type: 'document',
+  fields: [
+    defineField({
+      name: 'name',
+      title: 'Template Name',
+      type: 'string',
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'company',
+      title: 'Company',
+      type: 'reference',
+      to: [{type: 'company'}],
+      description: 'Leave empty to offer this template to every employer',
+    }),
+    defineField({
+      name: 'category',
+      title: 'Category',
+      type: 'reference',
+      to: [{type: 'jobCategory'}],
+    }),
+    defineField({
+      name: 'title',
+      title: 'Job Title',
+      type: 'string',
+    }),
+    defineField({
+      name: 'description',
+      title: 'Job Description',
+      type: 'text',
+      rows: 8,
+    }),
+    defineField({
+      name: 'requirements',
+      title: 'Requirements',
+      type: 'text',
+      rows: 6,
+    }),
+    defineField({
+      name: 'salaryType',
+      title: 'Salary Type',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Hourly', value: 'hourly'},
+          {title: 'Annual Salary', value: 'salary'},
+          {title: 'Contract', value: 'contract'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'salaryMin',
+      title: 'Minimum Salary/Rate',
+      type: 'number',
+    }),
+    defineField({
+      name: 'salaryMax',
+      title: 'Maximum Salary/Rate',
+      type: 'number',
+    }),
+    defineField({
+      name: 'jobType',
+      title: 'Job Type',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Full-time', value: 'full-time'},
+          {title: 'Part-time', value: 'part-time'},
+          {title: 'Contract', value: 'contract'},
+          {title: 'Temporary', value: 'temporary'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'experienceLevel',
+      title: 'Experience Level',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Entry Level', value: 'entry'},
+          {title: 'Intermediate', value: 'intermediate'},
+          {title: 'Experienced', value: 'experienced'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'benefits',
+      title: 'Benefits',
+      type: 'array',
+      of: [{type: 'string'}],
+      options: {
+        layout: 'tags',
+      },
+    }),
+    defineField({
+      name: 'createdAt',
+      title: 'Created At',
+      type: 'datetime',
+      readOnly: true,
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'name',
+      company: 'company.name',
+      category: 'category.name',
+    },
+    prepare({title, company, category}) {
+      return {
+        title,
+        subtitle: [company || 'Shared', category].filter(Boolean).join(' · '),
+      }
+    },
+  },
+})
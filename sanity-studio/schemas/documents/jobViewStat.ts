@@ -0,0 +1,44 @@
+import {defineType, defineField} from 'sanity'
+
+// Daily view bucket written by the view beacon; one document per job per day
+export default defineType({
+  name: 'jobViewStat',
+  title: 'Job View Stat',
+  type: 'document',
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'job',
+      title: 'Job Posting',
+      type: 'reference',
+      to: [{type: 'jobPosting'}],
+      weak: true,
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'date',
+      title: 'Date (UTC)',
+      type: 'date',
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'count',
+      title: 'Views',
+      type: 'number',
+      initialValue: 0,
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'job.title',
+      date: 'date',
+      count: 'count',
+    },
+    prepare({title, date, count}) {
+      return {
+        title: title || 'Unknown job',
+        subtitle: `${date} · ${count || 0} views`,
+      }
+    },
+  },
+})
@@ -0,0 +1,45 @@
+import {defineType, defineField} from 'sanity'
+
+// A job posting a job seeker bookmarked
+export default defineType({
+  name: 'savedJob',
+  title: 'Saved Job',
+  type: 'document',
+  fields: [
+    defineField({
+      name: 'user',
+      title: 'User',
+      type: 'reference',
+      to: [{type: 'user'}],
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'job',
+      title: 'Job',
+      type: 'reference',
+      to: [{type: 'jobPosting'}],
+      // Deleting a posting shouldn't be blocked by people who saved it
+      weak: true,
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'savedAt',
+      title: 'Saved At',
+      type: 'datetime',
+    }),
+    defineField({
+      name: 'deadlineReminderSentFor',
+      title: 'Deadline Reminder Sent For',
+      type: 'date',
+      description: 'Application deadline the user was last reminded about',
+      readOnly: true,
+      hidden: true,
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'job.title',
+      subtitle: 'user.email',
+    },
+  },
+})
@@ -0,0 +1,68 @@
+import {defineType, defineField} from 'sanity'
+
+// Named filters and sort order for an employer's jobs table
+export default defineType({
+  name: 'savedJobView',
+  title: 'Saved Jobs View',
+  type: 'document',
+  fields: [
+    defineField({
+      name: 'name',
+      title: 'Name',
+      type: 'string',
+      validation: Rule => Rule.required().max(60),
+    }),
+    defineField({
+      name: 'user',
+      title: 'User',
+      type: 'reference',
+      to: [{type: 'user'}],
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'filters',
+      title: 'Filters',
+      type: 'object',
+      fields: [
+        {
+          name: 'status',
+          title: 'Status',
+          type: 'string',
+          options: {
+            list: ['draft', 'scheduled', 'published', 'expired', 'filled'],
+          },
+        },
+        {name: 'search', title: 'Search', type: 'string'},
+        {name: 'postedFrom', title: 'Posted From', type: 'date'},
+        {name: 'postedTo', title: 'Posted To', type: 'date'},
+        {name: 'expiresFrom', title: 'Expires From', type: 'date'},
+        {name: 'expiresTo', title: 'Expires To', type: 'date'},
+        {
+          name: 'sort',
+          title: 'Sort By',
+          type: 'string',
+          options: {
+            list: ['title', 'status', 'applicationCount', 'viewCount', 'publishedAt', 'expiresAt'],
+          },
+        },
+        {
+          name: 'direction',
+          title: 'Direction',
+          type: 'string',
+          options: {list: ['asc', 'desc']},
+        },
+      ],
+    }),
+    defineField({
+      name: 'createdAt',
+      title: 'Created At',
+      type: 'datetime',
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'name',
+      subtitle: 'user.email',
+    },
+  },
+})
@@ -0,0 +1,84 @@
+import {defineType, defineField} from 'sanity'
+
+// A job seeker's saved /jobs search and how often they're emailed new matches
+export default defineType({
+  name: 'savedSearch',
+  title: 'Saved Search',
+  type: 'document',
+  fields: [
+    defineField({
+      name: 'name',
+      title: 'Name',
+      type: 'string',
+      validation: Rule => Rule.required().max(60),
+    }),
+    defineField({
+      name: 'user',
+      title: 'User',
+      type: 'reference',
+      to: [{type: 'user'}],
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'filters',
+      title: 'Filters',
+      type: 'object',
+      description: 'Empty fields match every job',
+      fields: [
+        {name: 'category', title: 'Category Slug', type: 'string'},
+        {name: 'location', title: 'City or County', type: 'string'},
+        {
+          name: 'jobType',
+          title: 'Job Type',
+          type: 'string',
+          options: {
+            list: ['', 'full-time', 'part-time', 'contract', 'temporary'],
+          },
+        },
+        {
+          name: 'experienceLevel',
+          title: 'Experience Level',
+          type: 'string',
+          options: {
+            list: ['', 'entry', 'intermediate', 'experienced', 'senior'],
+          },
+        },
+        {name: 'salaryMin', title: 'Minimum Salary', type: 'number'},
+        {name: 'search', title: 'Search', type: 'string'},
+      ],
+    }),
+    defineField({
+      name: 'frequency',
+      title: 'Alert Frequency',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Instant', value: 'instant'},
+          {title: 'Daily', value: 'daily'},
+          {title: 'Weekly', value: 'weekly'},
+        ],
+        layout: 'radio',
+      },
+      initialValue: 'daily',
+      validation: Rule => Rule.required(),
+    }),
+    defineField({
+      name: 'lastRunAt',
+      title: 'Last Checked',
+      type: 'datetime',
+      description: 'Alerts only include jobs published after this',
+      readOnly: true,
+    }),
+    defineField({
+      name: 'createdAt',
+      title: 'Created At',
+      type: 'datetime',
+    }),
+  ],
+  preview: {
+    select: {
+      title: 'name',
+      subtitle: 'user.email',
+    },
+  },
+})
@@ -4,6 +4,13 @@ import jobPosting from './documents/jobPosting'
 import jobCategory from './documents/jobCategory'
 import jobApplication from './documents/jobApplication'
 import user from './documents/user'
+import jobViewStat from './documents/jobViewStat'
+import jobTemplate from './documents/jobTemplate'
+import jobRevision from './documents/jobRevision'
+import savedJobView from './documents/savedJobView'
+import savedSearch from './documents/savedSearch'
+import savedJob from './documents/savedJob'
+import interviewSlot from './documents/interviewSlot'
 
 // Objects
 import location from './objects/location'
@@ -18,6 +25,13 @@ export const schemaTypes = [
   jobCategory,
   jobApplication,
   user,
+  jobViewStat,
+  jobTemplate,
+  jobRevision,
+  savedJobView,
+  savedSearch,
+  savedJob,
+  interviewSlot,
   
   // Objects
   location,
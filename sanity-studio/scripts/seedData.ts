@@ -1,4 +1,4 @@
-// This script adds initial categories to your Sanity dataset
+// This script adds initial categories and shared job templates to your Sanity dataset
 import {createClient} from '@sanity/client'
 
 const client = createClient({
@@ -22,6 +22,140 @@ const categories = [
   { name: 'Automotive', slug: 'automotive', description: 'Auto repair and maintenance' },
 ]
 
+// One shared starter template per trade, keyed by category slug
+const templates = [
+  {
+    category: 'construction',
+    name: 'Construction Foreman',
+    title: 'Construction Foreman',
+    description: 'Lead a crew of carpenters and laborers on residential and light commercial projects. Coordinate daily work with the superintendent, keep the site safe and clean, and make sure the schedule holds.',
+    requirements: "5+ years of construction experience with at least 2 leading crews. OSHA 30 preferred. Valid driver's license and reliable transportation.",
+    salaryType: 'hourly',
+    salaryMin: 32,
+    salaryMax: 42,
+    jobType: 'full-time',
+    experienceLevel: 'experienced',
+    benefits: ['Health Insurance', 'Paid Time Off', '401(k)', 'Company Vehicle'],
+  },
+  {
+    category: 'electrical',
+    name: 'Journeyman Electrician',
+    title: 'Journeyman Electrician',
+    description: 'Install, maintain and troubleshoot electrical systems on commercial and residential job sites. Read blueprints, bend conduit, pull wire and terminate devices to NEC and local code.',
+    requirements: 'Colorado journeyman electrician license. 4+ years of field experience. Own hand tools and reliable transportation.',
+    salaryType: 'hourly',
+    salaryMin: 30,
+    salaryMax: 40,
+    jobType: 'full-time',
+    experienceLevel: 'experienced',
+    benefits: ['Health Insurance', 'Dental Insurance', '401(k) Matching', 'Tool Allowance'],
+  },
+  {
+    category: 'plumbing',
+    name: 'Service Plumber',
+    title: 'Service Plumber',
+    description: 'Respond to residential and commercial service calls: repair leaks, replace water heaters, clear drains and install fixtures. Work independently from a stocked service truck.',
+    requirements: 'Colorado journeyman or residential plumber license. 3+ years of service experience. Clean driving record.',
+    salaryType: 'hourly',
+    salaryMin: 28,
+    salaryMax: 38,
+    jobType: 'full-time',
+    experienceLevel: 'intermediate',
+    benefits: ['Health Insurance', 'Paid Time Off', 'Company Vehicle', 'Performance Bonus'],
+  },
+  {
+    category: 'hvac',
+    name: 'HVAC Service Technician',
+    title: 'HVAC Service Technician',
+    description: 'Diagnose and repair heating and cooling equipment for residential and light commercial customers. Run service calls from a stocked company van and explain repair options to homeowners.',
+    requirements: 'EPA 608 certification. 2+ years of HVAC service experience. Clean driving record and customer-facing communication skills.',
+    salaryType: 'hourly',
+    salaryMin: 26,
+    salaryMax: 36,
+    jobType: 'full-time',
+    experienceLevel: 'intermediate',
+    benefits: ['Health Insurance', 'Paid Time Off', 'Company Vehicle', 'Overtime Pay'],
+  },
+  {
+    category: 'manufacturing',
+    name: 'Production Associate',
+    title: 'Production Associate',
+    description: 'Operate and monitor production equipment, perform quality checks and keep your work area safe and organized. Training provided on all machines and processes.',
+    requirements: 'High school diploma or GED. Able to stand for a full shift and lift 40 lbs. Previous manufacturing experience is a plus.',
+    salaryType: 'hourly',
+    salaryMin: 18,
+    salaryMax: 22,
+    jobType: 'full-time',
+    experienceLevel: 'entry',
+    benefits: ['Health Insurance', 'Paid Holidays', 'Overtime Pay', 'Uniform Provided'],
+  },
+  {
+    category: 'welding',
+    name: 'Structural Welder',
+    title: 'Structural Welder',
+    description: 'Fabricate and weld structural steel in the shop and on site using SMAW, FCAW and GMAW processes. Read weld symbols and shop drawings and fit up assemblies to tolerance.',
+    requirements: 'AWS D1.1 certification or ability to pass a weld test. 2+ years of structural welding experience. Own hood and gloves.',
+    salaryType: 'hourly',
+    salaryMin: 25,
+    salaryMax: 35,
+    jobType: 'full-time',
+    experienceLevel: 'intermediate',
+    benefits: ['Health Insurance', '401(k)', 'Tool Allowance', 'Overtime Pay'],
+  },
+  {
+    category: 'trucking',
+    name: 'Class A CDL Driver',
+    title: 'Class A CDL Driver - Regional',
+    description: 'Haul freight on regional routes across Colorado and neighboring states with home time every weekend. Perform pre-trip inspections and keep accurate electronic logs.',
+    requirements: 'Valid Class A CDL. 1+ year of verifiable tractor-trailer experience. Clean MVR and ability to pass DOT physical and drug screen.',
+    salaryType: 'salary',
+    salaryMin: 65000,
+    salaryMax: 80000,
+    jobType: 'full-time',
+    experienceLevel: 'intermediate',
+    benefits: ['Health Insurance', 'Dental Insurance', 'Vision Insurance', 'Paid Time Off'],
+  },
+  {
+    category: 'warehouse',
+    name: 'Forklift Operator',
+    title: 'Warehouse Forklift Operator',
+    description: 'Load and unload trucks, move product through the warehouse and keep inventory accurate using handheld scanners. Day and swing shifts available.',
+    requirements: 'Forklift certification or willingness to certify. Able to lift 50 lbs repeatedly. Basic computer and scanner skills.',
+    salaryType: 'hourly',
+    salaryMin: 19,
+    salaryMax: 23,
+    jobType: 'full-time',
+    experienceLevel: 'entry',
+    benefits: ['Health Insurance', 'Paid Time Off', 'Overtime Pay'],
+  },
+  {
+    category: 'landscaping',
+    name: 'Seasonal Landscape Crew Member',
+    title: 'Landscape Crew Member - Seasonal',
+    description: 'Install and maintain commercial and residential landscapes from spring through fall: mowing, planting, irrigation repair and hardscape installation.',
+    requirements: 'Able to work outdoors in all weather and lift 50 lbs. Landscaping experience helpful but not required. Reliable transportation.',
+    salaryType: 'hourly',
+    salaryMin: 17,
+    salaryMax: 21,
+    jobType: 'temporary',
+    experienceLevel: 'entry',
+    benefits: ['Overtime Pay', 'Uniform Provided', 'Flexible Schedule'],
+  },
+  {
+    category: 'automotive',
+    name: 'Automotive Technician',
+    title: 'Automotive Service Technician',
+    description: 'Diagnose and repair cars and light trucks including brakes, suspension, engine performance and electrical systems. Work in a clean, well-equipped shop with steady car count.',
+    requirements: 'ASE certifications preferred. 2+ years of dealership or independent shop experience. Own professional tool set.',
+    salaryType: 'hourly',
+    salaryMin: 24,
+    salaryMax: 34,
+    jobType: 'full-time',
+    experienceLevel: 'intermediate',
+    benefits: ['Health Insurance', '401(k) Matching', 'Tool Allowance', 'Paid Time Off'],
+  },
+]
+
 async function seedCategories() {
   console.log('Seeding categories...')
   
@@ -39,7 +173,41 @@ async function seedCategories() {
     }
   }
   
+  console.log('Categories seeded')
+}
+
+async function seedTemplates() {
+  console.log('Seeding job templates...')
+
+  const categoryIds: Record<string, string> = Object.fromEntries(
+    (await client.fetch<Array<{_id: string; slug: string}>>(
+      '*[_type == "jobCategory"]{_id, "slug": slug.current}'
+    )).map(({_id, slug}) => [slug, _id])
+  )
+
+  for (const {category, ...template} of templates) {
+    try {
+      // Fixed IDs keep re-runs from creating duplicates
+      await client.createIfNotExists({
+        _id: `jobTemplate-${category}`,
+        _type: 'jobTemplate',
+        ...template,
+        ...(categoryIds[category] && {
+          category: {_type: 'reference', _ref: categoryIds[category]},
+        }),
+        createdAt: new Date().toISOString(),
+      })
+      console.log(`Created template: ${template.name}`)
+    } catch (error) {
+      console.error(`Error creating template ${template.name}:`, error)
+    }
+  }
+}
+
+async function seed() {
+  await seedCategories()
+  await seedTemplates()
   console.log('Seeding complete!')
 }
 
-seedCategories()
\ No newline at end of file
+seed()
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * Run the scheduled job-board tasks once, outside of the web server.
+ *
+ *   npm run tasks
+ *
+ * Useful for local development and for hosts without Vercel Cron.
+ */
+import { runScheduledTasks } from '../lib/scheduled-tasks';
+
+runScheduledTasks()
+  .then((report) => {
+    console.log(`Published ${report.published.updated.length} scheduled job(s)`);
+    report.published.failed.forEach(({ id, reason }) => {
+      console.warn(`Publishing failed for ${id}: ${reason}`);
+    });
+    console.log(`Expired ${report.expired.updated.length} job(s)`);
+    report.expired.failed.forEach(({ id, reason }) => {
+      console.warn(`Expiring failed for ${id}: ${reason}`);
+    });
+    console.log(`Sent ${report.reminders.sent.length} renewal reminder(s)`);
+    report.reminders.failed.forEach(({ id, reason }) => {
+      console.warn(`Reminder failed for ${id}: ${reason}`);
+    });
+    console.log(`Sent ${report.alerts.sent.length} job alert(s)`);
+    report.alerts.failed.forEach(({ id, reason }) => {
+      console.warn(`Job alert failed for saved search ${id}: ${reason}`);
+    });
+    console.log(`Sent ${report.deadlineReminders.sent.length} saved job deadline reminder(s)`);
+    report.deadlineReminders.failed.forEach(({ id, reason }) => {
+      console.warn(`Deadline reminder failed for saved job ${id}: ${reason}`);
+    });
+    const failures = [
+      report.published,
+      report.expired,
+      report.reminders,
+      report.alerts,
+      report.deadlineReminders,
+    ]
+      .reduce((total, task) => total + task.failed.length, 0);
+    process.exit(failures > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('Error running scheduled tasks:', error);
+    process.exit(1);
+  });
@@ -31,4 +31,5 @@ export interface JobPerformance {
 export interface ApplicationTrend {
   date: string;
   count: number;
+  views: number;
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
+      // Data access ("sanity" or "memory")
+      DATA_BACKEND?: 'sanity' | 'memory'
+
       // Sanity
       NEXT_PUBLIC_SANITY_PROJECT_ID: string
       NEXT_PUBLIC_SANITY_DATASET: string
@@ -15,6 +18,9 @@ declare global {
       GOOGLE_CLIENT_ID: string
       GOOGLE_CLIENT_SECRET: string
       
+      // Scheduled tasks
+      CRON_SECRET: string
+      
       // Email
       RESEND_API_KEY: string
       EMAIL_FROM: string
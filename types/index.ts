@@ -32,10 +32,18 @@ export interface Job {
   expiresAt?: string;
   isUrgent: boolean;
   featured: boolean;
-  status: 'draft' | 'published' | 'expired' | 'filled';
+  status: 'draft' | 'scheduled' | 'published' | 'expired' | 'filled';
+  publishAt?: string;
   publishedAt: string;
   viewCount: number;
   applicationCount: number;
+  expiryReminderSentFor?: string;
+  // What reviewers score applicants on, in display order
+  scorecardCriteria?: ScorecardCriterion[];
+  // Asked before the rest of the application, in display order
+  screeningQuestions?: ScreeningQuestion[];
+  // Move applicants who fail a knockout rule straight to rejected
+  autoRejectKnockouts?: boolean;
 }
 
 export interface Company {
@@ -73,13 +81,132 @@ export interface JobApplication {
     name: string;
     email: string;
     phone: string;
+    // Uploaded resume, stored as a file asset
+    resume?: ResumeFile;
+    // Link given with applications made before uploads were stored
     resumeUrl?: string;
     linkedIn?: string;
+    // From our trade vocabulary, picked out of the resume and confirmed by the applicant
+    skills?: string[];
+    certifications?: string[];
   };
   coverMessage?: string;
   status: 'new' | 'reviewed' | 'interviewing' | 'hired' | 'rejected';
+  rating?: number;
   appliedDate: string;
   employerNotes?: string;
+  interviewDate?: string;
+  // Oldest first
+  statusHistory?: ApplicationStatusChange[];
+  // Slot the applicant picked through their scheduling link
+  interview?: InterviewBooking;
+  // One per reviewer
+  scorecards?: Scorecard[];
+  // Mean of the scorecards' overall scores, kept for sorting and filtering
+  scorecardAverage?: number;
+  // Oldest first
+  resumeDownloads?: ResumeDownload[];
+  // In the job's question order
+  screeningAnswers?: ScreeningAnswer[];
+  // Set when any answer failed its question's knockout rule
+  knockedOut?: boolean;
+}
+
+export interface ResumeFile {
+  assetId: string;
+  filename: string;
+  mimeType: string;
+  // Bytes
+  size: number;
+}
+
+// What the upload endpoint read from a resume, for prefilling the form
+export interface ResumeDetails {
+  name?: string;
+  email?: string;
+  phone?: string;
+  skills: string[];
+  certifications: string[];
+}
+
+export interface UploadedResume {
+  file: ResumeFile;
+  // Plain text of the resume, empty when it couldn't be read
+  text: string;
+  details: ResumeDetails;
+}
+
+// An employer opening an applicant's resume, kept so the applicant can be
+// told who has seen it
+export interface ResumeDownload {
+  _key: string;
+  viewer: { id: string; name?: string; email?: string };
+  downloadedAt: string;
+}
+
+export interface InterviewBooking {
+  slotId: string;
+  startsAt: string;
+  endsAt: string;
+  location?: string;
+  // Bumped on every change so calendar apps replace the earlier invite
+  sequence: number;
+  // Set when the interview was called off; the slot is free again
+  cancelledAt?: string;
+}
+
+// One move between pipeline stages; the first entry, without `from`, records
+// the application being submitted
+export interface ApplicationStatusChange {
+  from?: JobApplication['status'];
+  to: JobApplication['status'];
+  at: string;
+  by: { id: string; name?: string; email?: string };
+}
+
+// Knockout rules are optional: applicants whose answer isn't `requiredAnswer`
+// (or is below `minimumAnswer` for numbers) are flagged. The public job
+// listing leaves the rules out so they can't be read off the page
+export interface ScreeningQuestion {
+  _key: string;
+  prompt: string;
+  kind: 'yesNo' | 'multipleChoice' | 'number' | 'text';
+  // Choices of a multiple choice question
+  options?: string[];
+  // 'yes' or 'no' for yes/no questions; text answers are compared ignoring case
+  requiredAnswer?: string;
+  minimumAnswer?: number;
+}
+
+// Keyed by question; the prompt is kept so answers outlive question edits
+export interface ScreeningAnswer {
+  _key: string;
+  prompt: string;
+  answer: string;
+  // False when the answer failed the question's knockout rule
+  passed: boolean;
+}
+
+export interface ScorecardCriterion {
+  _key: string;
+  label: string;
+  // `yesNo` criteria score 5 for yes and 1 for no
+  kind: 'rating' | 'yesNo';
+}
+
+export interface Scorecard {
+  _key: string;
+  reviewer: { id: string; name?: string; email?: string };
+  scores: ScorecardScore[];
+  comment?: string;
+  submittedAt: string;
+}
+
+// Score from 1 to 5; the label is kept so scores outlive criteria edits
+export interface ScorecardScore {
+  criterionKey: string;
+  label: string;
+  score: number;
 }
 
 export interface Location {
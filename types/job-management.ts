@@ -22,17 +22,20 @@ export interface JobFormData {
   applicationDeadline?: string;
   isUrgent: boolean;
   featured: boolean;
-  status: 'draft' | 'published' | 'expired' | 'filled';
+  status: 'draft' | 'scheduled' | 'published' | 'expired' | 'filled';
+  publishAt?: string;
 }
 
 export interface JobTableRow {
   id: string;
   title: string;
-  status: 'draft' | 'published' | 'expired' | 'filled';
+  status: 'draft' | 'scheduled' | 'published' | 'expired' | 'filled';
   applications: number;
   views: number;
+  publishAt?: string;
   publishedAt?: string;
   expiresAt?: string;
   selected?: boolean;
   slug?: string;
+  repostOf?: string;
 }
\ No newline at end of file